@@ -5,7 +5,8 @@
  * This component acts as the "Coordinator Agent" implementing standard ADK patterns:
  * 
  * 1. STATE MACHINE: Manages the application flow by transitioning between agent states (QUERY -> HISTORIAN -> INTERPRETER).
- * 2. TASK QUEUE: Maintains a queue of domains for batch processing (Loop pattern).
+ * 2. TASK QUEUE: Maintains a queue of domains for batch processing (Loop pattern). A site that fails
+ *    is recorded with its reason and dropped from the queue; the rest of the batch carries on.
  * 3. SEQUENTIAL WORKFLOW: Chains the specialized sub-agents, passing context through a shared 'Session Memory'.
  * 
  * This component's primary role is to manage state and orchestrate the other agents.
@@ -13,16 +14,33 @@
  */
 
 import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { Activity, Play, Settings, Key, Server, Globe, Sparkles, Lock, ShieldCheck, AlertTriangle } from 'lucide-react';
+import { Activity, Play, Settings, Key, Server, Globe, Sparkles, Lock, ShieldCheck, AlertTriangle, Route } from 'lucide-react';
 import { AgentGraph } from './components/AgentGraph';
 import { MCPServerView } from './components/MCPServerView';
-import { Report } from './components/Report';
+import { Report, StreamingReport, PlannerAnswer } from './components/Report';
 import { Logs } from './components/Logs';
+import { FailedSites } from './components/FailedSites';
+import { ChatPanel } from './components/ChatPanel';
+import { CacheInspector } from './components/CacheInspector';
+import { BudgetEditor } from './components/BudgetEditor';
+import { OfflineImport } from './components/OfflineImport';
 import { runQueryAgent } from './agents/queryAgent';
+import { toCrUXErrorInfo, cruxScheduler } from './services/cruxService';
 import { runHistorianAgent } from './agents/historianAgent';
 import { runInterpreterAgent, runBatchComparisonAgent } from './agents/interpreterAgent';
-import { AgentState, LogEntry, AnalysisResult, AgentMemory } from './types';
-import { INITIAL_LOGS } from './constants';
+import { runChatAgent } from './agents/chatAgent';
+import { runPlannerAgent } from './agents/plannerAgent';
+import { createPlannerWorkspace } from './agents/plannerTools';
+import { isLLMConfigured, getLLMLabel, setLLMConfig } from './services/geminiService';
+import { LLM_PROVIDERS, getEnvGeminiKey, loadLLMConfig, saveLLMConfig, validateLLMConfig } from './services/llmProviders';
+import { getCached, putCached, getReportCacheKey } from './services/cacheStore';
+import { DATA_SOURCES, createDataSource, inferDataSourceKind, validateDataSource } from './services/dataSources';
+import { loadBudgets, saveBudgets } from './services/budgets';
+import { SIMULATION_FIXTURES } from './services/simulationFixtures';
+import { toInterpreterMarkdown } from './services/structuredReports';
+import { getChatSessionKey } from './services/auditFacts';
+import { AgentState, LogEntry, AnalysisResult, AgentMemory, FormFactor, FailedSite, DataSourceKind, OfflineDataset, PerformanceBudget, HistorianReport, InterpreterReport, LLMConfig, LLMProviderKind, StreamProgress, AuditContext, ChatMessage, PlannerStep, PlannerResult } from './types';
+import { INITIAL_LOGS, CRUX_ERRORS, FORM_FACTORS, DEFAULT_FORM_FACTORS, DEFAULT_HISTORY_DEPTH, MAX_HISTORY_DEPTH, DEFAULT_REQUESTS_PER_MINUTE, REPORT_CACHE_TTL_MS, MAX_PLANNER_STEPS } from './constants';
 
 const PRESET_DOMAINS = [
     'https://www.wikipedia.org',
@@ -31,18 +49,23 @@ const PRESET_DOMAINS = [
     'https://www.reddit.com'
 ];
 
+// A goal the simulated planner can carry out with the built-in fixtures.
+const PLANNER_EXAMPLE_GOAL = 'Compare mobile INP of improving.example, regressing.example and volatile.example over the last quarter';
+
 const STORAGE_KEY = 'crux_agent_config_key';
+const SOURCE_STORAGE_KEY = 'crux_agent_config_source';
 
 const INITIAL_MEMORY: AgentMemory = {
     query: { lastDomain: '', lastRawResults: null },
     historian: { lastTrend: null, lastHistoryData: null },
-    interpreter: { lastAnalysis: null, lastRecommendations: '' }
+    interpreter: { lastAnalysis: null, lastReport: null, lastRecommendations: '' }
 };
 
-interface CachedResult {
-  analysis: AnalysisResult;
-  historianNotes: string;
-  markdown: string;
+// Generated output stored in the persistent report cache; the CrUX data is cached separately.
+// Entries written before reports were structured have no `report` and count as a miss.
+interface CachedReport {
+  historian: HistorianReport;
+  report: InterpreterReport;
 }
 
 export default function App() {
@@ -58,14 +81,39 @@ export default function App() {
   
   // --- WORKFLOW STATE ---
   const [taskQueue, setTaskQueue] = useState<string[]>([]);
+  // Sites in the audit; more than one makes it a batch.
   const [totalTasks, setTotalTasks] = useState(0);
+  // Sites queued by the current run, for progress: the whole audit, or only the failed sites on a retry.
+  const [queuedTasks, setQueuedTasks] = useState(0);
   const [completedData, setCompletedData] = useState<AnalysisResult[]>([]);
-  const [individualReports, setIndividualReports] = useState<string[]>([]);
+  // Per completed site, parallel to `completedData`; null where a planner run wrote no report.
+  const [individualReports, setIndividualReports] = useState<(InterpreterReport | null)[]>([]);
+  const [individualTrends, setIndividualTrends] = useState<(HistorianReport | null)[]>([]);
+  const [failedSites, setFailedSites] = useState<FailedSite[]>([]);
+  // The Interpreter's output while it streams in; null when nothing is streaming.
+  const [streamingReport, setStreamingReport] = useState<StreamProgress | null>(null);
+  // Follow-up conversations by audit (see getChatSessionKey); they outlive the run, so
+  // re-auditing the same collection period picks the conversation back up.
+  const [chatSessions, setChatSessions] = useState<Record<string, ChatMessage[]>>({});
+  const [chatPending, setChatPending] = useState<string | null>(null);
+  // 'pipeline' audits a list of URLs through the fixed Query -> Historian -> Interpreter chain;
+  // 'planner' hands a natural-language goal to the Planner Agent.
+  const [coordinator, setCoordinator] = useState<'pipeline' | 'planner'>('pipeline');
+  const [plannerSteps, setPlannerSteps] = useState<PlannerStep[] | null>(null);
+  const [plannerResult, setPlannerResult] = useState<PlannerResult | null>(null);
   const isProcessingRef = useRef(false);
-  const cacheRef = useRef<Map<string, CachedResult>>(new Map());
 
   // --- UI & CONFIG STATE ---
   const [activeTab, setActiveTab] = useState<'auditor' | 'server'>('auditor');
+  const [formFactors, setFormFactors] = useState<FormFactor[]>(DEFAULT_FORM_FACTORS);
+  const [historyDepth, setHistoryDepth] = useState(DEFAULT_HISTORY_DEPTH);
+  const [requestsPerMinute, setRequestsPerMinute] = useState(DEFAULT_REQUESTS_PER_MINUTE);
+
+  const toggleFormFactor = (formFactor: FormFactor) => {
+    setFormFactors(prev => prev.includes(formFactor)
+        ? prev.filter(f => f !== formFactor)
+        : FORM_FACTORS.map(f => f.key).filter(key => key === formFactor || prev.includes(key)));
+  };
   
   const getEnvKey = () => {
     try {
@@ -91,16 +139,147 @@ export default function App() {
         localStorage.setItem(STORAGE_KEY, cruxKey);
     }
   }, [cruxKey, envCruxKey]);
+
+  const [sourceKind, setSourceKind] = useState<DataSourceKind>(() => {
+    const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(SOURCE_STORAGE_KEY) : null;
+    return DATA_SOURCES.some(s => s.kind === saved) ? saved as DataSourceKind : inferDataSourceKind(cruxKey);
+  });
+  const [offlineDataset, setOfflineDataset] = useState<OfflineDataset | null>(null);
+  const sourceProblem = validateDataSource(sourceKind, cruxKey, offlineDataset);
+
+  useEffect(() => {
+    localStorage.setItem(SOURCE_STORAGE_KEY, sourceKind);
+  }, [sourceKind]);
+
+  const [budgets, setBudgets] = useState<PerformanceBudget[]>(loadBudgets);
+
+  useEffect(() => {
+    saveBudgets(budgets);
+  }, [budgets]);
+
+  const [llmConfig, setLlmConfig] = useState<LLMConfig>(loadLLMConfig);
+  const envGeminiKey = getEnvGeminiKey();
+  const llmProblem = validateLLMConfig(llmConfig);
+
+  useEffect(() => {
+    setLLMConfig(llmConfig);
+    saveLLMConfig(llmConfig);
+  }, [llmConfig]);
+
+  const selectLLMProvider = (provider: LLMProviderKind) =>
+    setLlmConfig(prev => prev.provider === provider ? prev : { ...prev, provider, model: LLM_PROVIDERS.find(p => p.kind === provider)!.defaultModel });
   
-  const addLog = useCallback((source: LogEntry['source'], message: string, type: LogEntry['type'] = 'info') => {
+  const addLog = useCallback((source: LogEntry['source'], message: string, type: LogEntry['type'] = 'info', guidance?: string) => {
     setLogs(prev => [...prev, {
       timestamp: new Date().toLocaleTimeString(),
       source,
       message,
-      type
+      type,
+      guidance
     }]);
   }, []);
 
+  // A stream reports progress per chunk; its log line is updated in place rather than appended.
+  const handleStreamProgress = useCallback((progress: StreamProgress) => {
+    setStreamingReport(progress);
+    setLogs(prev => {
+      const entry: LogEntry = {
+        timestamp: new Date().toLocaleTimeString(),
+        source: 'Interpreter',
+        message: `Streaming: ${progress.tokens !== null ? `${progress.tokens} tokens` : `${progress.chunks} chunks`}, ${progress.characters} characters received...`,
+        type: 'info',
+        live: true,
+      };
+      return prev[prev.length - 1]?.live ? [...prev.slice(0, -1), entry] : [...prev, entry];
+    });
+  }, []);
+
+  useEffect(() => {
+    cruxScheduler.setRequestsPerMinute(requestsPerMinute);
+  }, [requestsPerMinute]);
+
+  // Surface rate-limit waits and retries from the shared CrUX request scheduler.
+  useEffect(() => cruxScheduler.onStatus(status => {
+    const seconds = `${(status.waitMs / 1000).toFixed(1)}s`;
+    if (status.type === 'throttled') {
+      addLog('Query Agent', `Request budget reached (${status.requestsPerMinute}/min). Waiting ${seconds} with ${status.queued} request${status.queued === 1 ? '' : 's'} queued.`, 'warning');
+    } else {
+      addLog('Query Agent', `${status.label} failed (${status.reason}). Retry ${status.attempt}/${status.maxRetries} in ${seconds}.`, 'warning');
+    }
+  }), [addLog]);
+
+  /**
+   * Runs the Planner Agent on a natural-language goal. The model chooses the steps, so
+   * this runs outside the workflow effect; the results are committed to the same state
+   * the pipeline fills, so the report, retries and chat work as they do after an audit.
+   */
+  const runPlanner = useCallback(async (goal: string) => {
+    setLogs(INITIAL_LOGS);
+    setMemory(INITIAL_MEMORY);
+    setCompletedData([]);
+    setIndividualReports([]);
+    setIndividualTrends([]);
+    setFailedSites([]);
+    setStreamingReport(null);
+    setTaskQueue([]);
+    setTotalTasks(0);
+    setQueuedTasks(0);
+    setPlannerSteps([]);
+    setPlannerResult(null);
+    setAgentState(AgentState.PLANNER);
+
+    addLog('Assistant', `Dispatching: Planner Agent (at most ${MAX_PLANNER_STEPS} steps)`, 'info');
+    if (isLLMConfigured()) {
+        addLog('Planner', `Planning on ${getLLMLabel()}.`, 'info');
+    } else {
+        addLog('Planner', `${llmProblem} The planner follows a fixed plan for the sites named in the goal.`, 'warning');
+    }
+
+    const onStep = (step: PlannerStep) => {
+        setPlannerSteps(prev => [...(prev ?? []).filter(s => s.index !== step.index), step].sort((a, b) => a.index - b.index));
+        if (step.status === 'running') {
+            addLog('Planner', `Step ${step.index}: ${step.tool}(${JSON.stringify(step.args)})`, 'info');
+        } else {
+            addLog('Planner', `Step ${step.index}: ${step.summary}`, step.status === 'done' ? 'success' : 'error');
+        }
+    };
+
+    try {
+        const workspace = createPlannerWorkspace(createDataSource(sourceKind, cruxKey, offlineDataset), { formFactors, historyDepth, budgets });
+        const result = await runPlannerAgent(goal, workspace, onStep, handleStreamProgress);
+        const last = result.analyses.length - 1;
+        const lastReport = result.reports[last] ?? null;
+
+        setCompletedData(result.analyses);
+        setIndividualReports(result.reports);
+        setIndividualTrends(result.historians);
+        setFailedSites(result.failedSites);
+        setTotalTasks(result.analyses.length + result.failedSites.length);
+        setMemory({
+            query: { lastDomain: result.analyses[last]?.domain ?? '', lastRawResults: result.analyses[last] ?? null },
+            historian: { lastTrend: result.historians[last] ?? null, lastHistoryData: null },
+            interpreter: {
+                lastAnalysis: result.analyses[last] ?? null,
+                lastReport,
+                lastRecommendations: result.comparison ? `# 📊 Comparative Conclusion\n\n${result.comparison}` : lastReport ? toInterpreterMarkdown(lastReport) : '',
+            },
+        });
+        setPlannerResult(result);
+
+        if (result.stoppedAtLimit) {
+            addLog('Planner', `Stopped at the limit of ${MAX_PLANNER_STEPS} steps; the answer may be incomplete.`, 'warning');
+        }
+        addLog('Assistant', `Planner finished after ${result.steps.length} step${result.steps.length === 1 ? '' : 's'}.`, 'success');
+        setAgentState(AgentState.COMPLETE);
+    } catch (err) {
+        const error = toCrUXErrorInfo(err);
+        addLog('Planner', `Planner failed: ${error.message}`, 'error', error.guidance);
+        setAgentState(AgentState.ERROR);
+    } finally {
+        setStreamingReport(null);
+    }
+  }, [sourceKind, cruxKey, offlineDataset, formFactors, historyDepth, budgets, llmProblem, addLog, handleStreamProgress]);
+
   /**
    * Kicks off the intelligence workflow by setting up the initial state.
    */
@@ -110,12 +289,22 @@ export default function App() {
 
     if (targetInput !== domain) setDomain(targetInput);
     
-    if (!cruxKey) {
-        addLog('Assistant', 'MISSING CONFIGURATION: Please enter your CrUX API Key or Proxy URL.', 'error');
+    if (sourceProblem) {
+        addLog('Assistant', `MISSING CONFIGURATION: ${sourceProblem}`, 'error');
         setAgentState(AgentState.ERROR);
         return;
     }
 
+    if (formFactors.length === 0) {
+        addLog('Assistant', 'MISSING CONFIGURATION: Select at least one form factor.', 'error');
+        return;
+    }
+
+    if (coordinator === 'planner') {
+        runPlanner(targetInput.trim());
+        return;
+    }
+
     const targets = targetInput.split(',').map(s => {
         let clean = s.trim();
         if (clean && !/^https?:\/\//i.test(clean)) {
@@ -136,12 +325,59 @@ export default function App() {
     setMemory(INITIAL_MEMORY);
     setCompletedData([]);
     setIndividualReports([]);
+    setIndividualTrends([]);
+    setFailedSites([]);
+    setStreamingReport(null);
+    setPlannerSteps(null);
+    setPlannerResult(null);
     setTotalTasks(targets.length);
+    setQueuedTasks(targets.length);
     setTaskQueue(targets);
     
     addLog('Assistant', `Initializing Intelligence System. Queue: ${targets.length}`, 'info');
+    if (isLLMConfigured()) {
+        addLog('Assistant', `Historian and Interpreter run on ${getLLMLabel()}.`, 'info');
+    } else {
+        addLog('Assistant', `${llmProblem} The Historian and Interpreter produce deterministic simulated output.`, 'warning');
+    }
     setAgentState(AgentState.QUERY); // This kicks off the useEffect workflow
-  }, [domain, cruxKey, addLog]);
+  }, [domain, sourceProblem, llmProblem, formFactors, coordinator, runPlanner, addLog]);
+
+  /**
+   * Re-queues every failed site. Completed sites are kept, so the batch
+   * comparison is regenerated over the full set once the retries finish.
+   */
+  const retryFailed = useCallback(() => {
+    const targets = failedSites.map(site => site.domain);
+    if (targets.length === 0) return;
+
+    setFailedSites([]);
+    setPlannerSteps(null);
+    setQueuedTasks(targets.length);
+    setTaskQueue(targets);
+    addLog('Assistant', `Retrying ${targets.length} failed site${targets.length === 1 ? '' : 's'}.`, 'info');
+    setAgentState(AgentState.QUERY);
+  }, [failedSites, addLog]);
+
+  /**
+   * Answers a follow-up question about a completed audit. The question and answer are
+   * appended to that audit's conversation, which is passed back with the next question.
+   */
+  const askQuestion = useCallback(async (audit: AuditContext, question: string) => {
+    const key = getChatSessionKey(audit.analysis);
+    const history = chatSessions[key] ?? [];
+    const userMessage: ChatMessage = { role: 'user', content: question, citations: [], simulated: false };
+    setChatSessions(prev => ({ ...prev, [key]: [...(prev[key] ?? []), userMessage] }));
+    setChatPending(key);
+    addLog('Assistant', `Dispatching: Chat Agent (${audit.analysis.domain})`, 'info');
+    try {
+      const answer = await runChatAgent(question, history, audit);
+      setChatSessions(prev => ({ ...prev, [key]: [...(prev[key] ?? []), answer] }));
+      addLog('Chat Agent', `Answered with ${answer.citations.length} cited fact${answer.citations.length === 1 ? '' : 's'}.`, 'success');
+    } finally {
+      setChatPending(null);
+    }
+  }, [chatSessions, addLog]);
 
 
   /**
@@ -150,7 +386,8 @@ export default function App() {
    * orchestrating the sequence of agent operations.
    */
   useEffect(() => {
-    const isWorkflowActive = agentState !== AgentState.IDLE && agentState !== AgentState.COMPLETE && agentState !== AgentState.ERROR;
+    // Planner runs drive themselves (see runPlanner).
+    const isWorkflowActive = agentState !== AgentState.IDLE && agentState !== AgentState.COMPLETE && agentState !== AgentState.ERROR && agentState !== AgentState.PLANNER;
     if (!isWorkflowActive || isProcessingRef.current) {
       return;
     }
@@ -160,12 +397,23 @@ export default function App() {
         const currentTarget = taskQueue[0];
         
         if (!currentTarget) {
+            if (completedData.length === 0) {
+                addLog('Assistant', 'No site could be audited. See the failures below.', 'error');
+                setAgentState(AgentState.ERROR);
+                isProcessingRef.current = false;
+                return;
+            }
+
             // Queue is empty, check if we need to finalize a batch job
             if (totalTasks > 1) {
                 addLog('Interpreter', 'Finalizing batch comparison...', 'info');
-                const comparison = await runBatchComparisonAgent(completedData);
+                const comparison = await runBatchComparisonAgent(completedData, failedSites, handleStreamProgress);
+                setStreamingReport(null);
+                if (comparison.failed) {
+                    addLog('Interpreter', `Batch analysis failed with ${getLLMLabel()}. Showing the scoreboard only; see the console for details.`, 'error');
+                }
 
-                const finalMarkdownOutput = `# 📊 Comparative Conclusion\n\n${comparison}`;
+                const finalMarkdownOutput = `# 📊 Comparative Conclusion\n\n${comparison.markdown}`;
 
                 setMemory(prev => ({
                     ...prev,
@@ -174,48 +422,62 @@ export default function App() {
                     interpreter: { ...prev.interpreter, lastRecommendations: finalMarkdownOutput }
                 }));
             }
-            addLog('Assistant', 'Intelligence cycle complete.', 'success');
+            if (failedSites.length > 0) {
+                addLog('Assistant', `Intelligence cycle complete. ${failedSites.length} of ${totalTasks} sites failed.`, 'warning');
+            } else {
+                addLog('Assistant', 'Intelligence cycle complete.', 'success');
+            }
             setAgentState(AgentState.COMPLETE);
             isProcessingRef.current = false;
             return;
         }
 
-        // CACHE CHECK: Before running agents, check for cached results.
-        if (cacheRef.current.has(currentTarget)) {
-            addLog('Assistant', `Cache hit for ${currentTarget}. Loading from memory.`, 'success');
-            const cached = cacheRef.current.get(currentTarget)!;
-            
-            setMemory(prev => ({
-                ...prev,
-                query: { lastDomain: currentTarget, lastRawResults: cached.analysis },
-                historian: { lastTrend: cached.historianNotes, lastHistoryData: null },
-                interpreter: { lastAnalysis: cached.analysis, lastRecommendations: cached.markdown }
-            }));
-            setCompletedData(prev => [...prev, cached.analysis]);
-            setIndividualReports(prev => [...prev, cached.markdown]);
-
-            const remainingTasks = taskQueue.slice(1);
-            setTaskQueue(remainingTasks);
-            if (remainingTasks.length > 0) {
-                setAgentState(AgentState.QUERY);
-            }
-            isProcessingRef.current = false;
-            return; // Skip agent execution for this cached item
-        }
-
-
         try {
-            const taskNumber = totalTasks - taskQueue.length + 1;
-            addLog('Assistant', `[${taskNumber}/${totalTasks}] Processing ${currentTarget}`, 'info');
+            const taskNumber = queuedTasks - taskQueue.length + 1;
+            addLog('Assistant', `[${taskNumber}/${queuedTasks}] Processing ${currentTarget}`, 'info');
 
             switch (agentState) {
                 // ============================================
                 // STEP 1: Invoke Query Agent
                 // ============================================
                 case AgentState.QUERY:
-                    addLog('Assistant', 'Dispatching: Query Agent', 'info');
-                    const analyzedData = await runQueryAgent(currentTarget, cruxKey);
+                    const source = createDataSource(sourceKind, cruxKey, offlineDataset);
+                    addLog('Assistant', `Dispatching: Query Agent (${formFactors.length} form factors in parallel, source: ${source.label})`, 'info');
+                    const analyzedData = await runQueryAgent(currentTarget, source, { formFactors, historyDepth, budgets });
                     
+                    const missing = formFactors.filter(f => !analyzedData.formFactors[f]);
+                    if (missing.length > 0) {
+                        addLog('Query Agent', `No CrUX data for: ${missing.join(', ')}. Continuing with available form factors.`, 'warning');
+                    }
+                    for (const ff of Object.values(analyzedData.formFactors)) {
+                        if (ff?.historyError) {
+                            addLog('Query Agent', `History unavailable for ${ff.formFactor}: ${ff.historyError.message}`, 'warning', ff.historyError.guidance);
+                        }
+                    }
+
+                    // CACHE CHECK: A report generated from these same collection periods is reused,
+                    // skipping the Historian and Interpreter (and their model calls) entirely.
+                    const cachedReport = await getCached<CachedReport>('reports', getReportCacheKey(analyzedData, historyDepth, getLLMLabel() ?? 'simulated'));
+                    if (cachedReport?.report) {
+                        addLog('Assistant', `Cache hit for ${currentTarget}: report for the current collection period loaded.`, 'success');
+                        setMemory(prev => ({
+                            ...prev,
+                            query: { lastDomain: currentTarget, lastRawResults: analyzedData },
+                            historian: { lastTrend: cachedReport.historian, lastHistoryData: null },
+                            interpreter: { lastAnalysis: analyzedData, lastReport: cachedReport.report, lastRecommendations: toInterpreterMarkdown(cachedReport.report) }
+                        }));
+                        setCompletedData(prev => [...prev, analyzedData]);
+                        setIndividualReports(prev => [...prev, cachedReport.report]);
+                        setIndividualTrends(prev => [...prev, cachedReport.historian]);
+
+                        const remainingAfterCache = taskQueue.slice(1);
+                        setTaskQueue(remainingAfterCache);
+                        if (remainingAfterCache.length > 0) {
+                            setAgentState(AgentState.QUERY);
+                        }
+                        break;
+                    }
+
                     setMemory(prev => ({ ...prev, query: { lastDomain: currentTarget, lastRawResults: analyzedData } }));
                     addLog('Query Agent', 'Committed raw results to Session Memory.', 'success');
                     setAgentState(AgentState.HISTORIAN);
@@ -229,9 +491,9 @@ export default function App() {
                     const dataForHistorian = memory.query.lastRawResults;
                     if (!dataForHistorian) throw new Error("Memory inconsistency: Query data not found for Historian.");
                     
-                    const historianNotes = await runHistorianAgent(currentTarget, dataForHistorian);
+                    const historianReport = await runHistorianAgent(currentTarget, dataForHistorian);
                     
-                    setMemory(prev => ({ ...prev, historian: { lastTrend: historianNotes, lastHistoryData: null } }));
+                    setMemory(prev => ({ ...prev, historian: { lastTrend: historianReport, lastHistoryData: null } }));
                     addLog('Historian', 'Committed trend analysis to Session Memory.', 'success');
                     setAgentState(AgentState.INTERPRETER);
                     break;
@@ -242,26 +504,32 @@ export default function App() {
                 case AgentState.INTERPRETER:
                     addLog('Assistant', 'Dispatching: Interpreter Agent', 'info');
                     const dataForInterpreter = memory.query.lastRawResults;
-                    const notesForInterpreter = memory.historian.lastTrend;
-                    if (!dataForInterpreter || notesForInterpreter === null) throw new Error("Memory inconsistency: Data not found for Interpreter.");
+                    const trendForInterpreter = memory.historian.lastTrend;
+                    if (!dataForInterpreter || trendForInterpreter === null) throw new Error("Memory inconsistency: Data not found for Interpreter.");
                     
-                    const markdown = await runInterpreterAgent(currentTarget, dataForInterpreter, notesForInterpreter);
+                    const report = await runInterpreterAgent(currentTarget, dataForInterpreter, trendForInterpreter, handleStreamProgress);
+                    if (report.truncated) {
+                        addLog('Interpreter', 'The report stream was cut off. Showing the part that arrived; it is not cached.', 'warning');
+                    }
                     
-                    // CACHE WRITE: Store the successful result in the session cache.
-                    if (totalTasks > 0) {
-                        cacheRef.current.set(currentTarget, {
-                            analysis: dataForInterpreter,
-                            historianNotes: notesForInterpreter,
-                            markdown: markdown
-                        });
-                        addLog('Assistant', `Results for ${currentTarget} cached for this session.`, 'info');
+                    // CACHE WRITE: Persist the report under its collection periods. Simulation output
+                    // is not cached, so configuring a model later produces a real report, and neither is a
+                    // report whose stream was cut off.
+                    if (isLLMConfigured() && !report.truncated) {
+                        const periods = Object.values(dataForInterpreter.formFactors).map(ff => ff.collectionPeriod);
+                        await putCached<CachedReport>('reports', getReportCacheKey(dataForInterpreter, historyDepth, getLLMLabel()!), {
+                            historian: trendForInterpreter,
+                            report
+                        }, { label: `Report: ${currentTarget}`, collectionPeriod: periods[0] ?? null, ttlMs: REPORT_CACHE_TTL_MS });
+                        addLog('Assistant', `Report for ${currentTarget} cached for its collection period.`, 'info');
                     }
                                         
-                    setMemory(prev => ({ ...prev, interpreter: { lastAnalysis: dataForInterpreter, lastRecommendations: markdown } }));
+                    setMemory(prev => ({ ...prev, interpreter: { lastAnalysis: dataForInterpreter, lastReport: report, lastRecommendations: toInterpreterMarkdown(report) } }));
                     
                     // Update batch tracking state
                     setCompletedData(prev => [...prev, dataForInterpreter]);
-                    setIndividualReports(prev => [...prev, markdown]);
+                    setIndividualReports(prev => [...prev, report]);
+                    setIndividualTrends(prev => [...prev, trendForInterpreter]);
 
                     // Dequeue and decide next step
                     addLog('Assistant', `Cycle complete for ${currentTarget}.`, 'success');
@@ -277,15 +545,31 @@ export default function App() {
                     break;
             }
         } catch (err: any) {
-            addLog('Assistant', `System Failure: ${err.message}`, 'error');
-            setAgentState(AgentState.ERROR);
+            // Isolate the failure to this site: record why, dequeue it and carry on with the batch.
+            // With an empty queue the effect re-runs and finalizes (or errors if nothing succeeded).
+            const error = toCrUXErrorInfo(err);
+            addLog('Assistant', `Failed to audit ${currentTarget}: ${error.message}`, 'error', error.guidance);
+            setFailedSites(prev => [...prev, { domain: currentTarget, stage: agentState, error }]);
+            const remainingTasks = taskQueue.slice(1);
+            setTaskQueue(remainingTasks);
+            if (remainingTasks.length > 0) {
+                setAgentState(AgentState.QUERY);
+            }
         } finally {
+            setStreamingReport(null);
             isProcessingRef.current = false;
         }
     };
 
     processTask();
-  }, [agentState, taskQueue, cruxKey, addLog, completedData, individualReports, memory, totalTasks]);
+  }, [agentState, taskQueue, cruxKey, sourceKind, offlineDataset, formFactors, historyDepth, budgets, addLog, handleStreamProgress, completedData, individualReports, failedSites, memory, totalTasks, queuedTasks]);
+
+  // What the Chat Agent can be asked about: every site of a batch, or the single audit in Session Memory.
+  const chatAudits: AuditContext[] = totalTasks > 1
+    ? completedData.map((analysis, i) => ({ analysis, historian: individualTrends[i] ?? null, report: individualReports[i] ?? null }))
+    : memory.query.lastRawResults
+      ? [{ analysis: memory.query.lastRawResults, historian: memory.historian.lastTrend, report: memory.interpreter.lastReport }]
+      : [];
 
 
   return (
@@ -327,9 +611,28 @@ export default function App() {
                   {/* Left: Input */}
                   <div className="lg:col-span-2 space-y-6">
                     <div className="bg-zinc-900/50 p-6 rounded-2xl border border-zinc-800 shadow-xl relative z-10">
-                      <label className="block text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-3">
-                        Target Origin (or comma-separated list)
-                      </label>
+                      <div className="flex items-center justify-between mb-3">
+                        <label className="block text-xs font-semibold text-zinc-500 uppercase tracking-wider">
+                          {coordinator === 'planner' ? 'Goal' : 'Target Origin or Page URL (or comma-separated list)'}
+                        </label>
+                        <div className="flex gap-1">
+                          {(['pipeline', 'planner'] as const).map(mode => (
+                            <button
+                              key={mode}
+                              onClick={() => setCoordinator(mode)}
+                              title={mode === 'planner' ? 'Describe a goal; the Planner Agent decides which agents to run' : 'Audit the listed URLs with the fixed Query, Historian and Interpreter chain'}
+                              className={`flex items-center gap-1 px-2.5 py-1 rounded border text-xs transition-colors ${
+                                coordinator === mode
+                                ? 'bg-indigo-950/40 border-indigo-700/60 text-indigo-300'
+                                : 'bg-black/30 border-zinc-800 text-zinc-500 hover:text-zinc-300'
+                              }`}
+                            >
+                              {mode === 'planner' && <Route size={12} />}
+                              {mode === 'planner' ? 'Planner' : 'Pipeline'}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
                       
                       <div className="flex gap-2 relative">
                         <div className="absolute left-4 top-3.5 text-zinc-500 pointer-events-none">
@@ -339,7 +642,7 @@ export default function App() {
                           type="text" 
                           value={domain}
                           onChange={(e) => setDomain(e.target.value)}
-                          placeholder="e.g. https://example.com, https://google.com"
+                          placeholder={coordinator === 'planner' ? 'e.g. Compare mobile INP of example.com, example.org and example.net over the last quarter' : 'e.g. https://example.com, https://example.com/checkout'}
                           className="flex-1 bg-black/50 border border-zinc-700 rounded-lg pl-11 pr-4 py-3 text-zinc-100 focus:outline-none focus:ring-2 focus:ring-indigo-500/50 font-mono transition-all"
                         />
                         <button 
@@ -361,25 +664,44 @@ export default function App() {
                             <Sparkles size={12} />
                             Try examples:
                         </span>
-                        {PRESET_DOMAINS.map((d) => (
+                        {(sourceKind === 'simulation' ? SIMULATION_FIXTURES.map(f => f.origin) : PRESET_DOMAINS).map((d) => (
                             <button
                                 key={d}
                                 onClick={() => startAudit(d)}
-                                disabled={agentState === AgentState.QUERY || agentState === AgentState.HISTORIAN || agentState === AgentState.INTERPRETER}
+                                title={SIMULATION_FIXTURES.find(f => f.origin === d)?.description}
+                                disabled={agentState === AgentState.QUERY || agentState === AgentState.HISTORIAN || agentState === AgentState.INTERPRETER || agentState === AgentState.PLANNER}
                                 className="px-3 py-1 rounded-full bg-zinc-800/50 hover:bg-zinc-700 border border-zinc-700/50 text-xs text-zinc-400 hover:text-indigo-300 transition-colors font-mono disabled:opacity-50 disabled:cursor-not-allowed"
                             >
                                 {new URL(d).hostname.replace('www.', '')}
                             </button>
                         ))}
+                        {sourceKind === 'simulation' && (
+                            <button
+                                onClick={() => startAudit(SIMULATION_FIXTURES.map(f => f.origin).join(', '))}
+                                disabled={agentState === AgentState.QUERY || agentState === AgentState.HISTORIAN || agentState === AgentState.INTERPRETER || agentState === AgentState.PLANNER}
+                                className="px-3 py-1 rounded-full bg-indigo-950/40 hover:bg-indigo-900/40 border border-indigo-700/50 text-xs text-indigo-300 transition-colors font-mono disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                all (batch)
+                            </button>
+                        )}
+                        {sourceKind === 'simulation' && coordinator === 'planner' && (
+                            <button
+                                onClick={() => startAudit(PLANNER_EXAMPLE_GOAL)}
+                                disabled={agentState === AgentState.PLANNER}
+                                className="px-3 py-1 rounded-full bg-sky-950/40 hover:bg-sky-900/40 border border-sky-700/50 text-xs text-sky-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                example goal
+                            </button>
+                        )}
                       </div>
                     </div>
 
                     {/* API Keys Config (Optional) */}
-                    <div className={`bg-zinc-900/30 p-4 rounded-xl border transition-colors duration-300 ${!cruxKey && agentState === AgentState.ERROR ? 'border-red-500/50 bg-red-950/10' : 'border-zinc-800/50'}`}>
+                    <div className={`bg-zinc-900/30 p-4 rounded-xl border transition-colors duration-300 ${sourceProblem && agentState === AgentState.ERROR ? 'border-red-500/50 bg-red-950/10' : 'border-zinc-800/50'}`}>
                       <div className="flex items-center gap-2 mb-3 text-zinc-400">
                         <Settings size={14} />
                         <span className="text-xs font-medium uppercase">Configuration</span>
-                        {!cruxKey && agentState === AgentState.ERROR && (
+                        {sourceProblem && agentState === AgentState.ERROR && (
                             <span className="text-xs text-red-400 font-bold ml-auto flex items-center gap-1">
                                 <AlertTriangle size={12} /> Required
                             </span>
@@ -387,34 +709,181 @@ export default function App() {
                       </div>
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         <div>
-                            <label className="text-xs text-zinc-500 mb-1 block">Google CrUX: API Key <span className="text-zinc-600">OR</span> Proxy URL</label>
-                            <div className="relative">
-                                {cruxKey.startsWith('http') ? (
-                                     <ShieldCheck className="absolute left-3 top-2.5 text-emerald-500" size={14} />
-                                ) : (
-                                     <Server className={`absolute left-3 top-2.5 ${envCruxKey ? 'text-emerald-500' : 'text-zinc-600'}`} size={14} />
-                                )}
+                            <label className="text-xs text-zinc-500 mb-1 block">CrUX Data Source</label>
+                            <div className="flex flex-wrap gap-2 mb-2">
+                                {DATA_SOURCES.map(({ kind, label }) => (
+                                    <button
+                                        key={kind}
+                                        onClick={() => setSourceKind(kind)}
+                                        className={`px-2.5 py-1.5 rounded border text-xs transition-colors ${
+                                            sourceKind === kind
+                                            ? 'bg-indigo-950/40 border-indigo-700/60 text-indigo-300'
+                                            : 'bg-black/30 border-zinc-800 text-zinc-500 hover:text-zinc-300'
+                                        }`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                            {sourceKind === 'offline' ? (
+                                <OfflineImport dataset={offlineDataset} onChange={setOfflineDataset} onSelectTarget={setDomain} />
+                            ) : sourceKind === 'simulation' ? (
+                                <p className="text-[10px] text-zinc-500">Built-in fixtures for fictional origins (improving, regressing, volatile, stable, no data). No key needed; use the examples above.</p>
+                            ) : (
+                                <div className="relative">
+                                    {sourceKind !== 'direct' ? (
+                                         <ShieldCheck className="absolute left-3 top-2.5 text-emerald-500" size={14} />
+                                    ) : (
+                                         <Server className={`absolute left-3 top-2.5 ${envCruxKey ? 'text-emerald-500' : 'text-zinc-600'}`} size={14} />
+                                    )}
                                
-                                <input 
-                                    type={cruxKey.startsWith('http') ? 'text' : 'password'}
-                                    value={cruxKey}
-                                    onChange={(e) => setCruxKey(e.target.value)}
-                                    placeholder={envCruxKey ? "Loaded from Environment" : "Paste API Key or Apps Script URL"}
-                                    className={`w-full bg-black/30 border rounded px-3 py-2 pl-9 text-xs text-zinc-300 focus:border-indigo-500 focus:outline-none ${envCruxKey ? 'border-emerald-500/50' : 'border-zinc-800'}`}
+                                    <input 
+                                        type={sourceKind !== 'direct' ? 'text' : 'password'}
+                                        value={cruxKey}
+                                        onChange={(e) => setCruxKey(e.target.value)}
+                                        placeholder={envCruxKey ? "Loaded from Environment" : DATA_SOURCES.find(s => s.kind === sourceKind)?.placeholder}
+                                        className={`w-full bg-black/30 border rounded px-3 py-2 pl-9 text-xs text-zinc-300 focus:border-indigo-500 focus:outline-none ${envCruxKey ? 'border-emerald-500/50' : 'border-zinc-800'}`}
+                                    />
+                                    {envCruxKey ? (
+                                        <span className="absolute right-3 top-2.5 text-[10px] text-emerald-500 font-mono flex items-center gap-1 select-none">
+                                            <Lock size={10} /> ENV
+                                        </span>
+                                    ) : sourceKind !== 'direct' && (
+                                         <span className="absolute right-3 top-2.5 text-[10px] text-emerald-500 font-mono flex items-center gap-1 select-none">
+                                            <ShieldCheck size={10} /> PROXY
+                                        </span>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                        <div>
+                            <label className="text-xs text-zinc-500 mb-1 block">Form Factors</label>
+                            <div className="flex flex-wrap gap-2">
+                                {FORM_FACTORS.map(({ key, label }) => (
+                                    <button
+                                        key={key}
+                                        onClick={() => toggleFormFactor(key)}
+                                        className={`px-2.5 py-1.5 rounded border text-xs transition-colors ${
+                                            formFactors.includes(key)
+                                            ? 'bg-indigo-950/40 border-indigo-700/60 text-indigo-300'
+                                            : 'bg-black/30 border-zinc-800 text-zinc-500 hover:text-zinc-300'
+                                        }`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                            {!formFactors.includes('ALL_FORM_FACTORS') && (
+                                <p className="text-[10px] text-zinc-600 mt-1">Select "All Devices" to see the traffic split by device.</p>
+                            )}
+                        </div>
+                        <div>
+                            <label className="text-xs text-zinc-500 mb-1 block">History Depth (collection periods, max {MAX_HISTORY_DEPTH})</label>
+                            <input
+                                type="number"
+                                min={1}
+                                max={MAX_HISTORY_DEPTH}
+                                value={historyDepth}
+                                onChange={(e) => setHistoryDepth(Math.min(Math.max(Number(e.target.value) || 1, 1), MAX_HISTORY_DEPTH))}
+                                className="w-full bg-black/30 border border-zinc-800 rounded px-3 py-2 text-xs text-zinc-300 focus:border-indigo-500 focus:outline-none font-mono"
+                            />
+                        </div>
+                        <div>
+                            <label className="text-xs text-zinc-500 mb-1 block">CrUX Requests per Minute (quota is {DEFAULT_REQUESTS_PER_MINUTE})</label>
+                            <input
+                                type="number"
+                                min={1}
+                                max={DEFAULT_REQUESTS_PER_MINUTE}
+                                value={requestsPerMinute}
+                                onChange={(e) => setRequestsPerMinute(Math.min(Math.max(Number(e.target.value) || 1, 1), DEFAULT_REQUESTS_PER_MINUTE))}
+                                className="w-full bg-black/30 border border-zinc-800 rounded px-3 py-2 text-xs text-zinc-300 focus:border-indigo-500 focus:outline-none font-mono"
+                            />
+                        </div>
+                        <div className="md:col-span-2">
+                            <label className="text-xs text-zinc-500 mb-1 block">Language Model (Historian &amp; Interpreter)</label>
+                            <div className="flex flex-wrap gap-2 mb-2">
+                                {LLM_PROVIDERS.map(({ kind, label }) => (
+                                    <button
+                                        key={kind}
+                                        onClick={() => selectLLMProvider(kind)}
+                                        className={`px-2.5 py-1.5 rounded border text-xs transition-colors ${
+                                            llmConfig.provider === kind
+                                            ? 'bg-indigo-950/40 border-indigo-700/60 text-indigo-300'
+                                            : 'bg-black/30 border-zinc-800 text-zinc-500 hover:text-zinc-300'
+                                        }`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                            <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+                                {llmConfig.provider === 'openai-compatible' && (
+                                    <input
+                                        value={llmConfig.baseUrl}
+                                        onChange={(e) => setLlmConfig(prev => ({ ...prev, baseUrl: e.target.value }))}
+                                        placeholder={LLM_PROVIDERS.find(p => p.kind === 'openai-compatible')!.placeholder}
+                                        className="md:col-span-2 bg-black/30 border border-zinc-800 rounded px-3 py-2 text-xs text-zinc-300 focus:border-indigo-500 focus:outline-none font-mono"
+                                    />
+                                )}
+                                {llmConfig.provider === 'gemini' && (
+                                    <div className="relative md:col-span-2">
+                                        <input
+                                            type="password"
+                                            value={envGeminiKey ? '' : llmConfig.apiKey}
+                                            disabled={Boolean(envGeminiKey)}
+                                            onChange={(e) => setLlmConfig(prev => ({ ...prev, apiKey: e.target.value }))}
+                                            placeholder={envGeminiKey ? 'Loaded from Environment' : LLM_PROVIDERS.find(p => p.kind === 'gemini')!.placeholder}
+                                            className={`w-full bg-black/30 border rounded px-3 py-2 text-xs text-zinc-300 focus:border-indigo-500 focus:outline-none ${envGeminiKey ? 'border-emerald-500/50' : 'border-zinc-800'}`}
+                                        />
+                                        {envGeminiKey && (
+                                            <span className="absolute right-3 top-2.5 text-[10px] text-emerald-500 font-mono flex items-center gap-1 select-none">
+                                                <Lock size={10} /> ENV
+                                            </span>
+                                        )}
+                                    </div>
+                                )}
+                                <input
+                                    value={llmConfig.model}
+                                    onChange={(e) => setLlmConfig(prev => ({ ...prev, model: e.target.value }))}
+                                    placeholder="Model"
+                                    title="Model"
+                                    className="bg-black/30 border border-zinc-800 rounded px-3 py-2 text-xs text-zinc-300 focus:border-indigo-500 focus:outline-none font-mono"
+                                />
+                                <input
+                                    type="number"
+                                    min={0}
+                                    max={2}
+                                    step={0.1}
+                                    value={llmConfig.temperature ?? ''}
+                                    onChange={(e) => setLlmConfig(prev => ({ ...prev, temperature: e.target.value.trim() === '' ? null : Number(e.target.value) }))}
+                                    placeholder="Temperature: per tool"
+                                    title="Temperature (empty: 0.3 for the Historian, 0.5 for the Interpreter)"
+                                    className="bg-black/30 border border-zinc-800 rounded px-3 py-2 text-xs text-zinc-300 focus:border-indigo-500 focus:outline-none font-mono"
                                 />
-                                {envCruxKey ? (
-                                    <span className="absolute right-3 top-2.5 text-[10px] text-emerald-500 font-mono flex items-center gap-1 select-none">
-                                        <Lock size={10} /> ENV
-                                    </span>
-                                ) : cruxKey.startsWith('http') && (
-                                     <span className="absolute right-3 top-2.5 text-[10px] text-emerald-500 font-mono flex items-center gap-1 select-none">
-                                        <ShieldCheck size={10} /> PROXY
-                                    </span>
+                                {llmConfig.provider === 'openai-compatible' && (
+                                    <input
+                                        type="password"
+                                        value={llmConfig.apiKey}
+                                        onChange={(e) => setLlmConfig(prev => ({ ...prev, apiKey: e.target.value }))}
+                                        placeholder="Bearer token (optional)"
+                                        className="md:col-span-2 bg-black/30 border border-zinc-800 rounded px-3 py-2 text-xs text-zinc-300 focus:border-indigo-500 focus:outline-none"
+                                    />
                                 )}
                             </div>
+                            <p className={`text-[10px] mt-1 ${llmProblem ? 'text-amber-500/80' : 'text-zinc-600'}`}>
+                                {llmProblem
+                                    ? `${llmProblem} Reports are simulated until a model is configured.`
+                                    : llmConfig.provider === 'openai-compatible'
+                                        ? 'Prompts and audit data go only to this server. It must allow requests from this page (CORS).'
+                                        : 'Prompts and audit data are sent to the Gemini API.'}
+                            </p>
                         </div>
                       </div>
                     </div>
+
+                    <BudgetEditor budgets={budgets} onChange={setBudgets} />
+
+                    <CacheInspector />
                   </div>
 
                   {/* Right: Logs */}
@@ -425,33 +894,58 @@ export default function App() {
 
                 {/* Agent Visualization */}
                 <div className="border-t border-b border-zinc-800 bg-zinc-900/20 -mx-6 px-6 py-4">
-                    <AgentGraph state={agentState} />
+                    <AgentGraph state={agentState} formFactors={formFactors} plannerSteps={plannerSteps} />
                 </div>
 
                 {/* Results Area */}
-                <div className="min-h-[300px]">
+                <div className="min-h-[300px] space-y-6">
+                    {(agentState === AgentState.COMPLETE || agentState === AgentState.ERROR) && (
+                        <FailedSites sites={failedSites} onRetry={retryFailed} disabled={Boolean(sourceProblem)} />
+                    )}
+
+                    {streamingReport && agentState !== AgentState.COMPLETE && agentState !== AgentState.ERROR && (
+                        <StreamingReport progress={streamingReport} />
+                    )}
+
+                    {agentState === AgentState.COMPLETE && plannerResult && (
+                        <PlannerAnswer result={plannerResult} />
+                    )}
+
                     {agentState === AgentState.COMPLETE && memory.query.lastRawResults && (
                         <Report 
                             markdown={memory.interpreter.lastRecommendations} 
+                            report={totalTasks > 1 ? null : memory.interpreter.lastReport}
                             data={memory.query.lastRawResults} 
-                            batchData={completedData.length > 1 ? completedData : undefined}
-                            individualReports={completedData.length > 1 ? individualReports : undefined}
+                            batchData={totalTasks > 1 ? completedData : undefined}
+                            individualReports={totalTasks > 1 ? individualReports : undefined}
+                            failedSites={failedSites}
                         />
                     )}
+
+                    {agentState === AgentState.COMPLETE && (
+                        <ChatPanel audits={chatAudits} sessions={chatSessions} pendingKey={chatPending} onAsk={askQuestion} />
+                    )}
                     
-                    {agentState === AgentState.ERROR && !cruxKey && (
+                    {agentState === AgentState.ERROR && sourceProblem && (
                          <div className="flex flex-col items-center justify-center py-20 text-zinc-500">
                            <Key size={48} className="mb-4 opacity-50 text-red-500" />
                            <p>Missing Configuration</p>
-                           <p className="text-xs mt-2 text-zinc-600">Please enter your API Key or Proxy URL above.</p>
+                           <p className="text-xs mt-2 text-zinc-600">{sourceProblem}</p>
                         </div>
                     )}
                     
-                    {agentState === AgentState.ERROR && cruxKey && (
+                    {agentState === AgentState.ERROR && !sourceProblem && (
                         <div className="flex flex-col items-center justify-center py-20 text-zinc-500">
                            <Activity size={48} className="mb-4 opacity-50 text-red-500" />
                            <p>Analysis Sequence Failed</p>
-                           <p className="text-xs mt-2 text-zinc-600">Check logs for details</p>
+                           {/* One entry per distinct failure type, so a batch that failed for one reason shows it once. */}
+                           {[...new Set(failedSites.map(site => site.error.code))].map(code => (
+                               <div key={code} className="mt-4 max-w-lg text-center">
+                                   <p className="text-sm text-red-400 font-semibold">{CRUX_ERRORS[code].title}</p>
+                                   <p className="text-xs mt-1 text-zinc-500">{CRUX_ERRORS[code].guidance}</p>
+                               </div>
+                           ))}
+                           {failedSites.length === 0 && <p className="text-xs mt-2 text-zinc-600">Check logs for details</p>}
                         </div>
                     )}
                     
@@ -0,0 +1,14 @@
+import { answerQuestion } from '../services/geminiService';
+import { buildAuditFacts } from '../services/auditFacts';
+import { AuditContext, ChatMessage } from '../types';
+
+/**
+ * ADK Pattern: Cognitive Agent
+ * The Chat Agent answers follow-up questions once an audit is complete. It grounds
+ * every answer in the audit held in Session Memory (current metrics, the full history
+ * arrays, and the Historian and Interpreter output) and returns the facts it cites.
+ */
+export const runChatAgent = async (question: string, history: ChatMessage[], audit: AuditContext): Promise<ChatMessage> => {
+    // This agent's logic is to turn the audit into citable facts and call the 'answerQuestion' tool.
+    return answerQuestion(audit.analysis.domain, question, history, buildAuditFacts(audit));
+};
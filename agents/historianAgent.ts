@@ -1,5 +1,5 @@
 import { analyzeTrend } from '../services/geminiService';
-import { AnalysisResult } from '../types';
+import { AnalysisResult, HistorianReport } from '../types';
 
 /**
  * ADK Pattern: Cognitive Agent
@@ -7,7 +7,7 @@ import { AnalysisResult } from '../types';
  * Its purpose is to identify trends, anomalies, and regressions, providing context
  * for the next agent in the sequence.
  */
-export const runHistorianAgent = async (domain: string, analysis: AnalysisResult): Promise<string> => {
+export const runHistorianAgent = async (domain: string, analysis: AnalysisResult): Promise<HistorianReport> => {
     // This agent's logic is to call the 'analyzeTrend' tool with the provided context.
     return analyzeTrend(domain, analysis);
 };
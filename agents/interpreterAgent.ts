@@ -1,44 +1,61 @@
 import { synthesizeReport, compareBatchResults } from '../services/geminiService';
-import { AnalysisResult } from '../types';
+import { getSeriesEndpoints } from '../services/cruxService';
+import { rankSites } from '../services/scoring';
+import { AnalysisResult, BatchComparison, FailedSite, HistorianReport, InterpreterReport, StreamProgress, SummarizedAnalysis, SummarizedFormFactor } from '../types';
 
 /**
  * ADK Pattern: Cognitive Agent
  * The Interpreter Agent uses its cognitive tools (LLMs) to synthesize a final report.
  * It is the last agent in the sequential chain, responsible for creating the
- * final human-readable output.
+ * final human-readable output, which it streams to `onProgress` as it is written.
  */
 export const runInterpreterAgent = async (
   domain: string,
   analysis: AnalysisResult,
-  historianNotes: string
-): Promise<string> => {
+  historian: HistorianReport,
+  onProgress?: (progress: StreamProgress) => void
+): Promise<InterpreterReport> => {
     // Create a lean summary object for the LLM to prune tokens.
     // The Historian agent has already analyzed the trends, so sending the raw
     // history arrays to the Interpreter is redundant and wastes tokens.
-    const summarizedAnalysis = {
+    const summarizedAnalysis: SummarizedAnalysis = {
         domain: analysis.domain,
-        phone: {
-            metrics: analysis.phone.metrics,
-            regressions: analysis.phone.regressions,
-            collectionPeriod: analysis.phone.collectionPeriod,
-        },
-        desktop: {
-            metrics: analysis.desktop.metrics,
-            regressions: analysis.desktop.regressions,
-            collectionPeriod: analysis.desktop.collectionPeriod,
-        }
+        scope: analysis.scope,
+        origin: analysis.origin,
+        trafficShare: analysis.trafficShare,
+        formFactors: Object.fromEntries(
+            Object.entries(analysis.formFactors).map(([formFactor, ff]): [string, SummarizedFormFactor] => [formFactor, {
+                formFactor: ff!.formFactor,
+                metrics: ff!.metrics,
+                lcpBreakdown: ff!.lcpBreakdown,
+                // The navigation hints only compare the first and last periods, so keep just those.
+                navigationTypes: ff!.navigationTypes && {
+                    current: ff!.navigationTypes.current,
+                    trend: getSeriesEndpoints(ff!.navigationTypes.trend) ?? [],
+                },
+                regressions: ff!.regressions,
+                assessment: ff!.assessment,
+                collectionPeriod: ff!.collectionPeriod,
+                scope: ff!.scope,
+                // Periods only (no series values) so the history window can still be described.
+                history: { periods: ff!.history.periods },
+            }])
+        )
     };
-    
     // This agent's logic is to call the 'synthesizeReport' tool with the pruned context.
-    // We cast to `any` because the object is structurally similar enough for JSON.stringify,
-    // and it avoids needing a separate type for this one-off summarization.
-    return synthesizeReport(domain, summarizedAnalysis as any, historianNotes);
+    return synthesizeReport(domain, summarizedAnalysis, historian, onProgress);
 };
 
 /**
  * A specialized function of the Interpreter Agent for batch processing mode.
  * It uses the 'compareBatchResults' tool to generate a comparative analysis.
+ * The ranking is computed here, deterministically, and the tool only explains it.
+ * Sites that failed are passed along so the scoreboard can list them instead of dropping them.
  */
-export const runBatchComparisonAgent = async (results: AnalysisResult[]): Promise<string> => {
-    return compareBatchResults(results);
+export const runBatchComparisonAgent = async (
+  results: AnalysisResult[],
+  failedSites: FailedSite[] = [],
+  onProgress?: (progress: StreamProgress) => void
+): Promise<BatchComparison> => {
+    return compareBatchResults(results, rankSites(results), failedSites, onProgress);
 }
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { planNextStep, isLLMConfigured } from '../services/geminiService';
+import { LLMMessage } from '../services/llmProviders';
+import { PLANNER_TOOLS, PlannerWorkspace, executePlannerTool } from './plannerTools';
+import { PlannerResult, PlannerStep, StreamProgress } from '../types';
+import { MAX_PLANNER_STEPS } from '../constants';
+
+const STEP_LIMIT_NOTICE = `> Step limit reached: the planner stopped after ${MAX_PLANNER_STEPS} tool calls, so this answer may be incomplete.`;
+
+/**
+ * ADK Pattern: Planner Agent (ReAct loop)
+ * The Planner Agent turns a natural-language goal into tool calls. Each turn the model
+ * either calls tools (see plannerTools.ts), whose results are fed back to it, or gives
+ * its final answer. Every call is reported to `onStep` when it starts and when it ends.
+ * After MAX_PLANNER_STEPS calls no more are run and the model is asked to answer.
+ */
+export const runPlannerAgent = async (
+    goal: string,
+    workspace: PlannerWorkspace,
+    onStep: (step: PlannerStep) => void,
+    onProgress?: (progress: StreamProgress) => void
+): Promise<PlannerResult> => {
+    const simulated = !isLLMConfigured();
+    const messages: LLMMessage[] = [{ role: 'user', text: goal }];
+    const steps: PlannerStep[] = [];
+    let stoppedAtLimit = false;
+    let answer = '';
+
+    while (true) {
+        const stepsLeft = MAX_PLANNER_STEPS - steps.length;
+        const turn = await planNextStep(goal, messages, PLANNER_TOOLS, stepsLeft, workspace.options);
+        messages.push({ role: 'model', text: turn.text, toolCalls: turn.toolCalls, raw: turn.raw });
+        if (turn.toolCalls.length === 0 || stepsLeft === 0) {
+            // Calls asked for after the last step are not run; the run counts as cut short.
+            if (turn.toolCalls.length > 0) stoppedAtLimit = true;
+            answer = turn.text.trim();
+            break;
+        }
+
+        const results: Extract<LLMMessage, { role: 'tool' }>['results'] = [];
+        for (const call of turn.toolCalls) {
+            if (steps.length >= MAX_PLANNER_STEPS) {
+                stoppedAtLimit = true;
+                results.push({ call, response: { error: 'Not run: the step limit was reached.' } });
+                continue;
+            }
+            const step: PlannerStep = { index: steps.length + 1, tool: call.name, args: call.args, status: 'running', summary: '' };
+            steps.push(step);
+            onStep(step);
+            const result = await executePlannerTool(call, workspace, onProgress);
+            const finished: PlannerStep = { ...step, status: result.failed ? 'failed' : 'done', summary: result.summary };
+            steps[steps.length - 1] = finished;
+            onStep(finished);
+            results.push({ call, response: result.response });
+        }
+        messages.push({ role: 'tool', results });
+    }
+
+    const targets = [...workspace.analyses.keys()];
+    return {
+        goal,
+        answer: stoppedAtLimit ? [STEP_LIMIT_NOTICE, answer].filter(Boolean).join('\n\n') : answer || 'The planner finished without an answer.',
+        analyses: targets.map(target => workspace.analyses.get(target)!),
+        historians: targets.map(target => workspace.historians.get(target) ?? null),
+        reports: targets.map(target => workspace.reports.get(target) ?? null),
+        comparison: workspace.comparison,
+        failedSites: [...workspace.failedSites.values()],
+        steps,
+        stoppedAtLimit,
+        simulated,
+    };
+};
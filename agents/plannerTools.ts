@@ -0,0 +1,288 @@
+import { Type } from '@google/genai';
+import { runQueryAgent } from './queryAgent';
+import { runHistorianAgent } from './historianAgent';
+import { runInterpreterAgent, runBatchComparisonAgent } from './interpreterAgent';
+import { formatHistoryWindow, getHistoryWindow, listFormFactors, toCrUXErrorInfo } from '../services/cruxService';
+import { detectRegressions } from '../services/regressionDetector';
+import { rankSites } from '../services/scoring';
+import { FORM_FACTOR_KEYS } from '../services/structuredReports';
+import { LLMToolCall, LLMToolDeclaration } from '../services/llmProviders';
+import { AgentState, AnalysisResult, CrUXDataSource, CrUXQueryOptions, FailedSite, FormFactor, HistorianReport, InterpreterReport, MetricKey, PlannerToolName, StreamProgress } from '../types';
+import { MAX_HISTORY_DEPTH, METRIC_KEYS } from '../constants';
+
+/**
+ * ADK Pattern: Agent as Tool
+ * The tools the Planner Agent can call. Each one dispatches an existing agent (or the
+ * regression detector) on the planner's workspace, so a planner run produces the same
+ * analyses and reports as the fixed pipeline. Results go back to the model as compact
+ * JSON with a one-line `summary`; failures are returned as `error` so the model can
+ * change its plan instead of the run ending.
+ */
+
+/**
+ * State shared by the tool calls of one planner run, keyed by target URL.
+ */
+export interface PlannerWorkspace {
+    source: CrUXDataSource;
+    // The configuration panel's settings; a tool call may override the form factors and depth.
+    options: CrUXQueryOptions;
+    analyses: Map<string, AnalysisResult>;
+    historians: Map<string, HistorianReport>;
+    reports: Map<string, InterpreterReport>;
+    comparison: string | null;
+    failedSites: Map<string, FailedSite>;
+}
+
+export const createPlannerWorkspace = (source: CrUXDataSource, options: CrUXQueryOptions): PlannerWorkspace => ({
+    source,
+    options,
+    analyses: new Map(),
+    historians: new Map(),
+    reports: new Map(),
+    comparison: null,
+    failedSites: new Map(),
+});
+
+export interface PlannerToolResult {
+    summary: string;
+    response: Record<string, unknown>;
+    failed: boolean;
+}
+
+const TARGET = { type: Type.STRING, description: 'Origin or page URL, e.g. "https://www.example.com".' };
+const FORM_FACTORS_PARAM = {
+    type: Type.ARRAY,
+    description: 'Devices to include. Omit to use the ones selected in the app.',
+    items: { type: Type.STRING, enum: FORM_FACTOR_KEYS },
+};
+const METRICS_PARAM = {
+    type: Type.ARRAY,
+    description: 'Metrics to include. Omit for all of them.',
+    items: { type: Type.STRING, enum: METRIC_KEYS },
+};
+
+export const PLANNER_TOOLS: (LLMToolDeclaration & { name: PlannerToolName })[] = [
+    {
+        name: 'fetch_crux_data',
+        description: 'Fetches the current CrUX record (p75 values, ratings, Core Web Vitals assessment) of a site. Call this first for every site.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: { target: TARGET, formFactors: FORM_FACTORS_PARAM },
+            required: ['target'],
+        },
+    },
+    {
+        name: 'fetch_crux_history',
+        description: `Fetches the p75 history of a site over a number of collection periods (1-${MAX_HISTORY_DEPTH}) and returns the series. Periods are weekly or monthly depending on the data source, as fetch_crux_data reports in \`cadence\`: a quarter is 13 weekly or 3 monthly periods, a month 4 weekly or 1 monthly.`,
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                target: TARGET,
+                periods: { type: Type.INTEGER, description: `Collection periods to fetch (1-${MAX_HISTORY_DEPTH}), in the cadence fetch_crux_data reported.` },
+                formFactors: FORM_FACTORS_PARAM,
+                metrics: METRICS_PARAM,
+            },
+            required: ['target', 'periods'],
+        },
+    },
+    {
+        name: 'detect_regressions',
+        description: 'Runs the deterministic regression detector over the fetched history of a site: step changes, drifts and metrics rated Poor.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: { target: TARGET, formFactors: FORM_FACTORS_PARAM, metrics: METRICS_PARAM },
+            required: ['target'],
+        },
+    },
+    {
+        name: 'synthesize_report',
+        description: 'Runs the Historian and Interpreter agents on a fetched site and returns the executive summary and prioritized recommendations.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: { target: TARGET },
+            required: ['target'],
+        },
+    },
+    {
+        name: 'compare_sites',
+        description: 'Ranks fetched sites by health score and writes the batch comparison. Needs at least two fetched sites.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                targets: { type: Type.ARRAY, description: 'Sites to compare. Omit for every fetched site.', items: TARGET },
+            },
+        },
+    },
+];
+
+class PlannerToolError extends Error {}
+
+// Same normalization as the audit input: a bare domain becomes an https URL.
+const toTargetUrl = (input: string) => {
+    const clean = input.trim();
+    return clean && !/^https?:\/\//i.test(clean) ? `https://${clean}` : clean;
+};
+
+const readTarget = (args: Record<string, unknown>): string => {
+    const target = typeof args.target === 'string' ? toTargetUrl(args.target) : '';
+    if (!target) throw new PlannerToolError('Missing "target".');
+    return target;
+};
+
+const readList = <T extends string>(value: unknown, allowed: T[]): T[] | undefined => {
+    if (!Array.isArray(value)) return undefined;
+    const list = allowed.filter(option => value.some(item => typeof item === 'string' && item.toLowerCase() === option.toLowerCase()));
+    return list.length > 0 ? list : undefined;
+};
+
+const requireAnalysis = (workspace: PlannerWorkspace, target: string): AnalysisResult => {
+    const analysis = workspace.analyses.get(target);
+    if (!analysis) throw new PlannerToolError(`${target} has not been fetched; call fetch_crux_data first.`);
+    return analysis;
+};
+
+const round = (metric: MetricKey, value: number | null) =>
+    value === null ? null : metric === 'cls' ? Number(value.toFixed(3)) : Math.round(value);
+
+const fetchSite = async (workspace: PlannerWorkspace, target: string, options: CrUXQueryOptions) => {
+    try {
+        const analysis = await runQueryAgent(target, workspace.source, options);
+        workspace.analyses.set(target, analysis);
+        workspace.failedSites.delete(target);
+        return analysis;
+    } catch (error) {
+        const info = toCrUXErrorInfo(error);
+        if (!workspace.analyses.has(target)) workspace.failedSites.set(target, { domain: target, stage: AgentState.QUERY, error: info });
+        throw new PlannerToolError(info.message);
+    }
+};
+
+const fetchCrUXData = async (workspace: PlannerWorkspace, args: Record<string, unknown>): Promise<Omit<PlannerToolResult, 'failed'>> => {
+    const target = readTarget(args);
+    const formFactors = readList(args.formFactors, FORM_FACTOR_KEYS) ?? workspace.options.formFactors;
+    const analysis = await fetchSite(workspace, target, { ...workspace.options, formFactors });
+    const devices = listFormFactors(analysis);
+    const window = getHistoryWindow(devices[0]?.data.history.periods ?? []);
+    return {
+        summary: `Fetched ${target}: ${devices.map(d => `${d.label} ${d.data.assessment.passes ? 'passes' : 'fails'}`).join(', ')}`,
+        response: {
+            target,
+            scope: analysis.scope,
+            trafficShare: analysis.trafficShare,
+            // How far each history period advances, so fetch_crux_history can be asked for the right count.
+            cadence: window?.cadence ?? null,
+            history: formatHistoryWindow(window),
+            formFactors: Object.fromEntries(devices.map(({ key, data }) => [key, {
+                collectionPeriod: data.collectionPeriod,
+                passesCoreWebVitals: data.assessment.passes,
+                healthScore: data.assessment.score,
+                p75: Object.fromEntries(METRIC_KEYS.map(metric => [metric, { value: round(metric, data.metrics[metric].value), rating: data.metrics[metric].rating }])),
+            }])),
+        },
+    };
+};
+
+const fetchCrUXHistory = async (workspace: PlannerWorkspace, args: Record<string, unknown>): Promise<Omit<PlannerToolResult, 'failed'>> => {
+    const target = readTarget(args);
+    const periods = Math.min(Math.max(Math.round(Number(args.periods) || 0), 1), MAX_HISTORY_DEPTH);
+    const existing = workspace.analyses.get(target);
+    const formFactors = readList(args.formFactors, FORM_FACTOR_KEYS)
+        ?? (existing ? listFormFactors(existing).map(d => d.key) : workspace.options.formFactors);
+    const metrics = readList(args.metrics, METRIC_KEYS) ?? METRIC_KEYS;
+    const analysis = await fetchSite(workspace, target, { ...workspace.options, formFactors, historyDepth: periods });
+    const devices = listFormFactors(analysis).filter(d => !formFactors || formFactors.includes(d.key));
+    const window = getHistoryWindow(devices[0]?.data.history.periods ?? []);
+    return {
+        summary: `Fetched ${formatHistoryWindow(window)} for ${target}`,
+        response: {
+            target,
+            window: formatHistoryWindow(window),
+            series: Object.fromEntries(devices.map(({ key, data }) => [key, Object.fromEntries(metrics.map(metric => [
+                metric,
+                (data.history.series[metric] ?? []).map(point => ({ periodEnd: point.period.end, p75: point.value === null ? null : round(metric, point.value) })),
+            ]))])),
+            ...(devices.some(d => d.data.historyError) ? { warning: 'History is unavailable for some devices.' } : {}),
+        },
+    };
+};
+
+const detectSiteRegressions = async (workspace: PlannerWorkspace, args: Record<string, unknown>): Promise<Omit<PlannerToolResult, 'failed'>> => {
+    const target = readTarget(args);
+    const analysis = requireAnalysis(workspace, target);
+    const formFactors: FormFactor[] | undefined = readList(args.formFactors, FORM_FACTOR_KEYS);
+    const metrics = readList(args.metrics, METRIC_KEYS) ?? METRIC_KEYS;
+    const found = listFormFactors(analysis)
+        .filter(d => !formFactors || formFactors.includes(d.key))
+        .flatMap(({ key, data }) => detectRegressions(data.history.series, data.metrics, data.history.cadence)
+            .filter(r => metrics.includes(r.metric))
+            .map(r => ({ formFactor: key, metric: r.metric, kind: r.kind, periodEnd: r.start?.end ?? null, summary: r.summary })));
+    return {
+        summary: `${found.length} regression${found.length === 1 ? '' : 's'} in ${target}`,
+        response: { target, regressions: found },
+    };
+};
+
+const synthesizeSiteReport = async (workspace: PlannerWorkspace, args: Record<string, unknown>, onProgress?: (progress: StreamProgress) => void): Promise<Omit<PlannerToolResult, 'failed'>> => {
+    const target = readTarget(args);
+    const analysis = requireAnalysis(workspace, target);
+    const historian = await runHistorianAgent(target, analysis);
+    const report = await runInterpreterAgent(target, analysis, historian, onProgress);
+    workspace.historians.set(target, historian);
+    workspace.reports.set(target, report);
+    return {
+        summary: `Report for ${target}: ${report.recommendations.length} recommendation${report.recommendations.length === 1 ? '' : 's'}${report.truncated ? ' (incomplete)' : ''}`,
+        response: {
+            target,
+            trendSummary: historian.summary,
+            executiveSummary: report.executiveSummary,
+            recommendations: report.recommendations.map(({ title, metric, formFactor, priority }) => ({ title, metric, formFactor, priority })),
+        },
+    };
+};
+
+const compareSites = async (workspace: PlannerWorkspace, args: Record<string, unknown>, onProgress?: (progress: StreamProgress) => void): Promise<Omit<PlannerToolResult, 'failed'>> => {
+    const requested = Array.isArray(args.targets) ? args.targets.filter((t): t is string => typeof t === 'string').map(toTargetUrl) : [...workspace.analyses.keys()];
+    // Sites that could not be fetched are left out (failed ones still appear in the scoreboard).
+    const results = requested.flatMap(target => workspace.analyses.get(target) ?? []);
+    const missing = requested.filter(target => !workspace.analyses.has(target));
+    if (results.length < 2) {
+        throw new PlannerToolError(`Fetch at least two sites before comparing them${missing.length > 0 ? ` (not fetched: ${missing.join(', ')})` : ''}.`);
+    }
+    const comparison = await runBatchComparisonAgent(results, [...workspace.failedSites.values()], onProgress);
+    workspace.comparison = comparison.markdown;
+    const rankings = rankSites(results);
+    return {
+        summary: `Compared ${results.length} sites; ${rankings[0].domain} ranks first${comparison.failed ? ', but the written analysis failed' : ''}`,
+        response: {
+            ranking: rankings.map(({ rank, domain, formFactor, passes, score }) => ({ rank, domain, formFactor, passesCoreWebVitals: passes, healthScore: score })),
+            ...(missing.length > 0 ? { notCompared: missing } : {}),
+            comparison: workspace.comparison.slice(0, 4000),
+        },
+    };
+};
+
+/**
+ * Runs one tool call against the workspace. Never throws: unknown tools, bad arguments
+ * and failed requests come back as a failed result with an `error` for the model.
+ */
+export const executePlannerTool = async (
+    call: LLMToolCall,
+    workspace: PlannerWorkspace,
+    onProgress?: (progress: StreamProgress) => void
+): Promise<PlannerToolResult> => {
+    try {
+        let result: Omit<PlannerToolResult, 'failed'>;
+        switch (call.name as PlannerToolName) {
+            case 'fetch_crux_data': result = await fetchCrUXData(workspace, call.args); break;
+            case 'fetch_crux_history': result = await fetchCrUXHistory(workspace, call.args); break;
+            case 'detect_regressions': result = await detectSiteRegressions(workspace, call.args); break;
+            case 'synthesize_report': result = await synthesizeSiteReport(workspace, call.args, onProgress); break;
+            case 'compare_sites': result = await compareSites(workspace, call.args, onProgress); break;
+            default: throw new PlannerToolError(`Unknown tool "${call.name}". Available: ${PLANNER_TOOLS.map(t => t.name).join(', ')}.`);
+        }
+        return { ...result, response: { ...result.response, summary: result.summary }, failed: false };
+    } catch (error) {
+        const message = error instanceof PlannerToolError ? error.message : toCrUXErrorInfo(error).message;
+        return { summary: message, response: { error: message }, failed: true };
+    }
+};
@@ -1,5 +1,5 @@
 import { fetchCrUXData } from '../services/cruxService';
-import { AnalysisResult } from '../types';
+import { AnalysisResult, CrUXDataSource, CrUXQueryOptions } from '../types';
 
 /**
  * ADK Pattern: Tool-Using Agent
@@ -7,7 +7,7 @@ import { AnalysisResult } from '../types';
  * It uses the `fetchCrUXData` tool to perform this action. This function serves
  * as the entry point for the Coordinator to invoke this agent.
  */
-export const runQueryAgent = async (domain: string, apiKeyOrProxy: string): Promise<AnalysisResult> => {
+export const runQueryAgent = async (domain: string, source: CrUXDataSource, options: CrUXQueryOptions = {}): Promise<AnalysisResult> => {
     // The agent's logic is to simply execute its primary tool with the given arguments.
-    return fetchCrUXData(domain, apiKeyOrProxy);
+    return fetchCrUXData(domain, source, options);
 };
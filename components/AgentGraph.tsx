@@ -1,22 +1,47 @@
 
 import React from 'react';
 import { motion } from 'framer-motion';
-import { Database, History, Brain, FileText } from 'lucide-react';
-import { AgentState } from '../types';
+import { Database, History, Brain, FileText, Route, TrendingUp, Scale, HelpCircle } from 'lucide-react';
+import { AgentState, FormFactor, PlannerStep, PlannerToolName } from '../types';
+import { FORM_FACTORS, MAX_PLANNER_STEPS } from '../constants';
 
 interface AgentGraphProps {
   state: AgentState;
+  formFactors: FormFactor[];
+  // Set for planner runs: the graph shows the tool calls made so far instead of the fixed pipeline.
+  plannerSteps?: PlannerStep[] | null;
 }
 
+const PLANNER_STEP_NODES: Record<PlannerToolName, { icon: React.ElementType; label: string }> = {
+  fetch_crux_data: { icon: Database, label: 'QUERY' },
+  fetch_crux_history: { icon: History, label: 'HISTORY' },
+  detect_regressions: { icon: TrendingUp, label: 'REGRESSIONS' },
+  synthesize_report: { icon: Brain, label: 'REPORT' },
+  compare_sites: { icon: Scale, label: 'COMPARE' },
+};
+
+// Host of the step's target, for the node's sub-label.
+const describeStepTarget = (step: PlannerStep) => {
+  const target = step.args.target ?? (Array.isArray(step.args.targets) ? `${step.args.targets.length} sites` : null);
+  if (typeof target !== 'string') return undefined;
+  try {
+    return new URL(/^https?:\/\//i.test(target) ? target : `https://${target}`).host.replace(/^www\./, '');
+  } catch {
+    return target;
+  }
+};
+
 const Node = ({ 
   active, 
   completed, 
+  failed = false,
   icon: Icon, 
   label,
   subLabel
 }: { 
   active: boolean; 
   completed: boolean; 
+  failed?: boolean;
   icon: React.ElementType; 
   label: string;
   subLabel?: string;
@@ -27,16 +52,16 @@ const Node = ({
         initial={false}
         animate={{
           scale: active ? 1.1 : 1,
-          borderColor: active ? '#818cf8' : completed ? '#10b981' : '#3f3f46',
+          borderColor: active ? '#818cf8' : failed ? '#ef4444' : completed ? '#10b981' : '#3f3f46',
           boxShadow: active ? '0 0 20px rgba(129, 140, 248, 0.5)' : 'none',
         }}
         className={`w-14 h-14 rounded-2xl border-2 flex items-center justify-center bg-zinc-900 transition-colors duration-500
-          ${active ? 'border-indigo-400 text-indigo-400' : completed ? 'border-emerald-500 text-emerald-500' : 'border-zinc-700 text-zinc-600'}
+          ${active ? 'border-indigo-400 text-indigo-400' : failed ? 'border-red-500 text-red-500' : completed ? 'border-emerald-500 text-emerald-500' : 'border-zinc-700 text-zinc-600'}
         `}
       >
         <Icon size={20} />
       </motion.div>
-      <div className={`mt-2 text-[10px] font-mono font-bold tracking-wider ${active ? 'text-indigo-400' : completed ? 'text-emerald-500' : 'text-zinc-600'}`}>
+      <div className={`mt-2 text-[10px] font-mono font-bold tracking-wider ${active ? 'text-indigo-400' : failed ? 'text-red-500' : completed ? 'text-emerald-500' : 'text-zinc-600'}`}>
         {label}
       </div>
       {subLabel && (
@@ -69,7 +94,56 @@ const Connection = ({ active }: { active: boolean }) => (
   </div>
 );
 
-export const AgentGraph: React.FC<AgentGraphProps> = ({ state }) => {
+/**
+ * A planner run: the PLANNER node, then one node per tool call in the order the model
+ * made them, then the report.
+ */
+const PlannerGraph = ({ state, steps }: { state: AgentState; steps: PlannerStep[] }) => {
+  const isPlanning = state === AgentState.PLANNER;
+  const isDone = state === AgentState.COMPLETE;
+  const thinking = isPlanning && !steps.some(step => step.status === 'running');
+
+  return (
+    <div className="w-full py-12 flex flex-col items-center justify-center select-none gap-6">
+      <div className="flex flex-wrap items-center justify-center gap-y-6 gap-0 md:gap-1">
+        <Node
+            label="PLANNER"
+            subLabel={`${steps.length}/${MAX_PLANNER_STEPS} STEPS`}
+            icon={Route}
+            active={thinking}
+            completed={isDone || steps.length > 0}
+        />
+        {steps.map(step => {
+          const node = PLANNER_STEP_NODES[step.tool as PlannerToolName] ?? { icon: HelpCircle, label: step.tool.toUpperCase() };
+          return (
+            <React.Fragment key={step.index}>
+              <Connection active={step.status === 'running'} />
+              <Node
+                  label={node.label}
+                  subLabel={describeStepTarget(step)}
+                  icon={node.icon}
+                  active={step.status === 'running'}
+                  completed={step.status === 'done'}
+                  failed={step.status === 'failed'}
+              />
+            </React.Fragment>
+          );
+        })}
+        <Connection active={isDone} />
+        <Node
+            label="ANSWER"
+            icon={FileText}
+            active={isDone}
+            completed={isDone}
+        />
+      </div>
+    </div>
+  );
+};
+
+export const AgentGraph: React.FC<AgentGraphProps> = ({ state, formFactors, plannerSteps }) => {
+  if (plannerSteps) return <PlannerGraph state={state} steps={plannerSteps} />;
+
   // Determine completion status
   const isQueryDone = state !== AgentState.IDLE && state !== AgentState.QUERY;
   const isHistorianDone = isQueryDone && state !== AgentState.HISTORIAN;
@@ -81,11 +155,11 @@ export const AgentGraph: React.FC<AgentGraphProps> = ({ state }) => {
   const isInterpreterActive = state === AgentState.INTERPRETER;
 
   return (
-    <div className="w-full py-12 flex items-center justify-center select-none">
+    <div className="w-full py-12 flex flex-col items-center justify-center select-none gap-6">
       <div className="flex items-center gap-0 md:gap-1">
         <Node 
             label="QUERY" 
-            subLabel="PARALLEL"
+            subLabel={`PARALLEL x${formFactors.length}`}
             icon={Database} 
             active={isQueryActive} 
             completed={isQueryDone} 
@@ -114,6 +188,19 @@ export const AgentGraph: React.FC<AgentGraphProps> = ({ state }) => {
             completed={state === AgentState.COMPLETE} 
         />
       </div>
+      {/* Fan-out context: which device records the Query Agent requests */}
+      <div className="flex flex-wrap justify-center gap-1.5">
+        {FORM_FACTORS.filter(({ key }) => formFactors.includes(key)).map(({ key, label }) => (
+          <span
+            key={key}
+            className={`px-2 py-0.5 rounded-full border text-[9px] font-mono uppercase tracking-wider ${
+              isQueryActive ? 'border-indigo-500/50 text-indigo-300' : 'border-zinc-800 text-zinc-600'
+            }`}
+          >
+            {label}
+          </span>
+        ))}
+      </div>
     </div>
   );
 };
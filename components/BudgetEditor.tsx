@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { Target, Plus, Trash2, Upload, Download, ChevronDown, ChevronRight } from 'lucide-react';
+import { FormFactor, MetricKey, PerformanceBudget } from '../types';
+import { FORM_FACTORS, METRIC_THRESHOLDS } from '../constants';
+import { BUDGET_METRICS, createBudgetId, parseBudgets, serializeBudgets } from '../services/budgets';
+
+interface BudgetEditorProps {
+  budgets: PerformanceBudget[];
+  onChange: (budgets: PerformanceBudget[]) => void;
+}
+
+/**
+ * Edits the internal performance budgets (p75 limits per origin pattern and form
+ * factor) and imports or exports them as JSON so teams can share one file.
+ */
+export const BudgetEditor: React.FC<BudgetEditorProps> = ({ budgets, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (id: string, patch: Partial<PerformanceBudget>) =>
+    onChange(budgets.map(b => b.id === id ? { ...b, ...patch } : b));
+
+  const setLimit = (budget: PerformanceBudget, metric: MetricKey, raw: string) => {
+    const { [metric]: _, ...rest } = budget.limits;
+    const value = Number(raw);
+    update(budget.id, { limits: raw.trim() && value > 0 ? { ...rest, [metric]: value } : rest });
+  };
+
+  const handleImport = async (fileList: FileList | null) => {
+    const file = fileList?.[0];
+    if (!file) return;
+    try {
+      onChange([...budgets, ...parseBudgets(await file.text())]);
+      setError(null);
+      setOpen(true);
+    } catch (e: any) {
+      setError(e?.message || 'Import failed');
+    }
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([serializeBudgets(budgets)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'crux-budgets.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const addBudget = () => {
+    onChange([...budgets, { id: createBudgetId(), pattern: '', formFactor: null, limits: {} }]);
+    setOpen(true);
+  };
+
+  return (
+    <div className="bg-zinc-900/30 p-4 rounded-xl border border-zinc-800/50">
+      <div className="flex items-center gap-2 text-zinc-400">
+        <button onClick={() => setOpen(o => !o)} className="flex items-center gap-2 hover:text-zinc-200 transition-colors">
+          {open ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+          <Target size={14} />
+          <span className="text-xs font-medium uppercase">Budgets</span>
+        </button>
+        <span className="text-[10px] text-zinc-600 font-mono">{budgets.length} defined</span>
+        <div className="ml-auto flex items-center gap-3">
+          <label className="flex items-center gap-1 text-[10px] text-zinc-500 hover:text-indigo-300 cursor-pointer transition-colors">
+            <Upload size={10} /> Import
+            <input type="file" accept=".json" className="hidden" onChange={(e) => { handleImport(e.target.files); e.target.value = ''; }} />
+          </label>
+          {budgets.length > 0 && (
+            <button onClick={handleExport} className="flex items-center gap-1 text-[10px] text-zinc-500 hover:text-indigo-300 transition-colors">
+              <Download size={10} /> Export
+            </button>
+          )}
+          <button onClick={addBudget} className="flex items-center gap-1 text-[10px] text-zinc-500 hover:text-indigo-300 transition-colors">
+            <Plus size={10} /> Add
+          </button>
+        </div>
+      </div>
+      {error && <p className="text-[10px] text-red-400 mt-2">{error}</p>}
+
+      {open && (
+        budgets.length === 0 ? (
+          <p className="text-xs text-zinc-600 mt-3">
+            No budgets yet. Add one to hold an origin or page pattern (e.g. <span className="font-mono">https://shop.example.com/checkout*</span>) to stricter p75 limits than Google's thresholds.
+          </p>
+        ) : (
+          <div className="mt-3 overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-[10px] uppercase text-zinc-500 text-left">
+                  <th className="font-medium pb-1 pr-2">Origin / URL pattern</th>
+                  <th className="font-medium pb-1 pr-2">Device</th>
+                  {BUDGET_METRICS.map(metric => (
+                    <th key={metric} className="font-medium pb-1 pr-2">{metric.toUpperCase()}{metric === 'cls' ? '' : ' (ms)'}</th>
+                  ))}
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {budgets.map(budget => (
+                  <tr key={budget.id}>
+                    <td className="pr-2 py-1">
+                      <input
+                        value={budget.pattern}
+                        onChange={(e) => update(budget.id, { pattern: e.target.value })}
+                        placeholder="https://example.com*"
+                        className="w-full min-w-[12rem] bg-black/30 border border-zinc-800 rounded px-2 py-1 font-mono text-zinc-300 focus:border-indigo-500 focus:outline-none"
+                      />
+                    </td>
+                    <td className="pr-2 py-1">
+                      <select
+                        value={budget.formFactor ?? ''}
+                        onChange={(e) => update(budget.id, { formFactor: (e.target.value || null) as FormFactor | null })}
+                        className="bg-black/30 border border-zinc-800 rounded px-2 py-1 text-zinc-300 focus:border-indigo-500 focus:outline-none"
+                      >
+                        <option value="">Any</option>
+                        {FORM_FACTORS.map(({ key, label }) => <option key={key} value={key}>{label}</option>)}
+                      </select>
+                    </td>
+                    {BUDGET_METRICS.map(metric => (
+                      <td key={metric} className="pr-2 py-1">
+                        <input
+                          type="number"
+                          min={0}
+                          step={metric === 'cls' ? 0.01 : 50}
+                          value={budget.limits[metric] ?? ''}
+                          onChange={(e) => setLimit(budget, metric, e.target.value)}
+                          placeholder={String(METRIC_THRESHOLDS[metric].good)}
+                          className="w-20 bg-black/30 border border-zinc-800 rounded px-2 py-1 font-mono text-zinc-300 focus:border-indigo-500 focus:outline-none"
+                        />
+                      </td>
+                    ))}
+                    <td className="py-1">
+                      <button onClick={() => onChange(budgets.filter(b => b.id !== budget.id))} className="text-zinc-600 hover:text-red-400 transition-colors" title="Delete budget">
+                        <Trash2 size={12} />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-[10px] text-zinc-600 mt-2">
+              Placeholders show Google's Good thresholds. <span className="font-mono">*</span> matches any characters; the most specific matching budget wins per metric.
+            </p>
+          </div>
+        )
+      )}
+    </div>
+  );
+};
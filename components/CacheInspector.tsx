@@ -0,0 +1,84 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Database, Trash2, ChevronDown, ChevronRight } from 'lucide-react';
+import { CacheEntrySummary, listCached, deleteCached, clearCache, onCacheChange } from '../services/cacheStore';
+
+const formatAge = (ms: number) => {
+  const minutes = Math.round(Math.abs(ms) / 60_000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.round(minutes / 60);
+  return hours < 48 ? `${hours}h` : `${Math.round(hours / 24)}d`;
+};
+
+/**
+ * Lists the persistent cache (raw CrUX responses and generated reports) and lets
+ * the user invalidate single entries or whole stores.
+ */
+export const CacheInspector: React.FC = () => {
+  const [entries, setEntries] = useState<CacheEntrySummary[]>([]);
+  const [open, setOpen] = useState(false);
+
+  const refresh = useCallback(() => {
+    listCached().then(setEntries);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return onCacheChange(refresh);
+  }, [refresh]);
+
+  const now = Date.now();
+  const reportCount = entries.filter(e => e.store === 'reports').length;
+
+  return (
+    <div className="bg-zinc-900/30 p-4 rounded-xl border border-zinc-800/50">
+      <div className="flex items-center gap-2 text-zinc-400">
+        <button onClick={() => setOpen(o => !o)} className="flex items-center gap-2 hover:text-zinc-200 transition-colors">
+          {open ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+          <Database size={14} />
+          <span className="text-xs font-medium uppercase">Cache</span>
+        </button>
+        <span className="text-[10px] text-zinc-600 font-mono">
+          {entries.length - reportCount} CrUX responses, {reportCount} reports
+        </span>
+        {entries.length > 0 && (
+          <div className="ml-auto flex gap-2">
+            <button onClick={() => clearCache('crux')} className="text-[10px] text-zinc-500 hover:text-red-400 transition-colors">Clear CrUX</button>
+            <button onClick={() => clearCache('reports')} className="text-[10px] text-zinc-500 hover:text-red-400 transition-colors">Clear Reports</button>
+            <button onClick={() => clearCache()} className="text-[10px] text-zinc-500 hover:text-red-400 transition-colors">Clear All</button>
+          </div>
+        )}
+      </div>
+
+      {open && (
+        entries.length === 0 ? (
+          <p className="text-xs text-zinc-600 mt-3">Nothing cached yet. Results are stored after the first audit.</p>
+        ) : (
+          <ul className="mt-3 space-y-1 max-h-64 overflow-y-auto text-xs">
+            {entries.map(entry => {
+              const expired = entry.expiresAt <= now;
+              return (
+                <li key={`${entry.store}:${entry.key}`} className="flex items-center gap-3 p-1 rounded hover:bg-zinc-900/50">
+                  <span className={`w-14 shrink-0 text-[10px] uppercase font-bold ${entry.store === 'reports' ? 'text-purple-400' : 'text-blue-400'}`}>
+                    {entry.store === 'reports' ? 'Report' : 'CrUX'}
+                  </span>
+                  <span className="font-mono text-zinc-300 break-all flex-1">{entry.label}</span>
+                  <span className="text-zinc-500 shrink-0" title="Collection period">{entry.collectionPeriod ?? '-'}</span>
+                  <span className={`shrink-0 font-mono ${expired ? 'text-amber-500' : 'text-zinc-600'}`} title={new Date(entry.expiresAt).toLocaleString()}>
+                    {expired ? 'expired' : `${formatAge(now - entry.storedAt)} old, ${formatAge(entry.expiresAt - now)} left`}
+                  </span>
+                  <button
+                    onClick={() => deleteCached(entry.store, entry.key)}
+                    className="text-zinc-600 hover:text-red-400 transition-colors"
+                    title="Invalidate entry"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { MessageSquare, Send, Loader2, FlaskConical } from 'lucide-react';
+import { AuditContext, AuditFact, ChatMessage } from '../types';
+import { getChatSessionKey } from '../services/auditFacts';
+
+interface ChatPanelProps {
+  // One entry per audited site; batch runs offer a picker.
+  audits: AuditContext[];
+  // Conversations by `getChatSessionKey`, kept across runs.
+  sessions: Record<string, ChatMessage[]>;
+  // Session key of the question being answered, if any.
+  pendingKey: string | null;
+  onAsk: (audit: AuditContext, question: string) => void;
+}
+
+const SUGGESTED_QUESTIONS = [
+  'Why is desktop CLS worse than mobile?',
+  'Which week did INP jump?',
+  'What should we fix first?',
+];
+
+const CITATION_SPLIT = /(\[F\d+\])/;
+
+/**
+ * An answer with its citation markers turned into chips that show the cited figure on hover.
+ */
+const AnswerText = ({ message }: { message: ChatMessage }) => {
+  const byId = new Map(message.citations.map(fact => [fact.id, fact]));
+  return (
+    <p className="whitespace-pre-wrap leading-relaxed">
+      {message.content.split(CITATION_SPLIT).map((part, i) => {
+        const fact = byId.get(part.slice(1, -1));
+        if (!fact) return <React.Fragment key={i}>{part}</React.Fragment>;
+        return (
+          <span key={i} title={`${fact.label}: ${fact.value}`} className="inline-block mx-0.5 px-1 rounded bg-indigo-500/20 text-indigo-300 text-[10px] font-mono align-middle cursor-help">
+            {fact.id}
+          </span>
+        );
+      })}
+    </p>
+  );
+};
+
+const Sources = ({ facts }: { facts: AuditFact[] }) => (
+  <ul className="mt-3 pt-2 border-t border-zinc-800 space-y-1 text-[11px] text-zinc-500">
+    {facts.map(fact => (
+      <li key={fact.id} className="flex gap-2">
+        <span className="font-mono text-indigo-400 shrink-0">{fact.id}</span>
+        <span>{fact.label}: <span className="text-zinc-300">{fact.value}</span></span>
+      </li>
+    ))}
+  </ul>
+);
+
+/**
+ * Follow-up questions about a completed audit. Answers come from the Chat Agent and
+ * list the audit figures they cite.
+ */
+export const ChatPanel: React.FC<ChatPanelProps> = ({ audits, sessions, pendingKey, onAsk }) => {
+  const [selected, setSelected] = useState(0);
+  const [question, setQuestion] = useState('');
+
+  const audit = audits[Math.min(selected, audits.length - 1)];
+  if (!audit) return null;
+
+  const key = getChatSessionKey(audit.analysis);
+  const messages = sessions[key] ?? [];
+  const pending = pendingKey !== null;
+
+  const ask = (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed || pending) return;
+    onAsk(audit, trimmed);
+    setQuestion('');
+  };
+
+  return (
+    <div className="bg-zinc-900/50 border border-zinc-800 rounded-xl p-4">
+      <div className="flex items-center gap-2 mb-4">
+        <MessageSquare size={14} className="text-indigo-400" />
+        <h4 className="text-zinc-300 text-xs font-bold uppercase tracking-wider">Ask About This Audit</h4>
+        {audits.length > 1 && (
+          <select
+            value={selected}
+            onChange={e => setSelected(Number(e.target.value))}
+            className="ml-auto bg-zinc-950 border border-zinc-800 rounded px-2 py-1 text-xs text-zinc-300 focus:outline-none focus:border-indigo-500"
+          >
+            {audits.map((a, i) => <option key={a.analysis.domain} value={i}>{a.analysis.domain}</option>)}
+          </select>
+        )}
+      </div>
+
+      <div className="space-y-3 mb-4">
+        {messages.map((message, i) => (
+          message.role === 'user' ? (
+            <div key={i} className="ml-auto max-w-[80%] w-fit bg-indigo-600/20 border border-indigo-500/30 rounded-lg px-3 py-2 text-sm text-zinc-200">
+              {message.content}
+            </div>
+          ) : (
+            <div key={i} className="max-w-[90%] bg-zinc-950/60 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-zinc-300">
+              {message.simulated && (
+                <span className="flex items-center gap-1 mb-1 text-[10px] uppercase tracking-wider text-amber-400">
+                  <FlaskConical size={10} /> Simulated
+                </span>
+              )}
+              <AnswerText message={message} />
+              {message.citations.length > 0 && <Sources facts={message.citations} />}
+            </div>
+          )
+        ))}
+        {pendingKey === key && (
+          <div className="flex items-center gap-2 text-xs text-zinc-500">
+            <Loader2 size={12} className="animate-spin" /> Checking the audit data...
+          </div>
+        )}
+      </div>
+
+      {messages.length === 0 && (
+        <div className="flex flex-wrap gap-2 mb-3">
+          {SUGGESTED_QUESTIONS.map(q => (
+            <button
+              key={q}
+              onClick={() => ask(q)}
+              disabled={pending}
+              className="px-2.5 py-1 rounded-full border border-zinc-800 text-xs text-zinc-400 hover:border-indigo-500/50 hover:text-indigo-300 transition-colors disabled:opacity-50"
+            >
+              {q}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={e => { e.preventDefault(); ask(question); }} className="flex gap-2">
+        <input
+          value={question}
+          onChange={e => setQuestion(e.target.value)}
+          placeholder="Ask a follow-up question about these results"
+          className="flex-1 bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-zinc-200 focus:outline-none focus:border-indigo-500"
+        />
+        <button
+          type="submit"
+          disabled={pending || !question.trim()}
+          className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-indigo-600 text-white text-sm hover:bg-indigo-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Send size={14} /> Send
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { MetricKey, RatingDistribution, TimeSeries } from '../types';
+import { useParentSize } from './TimeSeriesChart';
+
+interface DistributionChartProps {
+  series: TimeSeries<RatingDistribution>;
+  metric: MetricKey;
+}
+
+const BUCKETS: { key: keyof RatingDistribution; label: string; color: string }[] = [
+  { key: 'good', label: 'Good', color: '#10b981' },
+  { key: 'needsImprovement', label: 'Needs Impr.', color: '#f59e0b' },
+  { key: 'poor', label: 'Poor', color: '#ef4444' },
+];
+
+/**
+ * Compact good / needs-improvement / poor bar for a single snapshot.
+ */
+export const DistributionBar = ({ distribution }: { distribution: RatingDistribution | null }) => {
+  if (!distribution) return null;
+  return (
+    <div className="mt-3 space-y-1">
+      <div className="flex h-2 w-full rounded-full overflow-hidden bg-zinc-800">
+        {BUCKETS.map(bucket => (
+          <div
+            key={bucket.key}
+            style={{ width: `${distribution[bucket.key] * 100}%`, backgroundColor: bucket.color }}
+            title={`${bucket.label}: ${(distribution[bucket.key] * 100).toFixed(1)}%`}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-[10px] font-mono text-zinc-500">
+        {BUCKETS.map(bucket => (
+          <span key={bucket.key}>{(distribution[bucket.key] * 100).toFixed(0)}%</span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Stacked-area history of the rating distribution. Good sits at the bottom and
+ * Poor at the top, so growth in the red band is visible even when p75 is flat.
+ * Periods without data break the areas instead of being interpolated.
+ */
+export const DistributionChart: React.FC<DistributionChartProps> = ({ series, metric }) => {
+  const ref = React.useRef<HTMLDivElement>(null);
+  const { width, height } = useParentSize(ref);
+  const [hovered, setHovered] = useState<number | null>(null);
+
+  if (width === 0 || height === 0) return <div ref={ref} className="w-full h-full" />;
+
+  const label = `${metric.toUpperCase()} Distribution`;
+
+  if (series.filter(point => point.value !== null).length < 2) {
+    return (
+      <div ref={ref} className="w-full h-full flex flex-col items-center justify-center text-zinc-600 text-sm">
+        <div className="text-xs text-zinc-400 font-semibold mb-2">{label}</div>
+        <div>Not enough data.</div>
+      </div>
+    );
+  }
+
+  const padding = { top: 28, right: 30, bottom: 24, left: 60 };
+  const chartWidth = width - padding.left - padding.right;
+  const chartHeight = height - padding.top - padding.bottom;
+  const xScale = (index: number) => padding.left + (index / Math.max(series.length - 1, 1)) * chartWidth;
+  const yScale = (share: number) => padding.top + chartHeight * (1 - share);
+
+  // Split into contiguous runs so gaps in the data stay visible.
+  const runs: number[][] = [];
+  series.forEach((point, i) => {
+    if (!point.value) return;
+    const last = runs[runs.length - 1];
+    if (last && last[last.length - 1] === i - 1) last.push(i);
+    else runs.push([i]);
+  });
+
+  const areaPath = (run: number[], lower: (d: RatingDistribution) => number, upper: (d: RatingDistribution) => number) => {
+    const top = run.map((i, j) => `${j === 0 ? 'M' : 'L'} ${xScale(i)} ${yScale(upper(series[i].value!))}`).join(' ');
+    const bottom = [...run].reverse().map(i => `L ${xScale(i)} ${yScale(lower(series[i].value!))}`).join(' ');
+    return `${top} ${bottom} Z`;
+  };
+
+  const bands = [
+    { ...BUCKETS[0], lower: () => 0, upper: (d: RatingDistribution) => d.good },
+    { ...BUCKETS[1], lower: (d: RatingDistribution) => d.good, upper: (d: RatingDistribution) => d.good + d.needsImprovement },
+    { ...BUCKETS[2], lower: (d: RatingDistribution) => d.good + d.needsImprovement, upper: () => 1 },
+  ];
+
+  const hoveredPoint = hovered !== null ? series[hovered] : null;
+  const hoveredValue = hoveredPoint?.value ?? null;
+
+  return (
+    <div ref={ref} className="w-full h-full relative">
+      <svg width="100%" height="100%" viewBox={`0 0 ${width} ${height}`} className="font-sans" onMouseLeave={() => setHovered(null)}>
+        <text x={width / 2} y={padding.top / 2} textAnchor="middle" dominantBaseline="middle" className="text-zinc-400 text-xs fill-current font-semibold">
+          {label}
+        </text>
+
+        <g className="text-zinc-600 text-[11px]">
+          {[0, 0.5, 1].map(tick => (
+            <text key={tick} x={padding.left - 8} y={yScale(tick)} dominantBaseline="middle" textAnchor="end" className="fill-current">
+              {tick * 100}%
+            </text>
+          ))}
+        </g>
+
+        {runs.map((run, r) => run.length > 1
+          ? bands.map(band => (
+              <path key={`${r}-${band.key}`} d={areaPath(run, band.lower, band.upper)} fill={band.color} opacity="0.55" />
+            ))
+          : bands.map(band => (
+              <line
+                key={`${r}-${band.key}`}
+                x1={xScale(run[0])} x2={xScale(run[0])}
+                y1={yScale(band.lower(series[run[0]].value!))} y2={yScale(band.upper(series[run[0]].value!))}
+                stroke={band.color} strokeWidth="3" opacity="0.55"
+              />
+            ))
+        )}
+
+        {series.map((_, i) => (
+          <rect
+            key={`hover-${i}`}
+            x={xScale(i) - chartWidth / series.length / 2}
+            y={padding.top}
+            width={chartWidth / series.length}
+            height={chartHeight}
+            fill="transparent"
+            onMouseEnter={() => setHovered(i)}
+            style={{ cursor: 'crosshair' }}
+          />
+        ))}
+
+        {hovered !== null && (
+          <line x1={xScale(hovered)} y1={padding.top} x2={xScale(hovered)} y2={height - padding.bottom} stroke="#fff" strokeWidth="1" strokeDasharray="4,4" opacity="0.4" />
+        )}
+      </svg>
+
+      {hovered !== null && (
+        <div
+          className="absolute bg-zinc-900 border border-zinc-700 rounded-lg p-2 shadow-xl pointer-events-none z-10 w-40 text-xs"
+          style={{ left: xScale(hovered) + 15 > width - 170 ? xScale(hovered) - 175 : xScale(hovered) + 15, top: padding.top }}
+        >
+          <div className="text-zinc-400 mb-1 font-mono">{hoveredPoint ? `Period ending ${hoveredPoint.period.end}` : `Point ${hovered! + 1}`}</div>
+          {hoveredValue ? BUCKETS.map(bucket => (
+            <div key={bucket.key} className="flex items-center gap-2">
+              <div className="w-2.5 h-2.5 rounded" style={{ backgroundColor: bucket.color }} />
+              <span className="text-zinc-300">{bucket.label}: <span className="font-semibold">{(hoveredValue[bucket.key] * 100).toFixed(1)}%</span></span>
+            </div>
+          )) : <div className="text-zinc-500">No data</div>}
+        </div>
+      )}
+    </div>
+  );
+};
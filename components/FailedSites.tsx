@@ -0,0 +1,42 @@
+import React from 'react';
+import { AlertTriangle, RotateCcw } from 'lucide-react';
+import { FailedSite } from '../types';
+
+interface FailedSitesProps {
+  sites: FailedSite[];
+  onRetry: () => void;
+  disabled: boolean;
+}
+
+/**
+ * Lists the sites a run could not audit, with the reason, and re-queues them on request.
+ */
+export const FailedSites: React.FC<FailedSitesProps> = ({ sites, onRetry, disabled }) => {
+  if (sites.length === 0) return null;
+
+  return (
+    <div className="bg-red-950/20 border border-red-900/50 p-4 rounded-xl">
+      <div className="flex items-center gap-2 mb-3">
+        <AlertTriangle size={14} className="text-red-400" />
+        <h4 className="text-red-400 text-xs font-bold uppercase tracking-wider">
+          {sites.length} {sites.length === 1 ? 'Site' : 'Sites'} Could Not Be Audited
+        </h4>
+        <button
+          onClick={onRetry}
+          disabled={disabled}
+          className="ml-auto flex items-center gap-1.5 px-3 py-1 rounded border border-red-900/60 bg-red-950/40 text-xs text-red-300 hover:bg-red-900/40 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <RotateCcw size={12} /> Retry Failed
+        </button>
+      </div>
+      <ul className="space-y-1 text-xs">
+        {sites.map(site => (
+          <li key={site.domain} className="flex gap-3">
+            <span className="font-mono text-zinc-300 break-all">{site.domain}</span>
+            <span className="text-zinc-500">{site.error.message}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import React from 'react';
+import { LcpBreakdown, LcpSubpartKey } from '../types';
+import { LCP_SUBPARTS } from '../constants';
+
+interface LcpBreakdownChartProps {
+  breakdown: LcpBreakdown | null;
+  lcpValue: number | null;
+}
+
+const SUBPART_COLORS: Record<LcpSubpartKey, string> = {
+  ttfb: '#f472b6',
+  loadDelay: '#f59e0b',
+  loadDuration: '#38bdf8',
+  renderDelay: '#818cf8',
+};
+
+/**
+ * Stacked bar showing how the p75 LCP time splits across its four phases,
+ * plus the image vs. text split of LCP elements.
+ */
+export const LcpBreakdownChart: React.FC<LcpBreakdownChartProps> = ({ breakdown, lcpValue }) => {
+  if (!breakdown) {
+    return (
+      <div className="text-xs text-zinc-600 p-4 border border-dashed border-zinc-800 rounded-lg">
+        CrUX does not publish LCP subpart data for this target.
+      </div>
+    );
+  }
+
+  const parts = LCP_SUBPARTS.map(part => ({ ...part, value: breakdown.subparts[part.key] ?? 0 }));
+  const total = parts.reduce((sum, part) => sum + part.value, 0);
+
+  return (
+    <div className="space-y-4">
+      {total > 0 && (
+        <>
+          <div className="flex h-6 w-full rounded overflow-hidden border border-zinc-800">
+            {parts.filter(part => part.value > 0).map(part => (
+              <div
+                key={part.key}
+                style={{ width: `${(part.value / total) * 100}%`, backgroundColor: SUBPART_COLORS[part.key] }}
+                className={breakdown.dominant === part.key ? 'opacity-100' : 'opacity-60'}
+                title={`${part.label}: ${Math.round(part.value)}ms`}
+              />
+            ))}
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-xs">
+            {parts.map(part => (
+              <div key={part.key} className="flex items-start gap-2">
+                <div className="w-3 h-3 rounded mt-0.5 shrink-0" style={{ backgroundColor: SUBPART_COLORS[part.key] }} />
+                <div>
+                  <div className={breakdown.dominant === part.key ? 'text-zinc-200 font-semibold' : 'text-zinc-400'}>
+                    {part.label}{breakdown.dominant === part.key && ' (dominant)'}
+                  </div>
+                  <div className="font-mono text-zinc-500">
+                    {breakdown.subparts[part.key] === null ? 'n/a' : `${Math.round(part.value)}ms (${Math.round((part.value / total) * 100)}%)`}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+          <p className="text-[11px] text-zinc-600">
+            Each phase is an independent p75, so the sum ({Math.round(total)}ms) will not exactly match the LCP p75 ({lcpValue === null ? 'no data' : `${lcpValue}ms`}).
+          </p>
+        </>
+      )}
+
+      {breakdown.resourceType && (
+        <div className="text-xs text-zinc-400">
+          LCP element type:{' '}
+          <span className="font-mono text-zinc-300">{Math.round(breakdown.resourceType.image * 100)}% image</span>
+          {' / '}
+          <span className="font-mono text-zinc-300">{Math.round(breakdown.resourceType.text * 100)}% text</span>
+        </div>
+      )}
+    </div>
+  );
+};
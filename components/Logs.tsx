@@ -30,6 +30,8 @@ export const Logs: React.FC<LogsProps> = ({ logs }) => {
               log.source === 'Assistant' ? 'text-zinc-400' :
               log.source === 'Query Agent' ? 'text-blue-400' :
               log.source === 'Historian' ? 'text-purple-400' :
+              log.source === 'Chat Agent' ? 'text-teal-400' :
+              log.source === 'Planner' ? 'text-sky-400' :
               'text-orange-400'
             }`}>
               {log.source}
@@ -41,6 +43,8 @@ export const Logs: React.FC<LogsProps> = ({ logs }) => {
               'text-zinc-400'
             }`}>
               {log.message}
+              {log.live && <span className="ml-1 animate-pulse">▍</span>}
+              {log.guidance && <span className="block text-zinc-500 mt-0.5">{log.guidance}</span>}
             </span>
           </div>
         ))}
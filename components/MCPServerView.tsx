@@ -1,5 +1,6 @@
 import React from 'react';
 import { Copy, Terminal } from 'lucide-react';
+import { CRUX_ERRORS } from '../constants';
 
 const SERVER_CODE = `/**
  * crux-mcp-server.js
@@ -35,35 +36,77 @@ const server = new McpServer({
   version: "2.0.0",
 });
 
+// Same error codes and guidance as the web app (constants.ts CRUX_ERRORS).
+const CRUX_ERRORS = ${JSON.stringify(CRUX_ERRORS, null, 2)};
+
 /**
- * Helper to call the Google Apps Script Proxy
+ * Builds the structured error returned by every tool:
+ * { code, message, status, body, guidance }
+ */
+function cruxError(code, message, status = null, body = null) {
+  return { code, message, status, body, guidance: CRUX_ERRORS[code].guidance };
+}
+
+/**
+ * Maps a Google API error object ({ code, message, status, details }) to a structured error.
+ */
+function classifyApiError(httpStatus, apiError) {
+  const status = Number(apiError?.code) || httpStatus;
+  const reason = apiError?.status;
+  const detail = apiError?.message ? ": " + apiError.message : "";
+  const keyRejected = (apiError?.details || []).some(d => d?.reason === "API_KEY_INVALID") || /api key/i.test(apiError?.message || "");
+
+  if (status === 404 || reason === "NOT_FOUND") return cruxError("NOT_FOUND", "No CrUX data for this origin" + detail, 404, apiError);
+  if (status === 429 || reason === "RESOURCE_EXHAUSTED") return cruxError("QUOTA_EXCEEDED", "CrUX API quota exceeded" + detail, status, apiError);
+  if (status === 401 || status === 403 || reason === "PERMISSION_DENIED" || keyRejected) return cruxError("INVALID_KEY", "CrUX API rejected the key" + detail, status, apiError);
+  return cruxError("UNKNOWN", "CrUX API error (HTTP " + status + ")" + detail, status, apiError);
+}
+
+/**
+ * Helper to call the Google Apps Script Proxy.
+ * Resolves to { data } on success or { error } with a structured error.
  */
 async function callProxy(params) {
-  try {
-    // Construct URL with parameters
-    const url = new URL(PROXY_URL);
-    Object.keys(params).forEach(key => {
-        if (params[key]) url.searchParams.append(key, params[key]);
-    });
+  // Construct URL with parameters
+  const url = new URL(PROXY_URL);
+  Object.keys(params).forEach(key => {
+      if (params[key]) url.searchParams.append(key, params[key]);
+  });
 
-    const response = await fetch(url.toString(), {
+  let response;
+  try {
+    response = await fetch(url.toString(), {
       method: "GET", // GAS Web Apps use GET for simplicity in this architecture
     });
+  } catch (err) {
+    return { error: cruxError("NETWORK", "Could not reach the proxy: " + err.message) };
+  }
 
-    if (!response.ok) {
-        return \`HTTP Error: \${response.status}\`;
-    }
-
-    const data = await response.json();
-    
-    if (data.error) {
-        return \`Proxy Error: \${data.error}\`;
-    }
+  const data = await response.json().catch(() => null);
 
-    return JSON.stringify(data, null, 2);
-  } catch (err) {
-    return \`Network Error: \${err.message}\`;
+  if (!response.ok) {
+    return { error: cruxError("PROXY_MISCONFIGURED", "Proxy responded with HTTP " + response.status, response.status, data) };
+  }
+  if (data === null) {
+    return { error: cruxError("PROXY_MISCONFIGURED", "Proxy returned a non-JSON response", response.status) };
+  }
+  if (typeof data.error === "string") {
+    return { error: cruxError("PROXY_MISCONFIGURED", "Proxy error: " + data.error, response.status, data) };
+  }
+  if (data.error) {
+    return { error: classifyApiError(response.status, data.error) };
   }
+
+  return { data };
+}
+
+/**
+ * Converts a callProxy result into an MCP tool result. Errors are returned as
+ * JSON with isError set, so clients can branch on error.code.
+ */
+function toToolResult({ data, error }) {
+  const payload = error ? { error } : data;
+  return { content: [{ type: "text", text: JSON.stringify(payload, null, 2) }], isError: Boolean(error) };
 }
 
 // ---------------------------------------------------------
@@ -75,7 +118,7 @@ server.tool(
   "Get current Core Web Vitals (LCP, CLS, INP) for a specific origin and form factor. This provides an immediate snapshot of the user experience.",
   {
     origin: z.string().url().describe("The full origin URL to query (e.g., https://www.example.com)"),
-    formFactor: z.enum(["PHONE", "DESKTOP"]).optional().default("PHONE").describe("The device type to get metrics for."),
+    formFactor: z.enum(["PHONE", "DESKTOP", "TABLET", "ALL_FORM_FACTORS"]).optional().default("PHONE").describe("The device type to get metrics for."),
   },
   async ({ origin, formFactor }) => {
     const result = await callProxy({
@@ -83,28 +126,30 @@ server.tool(
         origin,
         formFactor,
     });
-    return { content: [{ type: "text", text: result }] };
+    return toToolResult(result);
   }
 );
 
 // ---------------------------------------------------------
 // Tool 2: CrUXHistory
-// Gets 6-month historical trends to detect regressions
+// Gets weekly historical trends (default 25, max 40 periods) to detect regressions
 // ---------------------------------------------------------
 server.tool(
   "crux_history",
-  "Get 25-week historical trends for Core Web Vitals to analyze performance stability and detect regressions over time.",
+  "Get weekly historical trends for Core Web Vitals (25 collection periods by default, up to 40) to analyze performance stability and detect regressions over time.",
   {
     origin: z.string().url().describe("The full origin URL to query (e.g., https://www.example.com)"),
-    formFactor: z.enum(["PHONE", "DESKTOP"]).optional().default("PHONE").describe("The device type to analyze history for."),
+    formFactor: z.enum(["PHONE", "DESKTOP", "TABLET", "ALL_FORM_FACTORS"]).optional().default("PHONE").describe("The device type to analyze history for."),
+    collectionPeriodCount: z.number().int().min(1).max(40).optional().default(25).describe("How many weekly collection periods to return."),
   },
-  async ({ origin, formFactor }) => {
+  async ({ origin, formFactor, collectionPeriodCount }) => {
     const result = await callProxy({
         endpoint: 'history',
         origin,
         formFactor,
+        collectionPeriodCount,
     });
-    return { content: [{ type: "text", text: result }] };
+    return toToolResult(result);
   }
 );
 
@@ -123,7 +168,7 @@ server.tool(
         endpoint: 'compare',
         origin
     });
-    return { content: [{ type: "text", text: result }] };
+    return toToolResult(result);
   }
 );
 
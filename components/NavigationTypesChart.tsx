@@ -0,0 +1,86 @@
+import React from 'react';
+import { Lightbulb } from 'lucide-react';
+import { NavigationAnalysis } from '../types';
+import { NAVIGATION_TYPES } from '../constants';
+import { deriveNavigationHints, getBfcacheHitRate } from '../services/navigationInsights';
+
+interface NavigationTypesChartProps {
+  navigation: NavigationAnalysis | null;
+}
+
+/**
+ * Stacked bar of how page loads were initiated, the bfcache hit rate history,
+ * and the deterministic hints passed to the Interpreter Agent.
+ */
+export const NavigationTypesChart: React.FC<NavigationTypesChartProps> = ({ navigation }) => {
+  if (!navigation) {
+    return (
+      <div className="text-xs text-zinc-600 p-4 border border-dashed border-zinc-800 rounded-lg">
+        CrUX does not publish navigation type data for this target.
+      </div>
+    );
+  }
+
+  const hints = deriveNavigationHints(navigation);
+  const hitRate = getBfcacheHitRate(navigation.current);
+  const hitRateTrend = navigation.trend.map(({ period, value }) => ({ period, rate: value ? getBfcacheHitRate(value) : null }));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex h-6 w-full rounded overflow-hidden border border-zinc-800">
+        {NAVIGATION_TYPES.filter(({ key }) => navigation.current[key] > 0).map(({ key, label, color }) => (
+          <div
+            key={key}
+            style={{ width: `${navigation.current[key] * 100}%`, backgroundColor: color }}
+            className="opacity-80"
+            title={`${label}: ${(navigation.current[key] * 100).toFixed(1)}%`}
+          />
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-xs">
+        {NAVIGATION_TYPES.map(({ key, label, color }) => (
+          <div key={key} className="flex items-start gap-2">
+            <div className="w-3 h-3 rounded mt-0.5 shrink-0" style={{ backgroundColor: color }} />
+            <div>
+              <div className="text-zinc-400">{label}</div>
+              <div className="font-mono text-zinc-500">{(navigation.current[key] * 100).toFixed(1)}%</div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {hitRate !== null && (
+        <div className="flex items-end gap-4">
+          <div>
+            <div className="text-xs uppercase tracking-wider font-semibold text-zinc-500">bfcache Hit Rate</div>
+            <div className="text-xl font-mono font-bold text-zinc-200">{(hitRate * 100).toFixed(1)}%</div>
+          </div>
+          {hitRateTrend.filter(({ rate }) => rate !== null).length > 1 && (
+            <div className="flex items-end gap-px h-8 flex-1 max-w-xs" title="bfcache hit rate per collection period">
+              {hitRateTrend.map(({ period, rate }) => (
+                <div
+                  key={period.end}
+                  className={rate === null ? 'flex-1 bg-zinc-900' : 'flex-1 bg-emerald-500/60'}
+                  style={{ height: rate === null ? '2px' : `${Math.max(rate * 100, 4)}%` }}
+                  title={`${period.end}: ${rate === null ? 'no data' : `${(rate * 100).toFixed(1)}%`}`}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {hints.length > 0 && (
+        <ul className="space-y-1.5">
+          {hints.map((hint, i) => (
+            <li key={i} className="flex gap-2 text-xs text-zinc-400">
+              <Lightbulb size={14} className="text-amber-400 shrink-0 mt-0.5" />
+              <span>{hint}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { Upload, X } from 'lucide-react';
+import { OfflineDataset } from '../types';
+import { importOfflineFiles, listOfflineTargets } from '../services/offlineImport';
+
+interface OfflineImportProps {
+  dataset: OfflineDataset | null;
+  onChange: (dataset: OfflineDataset | null) => void;
+  onSelectTarget: (target: string) => void;
+}
+
+/**
+ * Loads saved CrUX API JSON or BigQuery export rows (JSON, NDJSON or CSV) for the
+ * offline data source and lists the targets that can be audited.
+ */
+export const OfflineImport: React.FC<OfflineImportProps> = ({ dataset, onChange, onSelectTarget }) => {
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFiles = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+    try {
+      const files = await Promise.all([...fileList].map(async file => ({ name: file.name, text: await file.text() })));
+      onChange(importOfflineFiles(files, dataset ?? undefined));
+      setError(null);
+    } catch (e: any) {
+      setError(e?.message || 'Import failed');
+    }
+  };
+
+  const targets = dataset ? listOfflineTargets(dataset) : [];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <label className="flex items-center gap-1.5 px-3 py-2 rounded border border-zinc-800 bg-black/30 text-xs text-zinc-300 hover:border-indigo-500 cursor-pointer transition-colors">
+          <Upload size={12} /> Import JSON / CSV
+          <input
+            type="file"
+            multiple
+            accept=".json,.ndjson,.jsonl,.csv"
+            className="hidden"
+            onChange={(e) => { handleFiles(e.target.files); e.target.value = ''; }}
+          />
+        </label>
+        {dataset && (
+          <button onClick={() => onChange(null)} className="flex items-center gap-1 text-[10px] text-zinc-500 hover:text-red-400 transition-colors">
+            <X size={10} /> Clear ({dataset.files.length} file{dataset.files.length === 1 ? '' : 's'})
+          </button>
+        )}
+      </div>
+      {error && <p className="text-[10px] text-red-400">{error}</p>}
+      {targets.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {targets.map(({ target, formFactors }) => (
+            <button
+              key={target}
+              onClick={() => onSelectTarget(target)}
+              title={formFactors.join(', ')}
+              className="px-2 py-1 rounded border border-zinc-800 bg-black/30 text-[10px] font-mono text-zinc-400 hover:text-indigo-300 hover:border-indigo-700/60 transition-colors"
+            >
+              {target}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
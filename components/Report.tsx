@@ -1,15 +1,26 @@
 import React, { useState } from 'react';
 import ReactMarkdown, { Components } from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { Smartphone, Monitor, ChevronDown } from 'lucide-react';
-import { AnalysisResult, FormFactorAnalysis } from '../types';
+import { Smartphone, Monitor, Tablet, Layers, ChevronDown, Globe, FileText, AlertTriangle, CheckCircle2, XCircle, FlaskConical, Loader2, Route, ShieldCheck, ShieldAlert } from 'lucide-react';
+import { AnalysisResult, CoreWebVitalsAssessment, FailedSite, FormFactor, FormFactorAnalysis, InterpreterReport, MetricKey, PlannerResult, Recommendation, RecommendationPriority, ReportVerification, SiteRanking, StreamProgress, TrafficShare } from '../types';
+import { METRIC_KEYS, FORM_FACTORS } from '../constants';
+import { getHistoryWindow } from '../services/cruxService';
+import { formatScore, rankSites } from '../services/scoring';
+import { toInterpreterMarkdown } from '../services/structuredReports';
+import { verifyFigures } from '../services/reportVerifier';
 import { TimeSeriesChart } from './TimeSeriesChart';
+import { LcpBreakdownChart } from './LcpBreakdownChart';
+import { DistributionChart, DistributionBar } from './DistributionChart';
+import { NavigationTypesChart } from './NavigationTypesChart';
 
 interface ReportProps {
+  // The batch comparison in batch mode; otherwise the markdown view of `report`.
   markdown: string;
+  report?: InterpreterReport | null;
   data: AnalysisResult;
   batchData?: AnalysisResult[];
-  individualReports?: string[];
+  individualReports?: (InterpreterReport | null)[];
+  failedSites?: FailedSite[];
 }
 
 /**
@@ -36,93 +47,417 @@ const MARKDOWN_COMPONENTS: Components = {
 };
 
 
+const FORM_FACTOR_ICONS: Record<FormFactor, React.ElementType> = {
+    PHONE: Smartphone,
+    DESKTOP: Monitor,
+    TABLET: Tablet,
+    ALL_FORM_FACTORS: Layers,
+};
+
+const getFormFactorLabel = (formFactor: FormFactor) => FORM_FACTORS.find(f => f.key === formFactor)!.label;
+
 const MetricsGrid = ({ metrics }: { metrics: FormFactorAnalysis['metrics'] }) => (
     <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
     {[
       { label: 'LCP (Loading)', val: metrics.lcp, unit: 'ms' },
       { label: 'CLS (Stability)', val: metrics.cls, unit: '' },
       { label: 'INP (Interactivity)', val: metrics.inp, unit: 'ms' },
+      { label: 'FCP (First Paint)', val: metrics.fcp, unit: 'ms' },
+      { label: 'TTFB (Server Response)', val: metrics.ttfb, unit: 'ms' },
+      { label: 'RTT (Network)', val: metrics.rtt, unit: 'ms' },
     ].map((m, i) => (
       <div key={i} className={`p-4 rounded-lg border ${
+        m.val.rating === null ? 'bg-zinc-900/50 border-zinc-800' :
         m.val.rating === 'good' ? 'bg-emerald-950/30 border-emerald-900/50' : 
         m.val.rating === 'needs-improvement' ? 'bg-amber-950/30 border-amber-900/50' : 
         'bg-red-950/30 border-red-900/50'
       }`}>
         <div className="text-xs uppercase tracking-wider font-semibold text-zinc-500 mb-1">{m.label}</div>
         <div className={`text-2xl font-mono font-bold ${
+           m.val.rating === null ? 'text-zinc-500' :
            m.val.rating === 'good' ? 'text-emerald-400' : 
            m.val.rating === 'needs-improvement' ? 'text-amber-400' : 
            'text-red-400'
         }`}>
-          {m.val.value}{m.unit}
+          {m.val.value === null ? 'No data' : `${m.val.value}${m.unit}`}
         </div>
-        <div className="text-xs mt-2 capitalize opacity-70">
-          Rating: {m.val.rating.replace('-', ' ')}
+        <div className="flex items-center justify-between gap-2 text-xs mt-2">
+          <span className="capitalize opacity-70">Rating: {m.val.rating === null ? 'n/a' : m.val.rating.replace('-', ' ')}</span>
+          {m.val.budget && (
+            <span
+              title={`Budget from ${m.val.budget.pattern}`}
+              className={`px-1.5 py-0.5 rounded border font-mono text-[10px] ${
+                m.val.budget.pass === null ? 'border-zinc-700 text-zinc-500' :
+                m.val.budget.pass ? 'border-emerald-800/60 text-emerald-400' : 'border-red-800/60 text-red-400'
+              }`}
+            >
+              Budget {m.val.budget.limit}{m.unit}: {m.val.budget.pass === null ? 'No data' : m.val.budget.pass ? 'Pass' : 'Fail'}
+            </span>
+          )}
         </div>
+        <DistributionBar distribution={m.val.distribution} />
       </div>
     ))}
   </div>
 );
 
-const IndividualSiteReport = ({ site, reportMarkdown }: { site: AnalysisResult, reportMarkdown: string }) => {
-    const [activeTab, setActiveTab] = useState<'phone' | 'desktop'>('phone');
+/**
+ * The official Core Web Vitals verdict for the selected device and its composite health score.
+ */
+const AssessmentBanner = ({ assessment }: { assessment: CoreWebVitalsAssessment }) => {
+    const { passes, failing, score } = assessment;
+    return (
+        <div className={`flex flex-wrap items-center gap-3 p-3 rounded-lg border ${
+            passes ? 'bg-emerald-950/20 border-emerald-900/50' : 'bg-red-950/20 border-red-900/50'
+        }`}>
+            {passes ? <CheckCircle2 size={18} className="text-emerald-400" /> : <XCircle size={18} className="text-red-400" />}
+            <span className={`text-sm font-semibold ${passes ? 'text-emerald-300' : 'text-red-300'}`}>
+                Core Web Vitals Assessment: {passes ? 'Passed' : 'Failed'}
+            </span>
+            {failing.length > 0 && (
+                <span className="text-xs text-zinc-400">{failing.map(m => m.toUpperCase()).join(', ')} not Good at p75</span>
+            )}
+            <span
+                className="ml-auto text-xs text-zinc-400"
+                title="Share of Good experiences across LCP, CLS and INP (0-100)"
+            >
+                Health Score <span className="font-mono text-lg font-bold text-zinc-200">{formatScore(score)}</span>
+            </span>
+        </div>
+    );
+};
+
+/**
+ * Batch ranking by health score, computed from the data rather than by the model.
+ */
+const RankingTable = ({ rankings }: { rankings: SiteRanking[] }) => (
+    <div className="space-y-2">
+        <h4 className="text-xs uppercase tracking-wider font-semibold text-zinc-500">Ranking by Health Score</h4>
+        <table className="w-full text-sm">
+            <thead>
+                <tr className="text-left text-xs text-zinc-500">
+                    <th className="font-medium pb-1 pr-4">#</th>
+                    <th className="font-medium pb-1 pr-4">Site</th>
+                    <th className="font-medium pb-1 pr-4">Ranked On</th>
+                    <th className="font-medium pb-1 pr-4">Core Web Vitals</th>
+                    <th className="font-medium pb-1 text-right">Health Score</th>
+                </tr>
+            </thead>
+            <tbody>
+                {rankings.map(r => (
+                    <tr key={r.domain} className="border-t border-zinc-800">
+                        <td className="py-1.5 pr-4 font-mono text-zinc-500">{r.rank}</td>
+                        <td className="py-1.5 pr-4 font-mono text-zinc-300 break-all">{r.domain}</td>
+                        <td className="py-1.5 pr-4 text-zinc-400">{getFormFactorLabel(r.formFactor)}</td>
+                        <td className={`py-1.5 pr-4 ${r.passes ? 'text-emerald-400' : 'text-red-400'}`}>{r.passes ? 'Passed' : 'Failed'}</td>
+                        <td className="py-1.5 text-right font-mono text-zinc-200">{formatScore(r.score)}</td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    </div>
+);
+
+const PRIORITY_STYLES: Record<RecommendationPriority, string> = {
+    high: 'border-red-800/60 text-red-400',
+    medium: 'border-amber-800/60 text-amber-400',
+    low: 'border-zinc-700 text-zinc-400',
+};
+
+const RecommendationCard = ({ recommendation, index }: { recommendation: Recommendation, index: number }) => {
+    const { title, metric, formFactor, priority, expectedImpact, rationale, ruleId } = recommendation;
+    return (
+        <div className="p-4 rounded-lg border border-zinc-800 bg-zinc-950/50 space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+                <span className="font-mono text-xs text-zinc-600">{index + 1}</span>
+                <span className={`px-1.5 py-0.5 rounded border text-[10px] uppercase font-semibold ${PRIORITY_STYLES[priority]}`}>{priority}</span>
+                <span className="px-1.5 py-0.5 rounded border border-indigo-900/60 text-indigo-300 font-mono text-[10px]">
+                    {getFormFactorLabel(formFactor)} {metric.toUpperCase()}
+                </span>
+                {ruleId && (
+                    <span title="Follows this rule of the recommendation engine" className="ml-auto font-mono text-[10px] text-zinc-600">{ruleId}</span>
+                )}
+            </div>
+            <p className="text-sm font-semibold text-zinc-200">{title}</p>
+            {expectedImpact && <p className="text-xs text-zinc-400"><span className="text-zinc-500 font-medium">Expected impact: </span>{expectedImpact}</p>}
+            {rationale && <p className="text-xs text-zinc-400"><span className="text-zinc-500 font-medium">Rationale: </span>{rationale}</p>}
+        </div>
+    );
+};
+
+/**
+ * Whether the figures of a generated report match the data. Reports with no checkable
+ * figures get no badge.
+ */
+const VerificationBadge = ({ verification }: { verification: ReportVerification }) => {
+    const { checked, discrepancies } = verification;
+    if (checked === 0) return null;
+    return discrepancies.length === 0 ? (
+        <span
+            title={`${checked} figure${checked === 1 ? '' : 's'} checked against the CrUX data`}
+            className="flex items-center gap-1 px-1.5 py-0.5 rounded border border-emerald-900/60 text-emerald-400 text-[10px] uppercase"
+        >
+            <ShieldCheck size={10} /> Verified
+        </span>
+    ) : (
+        <span
+            title={`${discrepancies.length} of ${checked} figures disagree with the CrUX data`}
+            className="flex items-center gap-1 px-1.5 py-0.5 rounded border border-amber-900/60 text-amber-400 text-[10px] uppercase"
+        >
+            <ShieldAlert size={10} /> {discrepancies.length} {discrepancies.length === 1 ? 'discrepancy' : 'discrepancies'}
+        </span>
+    );
+};
+
+const DiscrepancyList = ({ verification }: { verification: ReportVerification }) => {
+    if (verification.discrepancies.length === 0) return null;
+    return (
+        <div className="p-3 rounded-lg border border-amber-900/50 bg-amber-950/20 text-xs text-amber-300 space-y-1">
+            <p className="flex items-center gap-2 font-medium">
+                <ShieldAlert size={14} className="shrink-0" />
+                These figures do not match the CrUX data:
+            </p>
+            <ul className="list-disc pl-8 space-y-0.5 text-amber-200/80">
+                {verification.discrepancies.map((d, i) => (
+                    <li key={i}>
+                        {d.context}: written "{d.written}", data {d.expected}{d.corrected && ' (corrected in the table)'}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+/**
+ * The Interpreter's structured report as sections and recommendation cards, with the
+ * markdown derived from it one click away.
+ */
+const InterpreterReportView = ({ report, site }: { report: InterpreterReport, site: AnalysisResult }) => {
+    const [view, setView] = useState<'cards' | 'markdown'>('cards');
+    const verification = verifyFigures(toInterpreterMarkdown(report), [site]);
+    const sections = [
+        { title: 'Executive Summary', body: report.executiveSummary },
+        { title: 'Device Gap', body: report.deviceGap },
+        { title: 'Trend Analysis', body: report.trendAnalysis },
+    ].filter(section => section.body);
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center gap-3 border-b border-zinc-800 pb-2">
+                <h4 className="text-md font-semibold text-zinc-300">Analysis</h4>
+                {report.simulated && (
+                    <span
+                        title="Generated deterministically from the data because no LLM provider is configured"
+                        className="flex items-center gap-1 px-1.5 py-0.5 rounded border border-amber-900/60 text-amber-400 text-[10px] uppercase"
+                    >
+                        <FlaskConical size={10} /> Simulated
+                    </span>
+                )}
+                <VerificationBadge verification={verification} />
+                <div className="ml-auto flex text-xs">
+                    {(['cards', 'markdown'] as const).map(option => (
+                        <button
+                            key={option}
+                            onClick={() => setView(option)}
+                            className={`px-2 py-1 capitalize transition-colors ${view === option ? 'text-indigo-300' : 'text-zinc-500 hover:text-zinc-300'}`}
+                        >
+                            {option}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {report.truncated && (
+                <div className="flex items-center gap-2 p-3 rounded-lg border border-amber-900/50 bg-amber-950/20 text-xs text-amber-300">
+                    <AlertTriangle size={14} className="shrink-0" />
+                    The response stream was cut off, so this report shows only the part that arrived.
+                </div>
+            )}
+            <DiscrepancyList verification={verification} />
+
+            {view === 'markdown' ? (
+                <div className="text-zinc-400 text-sm">
+                    <ReactMarkdown remarkPlugins={[remarkGfm]} components={MARKDOWN_COMPONENTS}>
+                        {toInterpreterMarkdown(report)}
+                    </ReactMarkdown>
+                </div>
+            ) : (
+                <>
+                    {sections.map(({ title, body }) => (
+                        <div key={title} className="space-y-1">
+                            <h5 className="text-xs uppercase tracking-wider font-semibold text-zinc-500">{title}</h5>
+                            <p className="text-sm text-zinc-400 leading-relaxed">{body}</p>
+                        </div>
+                    ))}
+                    {report.recommendations.length > 0 && (
+                        <div className="space-y-2">
+                            <h5 className="text-xs uppercase tracking-wider font-semibold text-zinc-500">Recommendations</h5>
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                {report.recommendations.map((recommendation, i) => (
+                                    <RecommendationCard key={i} recommendation={recommendation} index={i} />
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+/**
+ * Labels whether the report covers a whole origin or a single page, and calls out
+ * any form factor that had to fall back to origin-level data.
+ */
+const ScopeBadge = ({ site }: { site: AnalysisResult }) => {
+    const fallbacks = FORM_FACTORS
+        .filter(({ key }) => site.formFactors[key]?.scope === 'origin')
+        .map(({ label }) => label);
+    const isPage = site.scope === 'url';
+
+    return (
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+            <span className="font-mono text-zinc-400 break-all">{site.domain}</span>
+            <span className={`flex items-center gap-1 px-2 py-0.5 rounded-full border ${
+                isPage ? 'bg-indigo-950/40 border-indigo-800/50 text-indigo-300' : 'bg-zinc-800/50 border-zinc-700 text-zinc-400'
+            }`}>
+                {isPage ? <FileText size={12} /> : <Globe size={12} />}
+                {isPage ? 'Page-level' : 'Origin-level'}
+            </span>
+            {isPage && fallbacks.length > 0 && (
+                <span
+                    className="flex items-center gap-1 px-2 py-0.5 rounded-full border bg-amber-950/30 border-amber-900/50 text-amber-300"
+                    title={`CrUX has no page-level data for this URL on ${fallbacks.join(' and ')}. Showing data for ${site.origin} instead.`}
+                >
+                    <AlertTriangle size={12} />
+                    Origin fallback: {fallbacks.join(', ')}
+                </span>
+            )}
+        </div>
+    );
+};
+
+/**
+ * How page loads split across devices, from the combined record's `form_factors` metric.
+ */
+const TrafficShareBar = ({ share }: { share: TrafficShare }) => {
+    const segments = [
+        { label: 'Mobile', value: share.phone, color: '#818cf8' },
+        { label: 'Desktop', value: share.desktop, color: '#34d399' },
+        { label: 'Tablet', value: share.tablet, color: '#f59e0b' },
+    ];
+    return (
+        <div className="space-y-1.5">
+            <div className="text-xs uppercase tracking-wider font-semibold text-zinc-500">Traffic by Device</div>
+            <div className="flex h-2 w-full max-w-md rounded-full overflow-hidden bg-zinc-800">
+                {segments.map(seg => (
+                    <div key={seg.label} style={{ width: `${seg.value * 100}%`, backgroundColor: seg.color }} />
+                ))}
+            </div>
+            <div className="flex gap-4 text-xs text-zinc-400">
+                {segments.map(seg => (
+                    <span key={seg.label} className="flex items-center gap-1.5">
+                        <span className="w-2.5 h-2.5 rounded" style={{ backgroundColor: seg.color }} />
+                        {seg.label} <span className="font-mono text-zinc-300">{Math.round(seg.value * 100)}%</span>
+                    </span>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+const IndividualSiteReport = ({ site, report }: { site: AnalysisResult, report: InterpreterReport | null }) => {
+    const available = FORM_FACTORS.filter(({ key }) => site.formFactors[key]);
+    const [selectedTab, setActiveTab] = useState<FormFactor>(available[0].key);
     const [hoveredPoint, setHoveredPoint] = useState<number | null>(null);
-    const [hoverTarget, setHoverTarget] = useState<'lcp' | 'cls' | 'inp' | null>(null);
+    const [hoverTarget, setHoverTarget] = useState<MetricKey | null>(null);
     
-    const handleHover = (index: number | null, metric: 'lcp' | 'cls' | 'inp') => {
+    const handleHover = (index: number | null, metric: MetricKey) => {
         setHoveredPoint(index);
         setHoverTarget(index === null ? null : metric);
     };
 
-    const activeData = site[activeTab];
+    // The selected device may not exist for every site in a batch.
+    const activeTab = site.formFactors[selectedTab] ? selectedTab : available[0].key;
+    const activeData = site.formFactors[activeTab]!;
+    const historyWindow = getHistoryWindow(activeData.history.periods);
 
     return (
          <div className="space-y-6">
-            <h3 className="text-xl font-bold text-zinc-200">Intelligence Report</h3>
+            <div className="space-y-2">
+                <h3 className="text-xl font-bold text-zinc-200">Intelligence Report</h3>
+                <ScopeBadge site={site} />
+            </div>
+            {site.trafficShare && <TrafficShareBar share={site.trafficShare} />}
+
             {/* Tab Switcher */}
-            <div className="flex space-x-2 border-b border-zinc-800 pb-2">
-                <button
-                    onClick={() => setActiveTab('phone')}
-                    className={`flex items-center gap-2 px-4 py-2 rounded-t-lg transition-colors ${
-                        activeTab === 'phone' 
-                        ? 'bg-zinc-800 text-indigo-400 border-b-2 border-indigo-500' 
-                        : 'text-zinc-500 hover:text-zinc-300'
-                    }`}
-                >
-                    <Smartphone size={16} />
-                    <span className="font-medium text-sm">Mobile</span>
-                </button>
-                <button
-                    onClick={() => setActiveTab('desktop')}
-                    className={`flex items-center gap-2 px-4 py-2 rounded-t-lg transition-colors ${
-                        activeTab === 'desktop' 
-                        ? 'bg-zinc-800 text-indigo-400 border-b-2 border-indigo-500' 
-                        : 'text-zinc-500 hover:text-zinc-300'
-                    }`}
-                >
-                    <Monitor size={16} />
-                    <span className="font-medium text-sm">Desktop</span>
-                </button>
+            <div className="flex flex-wrap gap-2 border-b border-zinc-800 pb-2">
+                {available.map(({ key, label }) => {
+                    const Icon = FORM_FACTOR_ICONS[key];
+                    return (
+                        <button
+                            key={key}
+                            onClick={() => setActiveTab(key)}
+                            className={`flex items-center gap-2 px-4 py-2 rounded-t-lg transition-colors ${
+                                activeTab === key 
+                                ? 'bg-zinc-800 text-indigo-400 border-b-2 border-indigo-500' 
+                                : 'text-zinc-500 hover:text-zinc-300'
+                            }`}
+                        >
+                            <Icon size={16} />
+                            <span className="font-medium text-sm">{label}</span>
+                        </button>
+                    );
+                })}
             </div>
 
+            <AssessmentBanner assessment={activeData.assessment} />
+
             {/* Conditional Metrics */}
-            <div className="min-h-[140px]">
+            <div className="min-h-[320px]">
                 <MetricsGrid metrics={activeData.metrics} />
             </div>
             
+            {/* LCP Subpart Breakdown */}
+            <div className="space-y-3">
+                <h4 className="text-md font-semibold text-zinc-300">LCP Breakdown</h4>
+                <div className="bg-zinc-950/50 p-4 rounded-lg border border-zinc-800">
+                    <LcpBreakdownChart breakdown={activeData.lcpBreakdown} lcpValue={activeData.metrics.lcp.value} />
+                </div>
+            </div>
+
+            {/* Navigation Types */}
+            <div className="space-y-3">
+                <h4 className="text-md font-semibold text-zinc-300">Navigation Types</h4>
+                <div className="bg-zinc-950/50 p-4 rounded-lg border border-zinc-800">
+                    <NavigationTypesChart navigation={activeData.navigationTypes} />
+                </div>
+            </div>
+
             {/* Trend Chart */}
             <div className="space-y-4 pt-4">
-                 <h4 className="text-md font-semibold text-zinc-300">Trend Analysis (Last 25 Weeks)</h4>
+                 <h4 className="text-md font-semibold text-zinc-300">Trend Analysis {historyWindow
+                    ? `(${historyWindow.periods} ${historyWindow.cadence === 'monthly' ? 'Monthly' : 'Weekly'} Periods: ${historyWindow.start} to ${historyWindow.end})`
+                    : '(No History Available)'}</h4>
                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                    {(['lcp', 'cls', 'inp'] as const).map((metric) => (
-                        <div key={metric} className="h-64 bg-zinc-950/50 p-2 rounded-lg border border-zinc-800 relative">
-                            <TimeSeriesChart
-                                history={activeData.history}
-                                metric={metric}
-                                hoveredPoint={hoveredPoint}
-                                onHover={handleHover}
-                                isHoverTarget={hoverTarget === metric}
-                            />
+                    {METRIC_KEYS.map((metric) => (
+                        <div key={metric} className="bg-zinc-950/50 p-2 rounded-lg border border-zinc-800 relative">
+                            <div className="h-64">
+                                <TimeSeriesChart
+                                    history={activeData.history}
+                                    metric={metric}
+                                    forecast={activeData.forecasts[metric]}
+                                    hoveredPoint={hoveredPoint}
+                                    onHover={handleHover}
+                                    isHoverTarget={hoverTarget === metric}
+                                />
+                            </div>
+                            <div className="h-32 border-t border-zinc-800/60">
+                                <DistributionChart
+                                    series={activeData.history.distributions[metric] || []}
+                                    metric={metric}
+                                />
+                            </div>
                         </div>
                     ))}
                  </div>
@@ -131,31 +466,73 @@ const IndividualSiteReport = ({ site, reportMarkdown }: { site: AnalysisResult,
             {/* Regressions Warning (Context Sensitive) */}
             {activeData.regressions.length > 0 && (
                 <div className="bg-amber-950/20 border border-amber-900/50 p-4 rounded-lg">
-                    <h4 className="text-amber-500 text-xs font-bold uppercase tracking-wider mb-2">Detected Issues ({activeTab})</h4>
+                    <h4 className="text-amber-500 text-xs font-bold uppercase tracking-wider mb-2">Detected Issues ({getFormFactorLabel(activeTab)})</h4>
                     <ul className="list-disc list-inside text-sm text-amber-200/70 space-y-1">
                         {activeData.regressions.map((reg, i) => (
-                            <li key={i}>{reg}</li>
+                            <li key={i}>
+                                <span className="font-mono text-[10px] uppercase text-amber-500/80 mr-2">{reg.kind}</span>
+                                {reg.summary}
+                            </li>
                         ))}
                     </ul>
                 </div>
             )}
             
             {/* AI Analysis for this specific site */}
-            <div className="text-zinc-400 text-sm">
-                <ReactMarkdown 
-                    remarkPlugins={[remarkGfm]}
-                    components={MARKDOWN_COMPONENTS}
-                >
-                    {reportMarkdown}
-                </ReactMarkdown>
-            </div>
+            {report && <InterpreterReportView report={report} site={site} />}
         </div>
     )
 }
 
-export const Report: React.FC<ReportProps> = ({ markdown, data, batchData, individualReports }) => {
-  const [selectedSiteIndex, setSelectedSiteIndex] = useState(0);
-  const isBatchMode = batchData && batchData.length > 1 && individualReports;
+/**
+ * The Interpreter's output as it streams in, shown while the Interpreter node is active.
+ * It is replaced by the full report once the workflow completes.
+ */
+export const StreamingReport: React.FC<{ progress: StreamProgress }> = ({ progress }) => (
+    <div className="bg-zinc-900/50 p-6 rounded-xl border border-orange-900/40 space-y-4">
+        <div className="flex items-center gap-2 text-orange-300">
+            <Loader2 size={14} className="animate-spin" />
+            <span className="text-xs font-medium uppercase tracking-wider">Interpreter is writing</span>
+            <span className="ml-auto text-[10px] font-mono text-zinc-500">{progress.tokens !== null ? `${progress.tokens} tokens` : `${progress.chunks} chunks`} · {progress.characters} chars</span>
+        </div>
+        <div className="text-zinc-400 text-sm">
+            <ReactMarkdown remarkPlugins={[remarkGfm]} components={MARKDOWN_COMPONENTS}>
+                {progress.markdown}
+            </ReactMarkdown>
+        </div>
+    </div>
+);
+
+/**
+ * The Planner Agent's answer to the goal, shown above the reports of the sites it audited.
+ */
+export const PlannerAnswer = ({ result }: { result: PlannerResult }) => (
+    <div className="bg-zinc-900/50 p-6 rounded-xl border border-sky-900/50 space-y-4">
+        <div className="flex items-center gap-2 text-sky-300">
+            <Route size={14} />
+            <span className="text-xs font-medium uppercase tracking-wider">Planner Answer</span>
+            <span className="ml-auto text-[10px] font-mono text-zinc-500">
+                {result.steps.length} step{result.steps.length === 1 ? '' : 's'}{result.stoppedAtLimit ? ' (limit reached)' : ''}
+            </span>
+        </div>
+        <p className="text-sm text-zinc-300 italic">{result.goal}</p>
+        <div className="text-zinc-400 text-sm">
+            <ReactMarkdown remarkPlugins={[remarkGfm]} components={MARKDOWN_COMPONENTS}>
+                {result.answer}
+            </ReactMarkdown>
+        </div>
+    </div>
+);
+
+export const Report: React.FC<ReportProps> = ({ markdown, report = null, data, batchData, individualReports, failedSites = [] }) => {
+  // Selector values are "site-<index>" for audited sites and "failed-<index>" for failed ones.
+  const [selectedSite, setSelectedSite] = useState('site-0');
+  const isBatchMode = batchData && individualReports && batchData.length + failedSites.length > 1;
+  const [selectedKind, selectedIndex] = selectedSite.split('-');
+  const selectedFailure = selectedKind === 'failed' ? failedSites[Number(selectedIndex)] : undefined;
+  const selectedSiteIndex = selectedKind === 'site' && batchData?.[Number(selectedIndex)] ? Number(selectedIndex) : 0;
+  // Scoreboard cells that disagree with the data are corrected before rendering.
+  const comparison = isBatchMode ? verifyFigures(markdown, batchData) : null;
 
   return (
     <div className="space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-700">
@@ -171,34 +548,56 @@ export const Report: React.FC<ReportProps> = ({ markdown, data, batchData, indiv
                     <div className="relative">
                         <select
                             id="site-selector"
-                            value={selectedSiteIndex}
-                            onChange={(e) => setSelectedSiteIndex(Number(e.target.value))}
+                            value={selectedFailure ? selectedSite : `site-${selectedSiteIndex}`}
+                            onChange={(e) => setSelectedSite(e.target.value)}
                             className="w-full appearance-none bg-zinc-800 border border-zinc-700 rounded-lg py-2 px-4 text-zinc-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
                         >
                             {batchData.map((site, index) => (
-                                <option key={site.domain} value={index}>
+                                <option key={site.domain} value={`site-${index}`}>
                                     {site.domain}
                                 </option>
                             ))}
+                            {failedSites.map((site, index) => (
+                                <option key={site.domain} value={`failed-${index}`}>
+                                    {site.domain} (failed)
+                                </option>
+                            ))}
                         </select>
                          <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-5 h-5 text-zinc-500 pointer-events-none" />
                     </div>
                 </div>
 
-                <IndividualSiteReport 
-                    site={batchData[selectedSiteIndex]}
-                    reportMarkdown={individualReports[selectedSiteIndex]}
-                />
+                {selectedFailure ? (
+                    <div className="flex flex-col items-center justify-center py-12 text-zinc-500 border border-dashed border-red-900/50 rounded-lg">
+                        <AlertTriangle size={32} className="mb-3 opacity-60 text-red-500" />
+                        <p className="font-mono text-zinc-300 text-sm break-all">{selectedFailure.domain}</p>
+                        <p className="text-xs mt-2 text-zinc-400">{selectedFailure.error.message}</p>
+                        <p className="text-xs mt-1 text-zinc-600 max-w-md text-center">{selectedFailure.error.guidance}</p>
+                    </div>
+                ) : batchData[selectedSiteIndex] && (
+                    <IndividualSiteReport 
+                        key={batchData[selectedSiteIndex].domain}
+                        site={batchData[selectedSiteIndex]}
+                        report={individualReports[selectedSiteIndex] ?? null}
+                    />
+                )}
             </div>
             
             {/* Batch View: Final Comparative Conclusion */}
-            <div className="bg-zinc-900/50 p-6 rounded-xl border border-zinc-800">
+            <div className="bg-zinc-900/50 p-6 rounded-xl border border-zinc-800 space-y-6">
+                {batchData.length > 0 && <RankingTable rankings={rankSites(batchData)} />}
+                {comparison && comparison.checked > 0 && (
+                    <div className="flex items-center gap-2 text-xs text-zinc-500">
+                        Comparison figures <VerificationBadge verification={comparison} />
+                    </div>
+                )}
+                {comparison && <DiscrepancyList verification={comparison} />}
                 <div className="text-zinc-400 text-sm">
                     <ReactMarkdown
                         remarkPlugins={[remarkGfm]}
                         components={MARKDOWN_COMPONENTS}
                     >
-                        {markdown}
+                        {comparison?.text ?? markdown}
                     </ReactMarkdown>
                 </div>
             </div>
@@ -206,7 +605,7 @@ export const Report: React.FC<ReportProps> = ({ markdown, data, batchData, indiv
       ) : (
         // Single Site View
         <div className="bg-zinc-900/50 p-6 rounded-xl border border-zinc-800">
-            <IndividualSiteReport site={data} reportMarkdown={markdown} />
+            <IndividualSiteReport site={data} report={report} />
         </div>
       )}
     </div>
@@ -1,27 +1,41 @@
 import React from 'react';
-import { FormFactorAnalysis } from '../types';
+import { FormFactorAnalysis, MetricForecast, MetricKey } from '../types';
+import { METRIC_KEYS } from '../constants';
+import { formatPeriodSpan } from '../services/forecast';
 
 interface TimeSeriesChartProps {
   history: FormFactorAnalysis['history'];
-  metric: 'lcp' | 'cls' | 'inp';
+  metric: MetricKey;
   hoveredPoint: number | null;
-  onHover: (index: number | null, metric: 'lcp' | 'cls' | 'inp') => void;
+  onHover: (index: number | null, metric: MetricKey) => void;
   isHoverTarget: boolean;
+  forecast?: MetricForecast | null;
 }
 
-const COLORS = {
+const COLORS: Record<MetricKey, string> = {
   lcp: '#818cf8',
   cls: '#f59e0b',
   inp: '#34d399',
+  fcp: '#38bdf8',
+  ttfb: '#f472b6',
+  rtt: '#a1a1aa',
 };
 
-const METRIC_CONFIG = {
-    lcp: { color: COLORS.lcp, label: 'LCP Trend', unit: 'ms' },
-    cls: { color: COLORS.cls, label: 'CLS Trend', unit: '' },
-    inp: { color: COLORS.inp, label: 'INP Trend', unit: 'ms' },
+const METRIC_CONFIG: Record<MetricKey, { color: string; label: string; unit: string; tooltipClass: string }> = {
+    lcp: { color: COLORS.lcp, label: 'LCP Trend', unit: 'ms', tooltipClass: 'text-indigo-300' },
+    cls: { color: COLORS.cls, label: 'CLS Trend', unit: '', tooltipClass: 'text-amber-300' },
+    inp: { color: COLORS.inp, label: 'INP Trend', unit: 'ms', tooltipClass: 'text-emerald-300' },
+    fcp: { color: COLORS.fcp, label: 'FCP Trend', unit: 'ms', tooltipClass: 'text-sky-300' },
+    ttfb: { color: COLORS.ttfb, label: 'TTFB Trend', unit: 'ms', tooltipClass: 'text-pink-300' },
+    rtt: { color: COLORS.rtt, label: 'RTT Trend', unit: 'ms', tooltipClass: 'text-zinc-300' },
 };
 
-const useParentSize = (ref: React.RefObject<HTMLElement>) => {
+const formatValue = (metric: MetricKey, value: number) =>
+  metric === 'cls' ? value.toFixed(3) : `${Math.round(value)}ms`;
+
+const RATING_LABELS = { good: 'Good', 'needs-improvement': 'Needs Improvement', poor: 'Poor' } as const;
+
+export const useParentSize = (ref: React.RefObject<HTMLElement>) => {
   const [size, setSize] = React.useState({ width: 0, height: 0 });
   React.useLayoutEffect(() => {
     const updateSize = () => {
@@ -51,19 +65,24 @@ const generateTicks = (min: number, max: number, count = 4) => {
   return ticks;
 };
 
-export const TimeSeriesChart: React.FC<TimeSeriesChartProps> = ({ history, metric, hoveredPoint, onHover, isHoverTarget }) => {
+export const TimeSeriesChart: React.FC<TimeSeriesChartProps> = ({ history, metric, hoveredPoint, onHover, isHoverTarget, forecast }) => {
   const ref = React.useRef<HTMLDivElement>(null);
   const { width, height } = useParentSize(ref);
 
   if (width === 0 || height === 0) return <div ref={ref} className="w-full h-full" />;
 
   const config = METRIC_CONFIG[metric];
-  const data = (history as any)[`${metric}Trend`] as number[] || [];
-  const { lcpTrend: lcpData = [], clsTrend: clsData = [], inpTrend: inpData = [], dates = [] } = history;
-  
-  const dataLength = data.length;
-  
-  if (dataLength < 2) {
+  const { periods, series } = history;
+  const data = series[metric];
+  const values = data.filter(point => point.value !== null).map(point => point.value!);
+
+  // Every period gets an x position, so gaps keep their width on the time axis.
+  // Projected periods follow the history on the same period axis.
+  const dataLength = periods.length;
+  const projected = forecast?.points ?? [];
+  const slotCount = dataLength + projected.length;
+
+  if (values.length < 2) {
     return (
       <div ref={ref} className="w-full h-full flex flex-col items-center justify-center text-zinc-600 text-sm">
         <div className="text-xs text-zinc-400 font-semibold mb-2">{config.label}</div>
@@ -77,22 +96,61 @@ export const TimeSeriesChart: React.FC<TimeSeriesChartProps> = ({ history, metri
   const chartWidth = width - padding.left - padding.right;
   const chartHeight = height - padding.top - padding.bottom;
 
-  const dataMax = data.length > 0 ? Math.max(...data, 0) : 0;
+  // The band can widen a lot; cap its share of the y range so the history stays readable.
+  const historyMax = Math.max(...values, 0);
+  const dataMax = Math.max(historyMax, ...projected.map(p => Math.min(p.upper, historyMax * 1.5)));
   const yMax = metric === 'cls' ? Math.max(dataMax, 0.1) : dataMax; // Give CLS a minimum range
   const yMin = 0;
   const yScaleMax = yMax === 0 ? 1 : yMax * 1.1;
 
-  const xScale = (index: number) => padding.left + (index / (dataLength - 1)) * chartWidth;
+  const xScale = (index: number) => padding.left + (index / (slotCount - 1)) * chartWidth;
   const yScale = (value: number) => {
     if (yScaleMax === 0) return padding.top + chartHeight;
     const normalized = (value - yMin) / (yScaleMax - yMin);
     return padding.top + chartHeight * (1 - normalized);
   };
 
-  const path = data.map((d, i) => `${i === 0 ? 'M' : 'L'} ${xScale(i)} ${yScale(d)}`).join(' ');
+  // Start a new subpath after every gap instead of drawing a line across it.
+  const path = data
+    .map((point, i) => {
+      if (point.value === null) return '';
+      const afterGap = i === 0 || data[i - 1].value === null;
+      return `${afterGap ? 'M' : 'L'} ${xScale(i)} ${yScale(point.value)}`;
+    })
+    .filter(Boolean)
+    .join(' ');
 
-  const getStartDate = () => (dates.length > 0 ? dates[0].split(' to ')[0] : 'Start');
-  const getEndDate = () => (dates.length > 0 ? dates[dates.length - 1].split(' to ')[1] : 'End');
+  // Points with no neighbour on either side would be invisible as a path, so draw them as dots.
+  const isolated = data
+    .map((point, i) => ({ point, i }))
+    .filter(({ point, i }) => point.value !== null && data[i - 1]?.value == null && data[i + 1]?.value == null);
+
+  // Each gap is shaded across its own slot (half-way to each neighbour), clipped to the plot area.
+  const slotWidth = chartWidth / Math.max(slotCount - 1, 1);
+  const gaps = data
+    .map((point, i) => ({ point, i }))
+    .filter(({ point }) => point.value === null)
+    .map(({ i }) => {
+      const left = Math.max(xScale(i) - slotWidth / 2, padding.left);
+      const right = Math.min(xScale(i) + slotWidth / 2, width - padding.right);
+      return { i, left, width: right - left };
+    });
+
+  // The projection starts at the last period when it has data, so the dashed line continues the solid one.
+  const lastValue = data[dataLength - 1]?.value ?? null;
+  const anchor = lastValue !== null ? [{ x: xScale(dataLength - 1), value: lastValue, lower: lastValue, upper: lastValue }] : [];
+  const projection = [...anchor, ...projected.map((p, i) => ({ x: xScale(dataLength + i), value: p.value, lower: p.lower, upper: p.upper }))];
+  const clampY = (value: number) => yScale(Math.min(value, yScaleMax));
+  const projectionPath = projection.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${clampY(p.value)}`).join(' ');
+  const bandPath = projection.length > 1
+    ? `M ${projection.map(p => `${p.x} ${clampY(p.upper)}`).join(' L ')} L ${[...projection].reverse().map(p => `${p.x} ${clampY(p.lower)}`).join(' L ')} Z`
+    : '';
+  const crossing = forecast?.crossing ?? null;
+
+  const getStartDate = () => (periods.length > 0 ? periods[0].start : 'Start');
+  const getEndDate = () => (projected.length > 0
+    ? `${projected[projected.length - 1].period.end} (projected)`
+    : periods.length > 0 ? periods[periods.length - 1].end : 'End');
 
   const yAxisTicks = generateTicks(yMin, yScaleMax, 4);
 
@@ -168,10 +226,72 @@ export const TimeSeriesChart: React.FC<TimeSeriesChartProps> = ({ history, metri
           <text x={width - padding.right} y={height - padding.bottom + 20} textAnchor="end">
             {getEndDate()}
           </text>
+          {crossing && (
+            <text x={width - padding.right} y={height - padding.bottom + 40} textAnchor="end" className="fill-current text-[11px]">
+              <title>{forecast!.summary}</title>
+              Projected {RATING_LABELS[crossing.rating]} in ~{formatPeriodSpan(crossing.periods, forecast!.cadence)}
+            </text>
+          )}
         </g>
 
+        {/* Gap markers - periods CrUX returned without data */}
+        {gaps.map(gap => (
+          <rect
+            key={`gap-${gap.i}`}
+            x={gap.left}
+            y={padding.top}
+            width={gap.width}
+            height={chartHeight}
+            fill="#3f3f46"
+            opacity="0.25"
+          />
+        ))}
+
+        {/* Forecast - confidence band, dashed trend and the boundary it is projected to cross */}
+        {projected.length > 0 && (
+          <g>
+            <line
+              x1={xScale(dataLength - 1)}
+              y1={padding.top}
+              x2={xScale(dataLength - 1)}
+              y2={height - padding.bottom}
+              stroke="#52525b"
+              strokeWidth="1"
+              strokeDasharray="2,3"
+            />
+            <text x={xScale(dataLength - 1) + 6} y={padding.top + 12} className="fill-zinc-500 text-[11px]">Forecast</text>
+            {bandPath && <path d={bandPath} fill={config.color} opacity="0.12" />}
+            <path d={projectionPath} fill="none" stroke={config.color} strokeWidth="2" strokeDasharray="6,4" opacity="0.8" />
+            {crossing && crossing.threshold <= yScaleMax && (
+              <g>
+                <line
+                  x1={padding.left}
+                  y1={yScale(crossing.threshold)}
+                  x2={width - padding.right}
+                  y2={yScale(crossing.threshold)}
+                  stroke={crossing.rating === 'good' ? '#34d399' : crossing.rating === 'poor' ? '#f87171' : '#fbbf24'}
+                  strokeWidth="1"
+                  strokeDasharray="4,4"
+                  opacity="0.6"
+                />
+                <circle
+                  cx={xScale(dataLength - 1 + crossing.periods)}
+                  cy={yScale(crossing.threshold)}
+                  r="4"
+                  fill="none"
+                  stroke={config.color}
+                  strokeWidth="2"
+                />
+              </g>
+            )}
+          </g>
+        )}
+
         {/* Data line - thicker stroke */}
         {path && <path d={path} fill="none" stroke={config.color} strokeWidth="3" opacity="0.9" />}
+        {isolated.map(({ point, i }) => (
+          <circle key={`dot-${i}`} cx={xScale(i)} cy={yScale(point.value!)} r="3" fill={config.color} opacity="0.9" />
+        ))}
 
         {/* Hover regions */}
         {Array.from({ length: dataLength }).map((_, i) => (
@@ -200,8 +320,8 @@ export const TimeSeriesChart: React.FC<TimeSeriesChartProps> = ({ history, metri
               strokeDasharray="4,4"
               opacity="0.3"
             />
-            {data[hoveredPoint] != null && (
-                <circle cx={xScale(hoveredPoint)} cy={yScale(data[hoveredPoint])} r="5" fill={config.color} stroke="#fff" strokeWidth="2" />
+            {data[hoveredPoint]?.value != null && (
+                <circle cx={xScale(hoveredPoint)} cy={yScale(data[hoveredPoint].value!)} r="5" fill={config.color} stroke="#fff" strokeWidth="2" />
             )}
           </g>
         )}
@@ -216,27 +336,21 @@ export const TimeSeriesChart: React.FC<TimeSeriesChartProps> = ({ history, metri
           }}
         >
           <div className="text-xs text-zinc-400 mb-2 font-mono">
-            {dates[hoveredPoint] ? dates[hoveredPoint].split(' to ')[0] : `Point ${hoveredPoint + 1}`}
+            {periods[hoveredPoint] ? `Period ending ${periods[hoveredPoint].end}` : `Point ${hoveredPoint + 1}`}
           </div>
           <div className="space-y-1 text-sm">
-            {lcpData[hoveredPoint] != null && (
-              <div className="flex items-center gap-2">
-                <div className="w-3 h-3 rounded" style={{ backgroundColor: COLORS.lcp }} />
-                <span className="text-zinc-300">LCP: <span className="font-semibold text-indigo-300">{Math.round(lcpData[hoveredPoint])}ms</span></span>
-              </div>
-            )}
-            {inpData[hoveredPoint] != null && (
-              <div className="flex items-center gap-2">
-                <div className="w-3 h-3 rounded" style={{ backgroundColor: COLORS.inp }} />
-                <span className="text-zinc-300">INP: <span className="font-semibold text-emerald-300">{Math.round(inpData[hoveredPoint])}ms</span></span>
-              </div>
-            )}
-            {clsData[hoveredPoint] != null && (
-              <div className="flex items-center gap-2">
-                <div className="w-3 h-3 rounded" style={{ backgroundColor: COLORS.cls }} />
-                <span className="text-zinc-300">CLS: <span className="font-semibold text-amber-300">{clsData[hoveredPoint].toFixed(3)}</span></span>
-              </div>
-            )}
+            {METRIC_KEYS.map(key => {
+              const value = series[key][hoveredPoint]?.value ?? null;
+              return (
+                <div key={key} className="flex items-center gap-2">
+                  <div className="w-3 h-3 rounded" style={{ backgroundColor: COLORS[key] }} />
+                  <span className="text-zinc-300">{key.toUpperCase()}: {value === null
+                    ? <span className="text-zinc-500">no data</span>
+                    : <span className={`font-semibold ${METRIC_CONFIG[key].tooltipClass}`}>{formatValue(key, value)}</span>}
+                  </span>
+                </div>
+              );
+            })}
           </div>
         </div>
       )}
@@ -1,54 +1,104 @@
 
 
-import { AnalysisResult, LogEntry } from './types';
+import { LogEntry, MetricKey, LcpSubpartKey, FormFactor, NavigationType, CrUXErrorCode } from './types';
 
 export const CRUX_API_BASE = 'https://chromeuxreport.googleapis.com/v1/records:queryRecord';
 export const CRUX_HISTORY_API_BASE = 'https://chromeuxreport.googleapis.com/v1/records:queryHistoryRecord';
 
-const MOCK_DATES_SHORT = [
-    '2025-05-04 to 2025-05-31',
-    '2025-06-01 to 2025-06-28',
-    '2025-06-29 to 2025-07-26',
-    '2025-07-27 to 2025-08-23',
-    '2025-08-24 to 2025-09-20',
-    '2025-09-21 to 2025-10-18',
+// History API `collectionPeriodCount`: CrUX defaults to 25 weekly periods and allows up to 40.
+export const DEFAULT_HISTORY_DEPTH = 25;
+export const MAX_HISTORY_DEPTH = 40;
+
+// The CrUX API allows 150 queries per minute per Google Cloud project.
+export const DEFAULT_REQUESTS_PER_MINUTE = 150;
+
+// Tool calls one planner run may make before it must answer with what it has; enough
+// for fetch, history and regression steps on four sites plus a comparison.
+export const MAX_PLANNER_STEPS = 15;
+
+// Persistent cache lifetimes. Raw CrUX responses expire daily, or sooner once the next
+// collection period is due; reports are keyed by period, so they can live longer.
+export const CRUX_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+// CrUX publishes a period about two days after it ends. Once a period is overdue, a cached
+// response is rechecked at most this often rather than on every run.
+export const CRUX_PUBLICATION_LAG_DAYS = 2;
+export const CRUX_REVALIDATE_MS = 60 * 60 * 1000;
+export const REPORT_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Every form factor the Query Agent can fan out to, in display order.
+export const FORM_FACTORS: { key: FormFactor; label: string }[] = [
+  { key: 'PHONE', label: 'Mobile' },
+  { key: 'DESKTOP', label: 'Desktop' },
+  { key: 'TABLET', label: 'Tablet' },
+  { key: 'ALL_FORM_FACTORS', label: 'All Devices' },
 ];
 
-// Mock data used if no CrUX API Key is provided
-export const MOCK_ANALYSIS: AnalysisResult = {
-  domain: 'https://example.com',
-  phone: {
-      metrics: {
-        lcp: { value: 3200, rating: 'needs-improvement' },
-        cls: { value: 0.15, rating: 'needs-improvement' },
-        inp: { value: 250, rating: 'needs-improvement' },
-      },
-      history: {
-        lcpTrend: [2800, 2900, 2850, 3100, 3150, 3200],
-        clsTrend: [0.1, 0.12, 0.11, 0.13, 0.14, 0.15],
-        inpTrend: [200, 210, 220, 230, 240, 250],
-        dates: MOCK_DATES_SHORT,
-      },
-      regressions: [
-        "Mobile LCP has degraded by 14% over the last 6 months."
-      ],
-      collectionPeriod: "2023-01-01 to 2023-01-28"
-  },
-  desktop: {
-      metrics: {
-        lcp: { value: 1200, rating: 'good' },
-        cls: { value: 0.02, rating: 'good' },
-        inp: { value: 50, rating: 'good' },
-      },
-      history: {
-        lcpTrend: [1100, 1150, 1200, 1200, 1180, 1200],
-        clsTrend: [0.03, 0.02, 0.02, 0.025, 0.02, 0.02],
-        inpTrend: [60, 55, 50, 52, 51, 50],
-        dates: MOCK_DATES_SHORT,
-      },
-      regressions: [],
-      collectionPeriod: "2023-01-01 to 2023-01-28"
-  }
+export const DEFAULT_FORM_FACTORS: FormFactor[] = ['PHONE', 'DESKTOP', 'TABLET', 'ALL_FORM_FACTORS'];
+
+// Every metric the Query Agent extracts, in display order (Core Web Vitals first).
+export const METRIC_KEYS: MetricKey[] = ['lcp', 'cls', 'inp', 'fcp', 'ttfb', 'rtt'];
+
+// Maps internal metric keys to their CrUX API field names.
+export const CRUX_METRIC_NAMES = {
+  lcp: 'largest_contentful_paint',
+  cls: 'cumulative_layout_shift',
+  inp: 'interaction_to_next_paint',
+  fcp: 'first_contentful_paint',
+  ttfb: 'experimental_time_to_first_byte',
+  rtt: 'round_trip_time',
+} as const;
+
+// LCP image subparts in the order they occur during a page load.
+export const LCP_SUBPARTS: { key: LcpSubpartKey; cruxName: string; label: string }[] = [
+  { key: 'ttfb', cruxName: 'largest_contentful_paint_image_time_to_first_byte', label: 'Time to First Byte' },
+  { key: 'loadDelay', cruxName: 'largest_contentful_paint_image_resource_load_delay', label: 'Resource Load Delay' },
+  { key: 'loadDuration', cruxName: 'largest_contentful_paint_image_resource_load_duration', label: 'Resource Load Duration' },
+  { key: 'renderDelay', cruxName: 'largest_contentful_paint_image_element_render_delay', label: 'Element Render Delay' },
+];
+
+// Navigation types in display order, with labels and chart colours.
+export const NAVIGATION_TYPES: { key: NavigationType; label: string; color: string }[] = [
+  { key: 'navigate', label: 'Navigate', color: '#818cf8' },
+  { key: 'navigate_cache', label: 'Navigate (HTTP cache)', color: '#38bdf8' },
+  { key: 'reload', label: 'Reload', color: '#f59e0b' },
+  { key: 'restore', label: 'Restore', color: '#a1a1aa' },
+  { key: 'back_forward', label: 'Back/Forward (bfcache miss)', color: '#ef4444' },
+  { key: 'back_forward_cache', label: 'Back/Forward (bfcache hit)', color: '#10b981' },
+  { key: 'prerender', label: 'Prerender', color: '#f472b6' },
+];
+
+/**
+ * Official p75 thresholds. A value <= `good` is Good, <= `poor` is Needs Improvement,
+ * anything above is Poor. These match the CrUX histogram bin boundaries.
+ * https://web.dev/articles/vitals  |  https://developer.chrome.com/docs/crux/methodology/metrics
+ */
+export const METRIC_THRESHOLDS: Record<MetricKey, { good: number; poor: number }> = {
+  lcp: { good: 2500, poor: 4000 },
+  cls: { good: 0.1, poor: 0.25 },
+  inp: { good: 200, poor: 500 },
+  fcp: { good: 1800, poor: 3000 },
+  ttfb: { good: 800, poor: 1800 },
+  rtt: { good: 75, poor: 275 },
+};
+
+/**
+ * Weights of the composite health score (see services/scoring.ts): the share of Good
+ * experiences of each Core Web Vital counts equally.
+ */
+export const HEALTH_SCORE_WEIGHTS: Partial<Record<MetricKey, number>> = {
+  lcp: 1 / 3,
+  cls: 1 / 3,
+  inp: 1 / 3,
+};
+
+// Title and what the user can do about each CrUX failure, shown in the logs, the error view and MCP tool errors.
+export const CRUX_ERRORS: Record<CrUXErrorCode, { title: string; guidance: string }> = {
+  NOT_FOUND: { title: 'No CrUX Data', guidance: 'CrUX only publishes origins and pages with enough real Chrome traffic. Try the origin instead of a single page, another form factor, or a higher-traffic site.' },
+  INVALID_KEY: { title: 'API Key Rejected', guidance: 'The API key was rejected. Check that it was copied in full and that the Chrome UX Report API is enabled in its Google Cloud project.' },
+  QUOTA_EXCEEDED: { title: 'Quota Exceeded', guidance: 'The CrUX API allows 150 queries per minute per project. Wait a minute and retry, or audit fewer sites or form factors at once.' },
+  PROXY_MISCONFIGURED: { title: 'Proxy Misconfigured', guidance: 'The Apps Script proxy did not return CrUX data. Check that the URL is the /exec Web App URL, that it is deployed with access set to "Anyone", and that the CRUX_API_KEY script property is set.' },
+  NETWORK: { title: 'Network Failure', guidance: 'The request never got a response. Check your connection; for a proxy URL, a deployment that is not public also fails this way because of CORS.' },
+  UNKNOWN: { title: 'Unexpected CrUX Error', guidance: 'CrUX returned an unexpected error. Transient server errors usually clear on retry; the logged message includes the explanation from the API.' },
 };
 
 export const INITIAL_LOGS: LogEntry[] = [
@@ -0,0 +1,128 @@
+/**
+ * auditFacts.ts - Citable figures for the follow-up chat
+ *
+ * RESPONSIBILITY:
+ * Flattens a completed audit (the AnalysisResult, including every history point, and
+ * the Historian and Interpreter output kept in Session Memory) into a numbered list of
+ * facts. The chat prompt contains only these facts, and answers cite them by id as
+ * "[F12]"; citations are resolved back to the facts here, so the UI shows exactly
+ * which numbers an answer relied on, and ids the model made up are dropped.
+ */
+
+import { AnalysisResult, AuditContext, AuditFact, AuditFactKind, FormFactor, MetricKey } from '../types';
+import { LCP_SUBPARTS, METRIC_KEYS } from '../constants';
+import { listFormFactors } from './cruxService';
+import { deriveNavigationHints } from './navigationInsights';
+import { formatScore } from './scoring';
+
+const RATING_LABELS = { good: 'Good', 'needs-improvement': 'Needs Improvement', poor: 'Poor' } as const;
+
+const CITATION_PATTERN = /\[(F\d+)\]/g;
+
+const formatValue = (metric: MetricKey, value: number) =>
+    metric === 'cls' ? value.toFixed(2) : `${Math.round(value)}ms`;
+
+const pct = (share: number) => `${(share * 100).toFixed(1)}%`;
+
+// Weekly slopes are often well under a millisecond, so they keep a decimal.
+const formatSlope = (metric: MetricKey, slope: number) =>
+    metric === 'cls' ? Math.abs(slope).toFixed(3) : `${Math.abs(slope).toFixed(1)}ms`;
+
+/**
+ * Identifies an audit's conversation: the target and the collection period of every
+ * form factor, so a rerun on the same data continues the same conversation.
+ */
+export const getChatSessionKey = (analysis: AnalysisResult): string =>
+    `${analysis.domain}|${Object.values(analysis.formFactors).map(ff => `${ff.formFactor}@${ff.collectionPeriod}`).sort().join(',')}`;
+
+export const buildAuditFacts = ({ analysis, historian, report }: AuditContext): AuditFact[] => {
+    const facts: AuditFact[] = [];
+    const add = (kind: AuditFactKind, formFactor: FormFactor | null, metric: MetricKey | null, label: string, value: string) =>
+        facts.push({ id: `F${facts.length + 1}`, kind, formFactor, metric, label, value });
+
+    const share = analysis.trafficShare;
+    if (share) add('traffic', null, null, 'Traffic share by device', `Mobile ${pct(share.phone)}, Desktop ${pct(share.desktop)}, Tablet ${pct(share.tablet)}`);
+
+    for (const { key, label, data } of listFormFactors(analysis)) {
+        const scope = data.scope === 'origin' && analysis.scope === 'url' ? ' (origin-level fallback)' : '';
+        add('assessment', key, null, `${label} Core Web Vitals assessment${scope}`,
+            `${data.assessment.passes ? 'Passed' : 'Failed'}, health score ${formatScore(data.assessment.score)}`);
+
+        for (const metric of METRIC_KEYS) {
+            const { value, rating, distribution, budget } = data.metrics[metric];
+            const name = `${label} ${metric.toUpperCase()}`;
+            add('current', key, metric, `${name} p75, current period (${data.collectionPeriod})${scope}`, value === null ? 'no data' : `${formatValue(metric, value)} (${RATING_LABELS[rating]})`);
+            if (distribution) {
+                add('distribution', key, metric, `${name} rating distribution, current period`,
+                    `Good ${pct(distribution.good)}, Needs Improvement ${pct(distribution.needsImprovement)}, Poor ${pct(distribution.poor)}`);
+            }
+            if (budget) {
+                add('budget', key, metric, `${name} budget (${budget.pattern})`, `${formatValue(metric, budget.limit)}, ${budget.pass === null ? 'no data to check' : budget.pass ? 'within budget' : 'breached'}`);
+            }
+            for (const point of data.history.series[metric] ?? []) {
+                add('history', key, metric, `${name} p75, period ending ${point.period.end}`, point.value === null ? 'no data' : formatValue(metric, point.value));
+            }
+            const forecast = data.forecasts[metric];
+            if (forecast) {
+                add('forecast', key, metric, `${name} trend`, forecast.summary ?? `${formatSlope(metric, forecast.slopePerPeriod)} per ${forecast.cadence === 'monthly' ? 'month' : 'week'} ${forecast.slopePerPeriod >= 0 ? 'up' : 'down'}, no threshold crossing projected`);
+            }
+        }
+
+        for (const regression of data.regressions) {
+            add(regression.kind === 'budget' ? 'budget' : 'change', key, regression.metric, `${label} detected ${regression.kind}`, regression.summary);
+        }
+
+        const breakdown = data.lcpBreakdown;
+        if (breakdown) {
+            for (const part of LCP_SUBPARTS) {
+                const ms = breakdown.subparts[part.key];
+                if (ms === null) continue;
+                add('lcp-breakdown', key, 'lcp', `${label} LCP phase: ${part.label} p75${breakdown.dominant === part.key ? ' (dominant)' : ''}`, `${Math.round(ms)}ms`);
+            }
+        }
+        for (const hint of deriveNavigationHints(data.navigationTypes)) {
+            add('navigation', key, null, `${label} navigation hint`, hint);
+        }
+    }
+
+    if (historian) {
+        if (historian.summary) add('historian', null, null, 'Historian summary', historian.summary);
+        for (const finding of historian.findings) {
+            add('historian', finding.formFactor, finding.metric, `Historian ${finding.kind} finding`, finding.description);
+        }
+    }
+    if (report) {
+        if (report.executiveSummary) add('interpreter', null, null, 'Interpreter executive summary', report.executiveSummary);
+        if (report.deviceGap) add('interpreter', null, null, 'Interpreter device gap analysis', report.deviceGap);
+        report.recommendations.forEach((r, i) => {
+            add('interpreter', r.formFactor, r.metric, `Interpreter recommendation ${i + 1} (${r.priority} priority)`, r.title);
+        });
+    }
+    return facts;
+};
+
+export const describeFacts = (facts: AuditFact[]): string =>
+    facts.map(fact => `[${fact.id}] ${fact.label}: ${fact.value}`).join('\n');
+
+/**
+ * The facts an answer cites, in order of first mention. Ids that are not in `facts`
+ * are ignored.
+ */
+export const extractCitations = (text: string, facts: AuditFact[]): AuditFact[] => {
+    const byId = new Map(facts.map(fact => [fact.id, fact]));
+    const cited = new Map<string, AuditFact>();
+    for (const [, id] of text.matchAll(CITATION_PATTERN)) {
+        const fact = byId.get(id);
+        if (fact && !cited.has(id)) cited.set(id, fact);
+    }
+    return [...cited.values()];
+};
+
+/**
+ * Removes citation markers whose id is not among the facts, so the answer never
+ * points at a source that does not exist.
+ */
+export const stripUnknownCitations = (text: string, facts: AuditFact[]): string => {
+    const ids = new Set(facts.map(fact => fact.id));
+    return text.replace(CITATION_PATTERN, (marker, id) => ids.has(id) ? marker : '');
+};
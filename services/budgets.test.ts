@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { checkBudget, detectBudgetBreaches, matchesBudgetPattern, parseBudgets, resolveBudgetLimits } from './budgets';
+import { FormFactorAnalysis, MetricAnalysis, MetricKey, PerformanceBudget } from '../types';
+import { METRIC_KEYS } from '../constants';
+
+const budget = (pattern: string, formFactor: PerformanceBudget['formFactor'], limits: PerformanceBudget['limits']): PerformanceBudget =>
+    ({ id: pattern, pattern, formFactor, limits });
+
+describe('matchesBudgetPattern', () => {
+    it('ignores the scheme on either side', () => {
+        expect(matchesBudgetPattern('shop.example.com/checkout*', 'https://shop.example.com/checkout')).toBe(true);
+        expect(matchesBudgetPattern('https://shop.example.com/checkout*', 'shop.example.com/checkout/pay')).toBe(true);
+        expect(matchesBudgetPattern('http://shop.example.com', 'https://shop.example.com')).toBe(true);
+        expect(matchesBudgetPattern('shop.example.com', 'https://other.example.com')).toBe(false);
+    });
+
+    it('lets a trailing * match any rest, including nothing', () => {
+        expect(matchesBudgetPattern('https://example.com*', 'https://example.com')).toBe(true);
+        expect(matchesBudgetPattern('https://example.com*', 'https://example.com/a/b?c=1')).toBe(true);
+        expect(matchesBudgetPattern('https://example.com/blog*', 'https://example.com/shop')).toBe(false);
+    });
+
+    it('matches in full without a wildcard, ignoring trailing slashes and case', () => {
+        expect(matchesBudgetPattern('https://Example.com/', 'https://example.com')).toBe(true);
+        expect(matchesBudgetPattern('https://example.com/shop/', 'https://example.com/shop')).toBe(true);
+        expect(matchesBudgetPattern('https://example.com', 'https://example.com/shop')).toBe(false);
+    });
+
+    it('treats regex metacharacters literally', () => {
+        expect(matchesBudgetPattern('https://example.com/a+b?x=(1)', 'https://example.com/a+b?x=(1)')).toBe(true);
+        expect(matchesBudgetPattern('https://example.com/a+b', 'https://example.com/aab')).toBe(false);
+        expect(matchesBudgetPattern('https://example.com', 'https://exampleXcom')).toBe(false);
+    });
+
+    it('never matches an empty pattern', () => {
+        expect(matchesBudgetPattern('  ', 'https://example.com')).toBe(false);
+    });
+});
+
+describe('resolveBudgetLimits', () => {
+    it('prefers a device budget, then the longer pattern', () => {
+        const budgets = [
+            budget('https://shop.example.com*', null, { lcp: 3000, cls: 0.2 }),
+            budget('https://shop.example.com/checkout*', null, { lcp: 2500 }),
+            budget('shop.example.com*', 'PHONE', { lcp: 2000, inp: 150 }),
+        ];
+
+        expect(resolveBudgetLimits(budgets, 'https://shop.example.com/checkout', 'PHONE')).toEqual({
+            lcp: { limit: 2000, pattern: 'shop.example.com*' },
+            cls: { limit: 0.2, pattern: 'https://shop.example.com*' },
+            inp: { limit: 150, pattern: 'shop.example.com*' },
+        });
+        expect(resolveBudgetLimits(budgets, 'https://shop.example.com/checkout', 'DESKTOP')).toEqual({
+            lcp: { limit: 2500, pattern: 'https://shop.example.com/checkout*' },
+            cls: { limit: 0.2, pattern: 'https://shop.example.com*' },
+        });
+    });
+
+    it('does not count the scheme towards specificity', () => {
+        const budgets = [
+            budget('https://shop.example.com/c*', null, { lcp: 3000 }),
+            budget('shop.example.com/checkout*', null, { lcp: 2500 }),
+        ];
+        expect(resolveBudgetLimits(budgets, 'https://shop.example.com/checkout', 'PHONE').lcp?.limit).toBe(2500);
+    });
+});
+
+describe('checkBudget', () => {
+    it('leaves a metric without data unchecked instead of passing it', () => {
+        const limit = { limit: 800, pattern: 'https://example.com' };
+        expect(checkBudget(limit, null)).toEqual({ limit: 800, pass: null, pattern: 'https://example.com' });
+
+        const metrics = Object.fromEntries(METRIC_KEYS.map(key => [key, { value: null, rating: null, distribution: null, budget: null }])) as Record<MetricKey, MetricAnalysis>;
+        metrics.ttfb = { ...metrics.ttfb, budget: checkBudget(limit, null) };
+        expect(detectBudgetBreaches(metrics as FormFactorAnalysis['metrics'])).toEqual([]);
+    });
+});
+
+describe('parseBudgets', () => {
+    it('reads the exported shape and a bare array', () => {
+        const [parsed] = parseBudgets('{ "budgets": [{ "pattern": " https://example.com* ", "formFactor": "PHONE", "limits": { "lcp": 2000 } }] }');
+        expect(parsed).toMatchObject({ pattern: 'https://example.com*', formFactor: 'PHONE', limits: { lcp: 2000 } });
+        expect(parseBudgets('[{ "pattern": "example.com", "limits": { "cls": 0.1 } }]')[0].formFactor).toBeNull();
+    });
+
+    it.each([
+        ['invalid JSON', '{ budgets: [', 'not valid JSON'],
+        ['no budgets array', '{ "limits": {} }', 'Expected an array'],
+        ['a missing pattern', '[{ "limits": { "lcp": 2000 } }]', '"pattern"'],
+        ['an unknown form factor', '[{ "pattern": "a", "formFactor": "WATCH", "limits": { "lcp": 2000 } }]', 'unknown formFactor'],
+        ['an unknown metric', '[{ "pattern": "a", "limits": { "tbt": 200 } }]', 'unknown metric'],
+        ['a non-positive limit', '[{ "pattern": "a", "limits": { "lcp": 0 } }]', 'positive number'],
+        ['no limits', '[{ "pattern": "a", "limits": {} }]', 'at least one limit'],
+    ])('rejects %s', (_, text, message) => {
+        expect(() => parseBudgets(text)).toThrow(message);
+    });
+});
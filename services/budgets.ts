@@ -0,0 +1,161 @@
+/**
+ * budgets.ts - Internal performance budgets per origin and form factor
+ *
+ * RESPONSIBILITY:
+ * Holds the p75 limits product teams set on top of Google's thresholds, matches them
+ * to the audited target and device, checks the metrics against them and turns
+ * breaches into findings. Budgets are kept in localStorage and shared between
+ * browsers as JSON files.
+ *
+ * MATCHING:
+ * A pattern is compared against the audited input, so a page audit that falls back
+ * to origin data is still held to the page's budget. When several budgets set the
+ * same metric the most specific one wins: a budget for one form factor beats one for
+ * every device, then the pattern with more literal characters beats the shorter one.
+ */
+
+import { BudgetCheck, FormFactor, FormFactorAnalysis, MetricKey, PerformanceBudget, Regression } from '../types';
+import { FORM_FACTORS, METRIC_KEYS } from '../constants';
+
+const STORAGE_KEY = 'crux_agent_budgets';
+
+// Metrics offered in the budget editor. RTT reflects the visitors' networks, not the site.
+export const BUDGET_METRICS: MetricKey[] = ['lcp', 'cls', 'inp', 'fcp', 'ttfb'];
+
+export interface BudgetLimit {
+    limit: number;
+    pattern: string;
+}
+
+export type BudgetLimits = Partial<Record<MetricKey, BudgetLimit>>;
+
+const formatValue = (metric: MetricKey, value: number) =>
+    metric === 'cls' ? value.toFixed(2) : `${Math.round(value)}ms`;
+
+// Lowercase, without the scheme or trailing slashes, so "shop.example.com/checkout*"
+// and "https://shop.example.com/checkout" compare equal.
+const normalizeTarget = (value: string) =>
+    value.trim().toLowerCase().replace(/^[a-z][a-z0-9+.-]*:\/\//, '').replace(/\/+$/, '');
+
+export const createBudgetId = () => `budget-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * True when `target` matches `pattern` in full. `*` matches any run of characters;
+ * case, the scheme and trailing slashes are ignored.
+ */
+export const matchesBudgetPattern = (pattern: string, target: string): boolean => {
+    const normalized = normalizeTarget(pattern);
+    if (!normalized) return false;
+    const source = normalized.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${source}$`).test(normalizeTarget(target));
+};
+
+const specificity = (budget: PerformanceBudget) =>
+    (budget.formFactor ? 10_000 : 0) + normalizeTarget(budget.pattern).replace(/\*/g, '').length;
+
+/**
+ * Picks the limit for every metric that a matching budget sets, most specific budget first.
+ */
+export const resolveBudgetLimits = (budgets: PerformanceBudget[], target: string, formFactor: FormFactor): BudgetLimits => {
+    const limits: BudgetLimits = {};
+    const matching = budgets
+        .filter(budget => (budget.formFactor === null || budget.formFactor === formFactor) && matchesBudgetPattern(budget.pattern, target))
+        .sort((a, b) => specificity(b) - specificity(a));
+
+    for (const budget of matching) {
+        for (const metric of METRIC_KEYS) {
+            const limit = budget.limits[metric];
+            if (limit === undefined || limits[metric]) continue;
+            limits[metric] = { limit, pattern: budget.pattern };
+        }
+    }
+    return limits;
+};
+
+/**
+ * Checks a p75 against its budget. A metric without data is neither within nor over
+ * budget, so `pass` is null.
+ */
+export const checkBudget = (budget: BudgetLimit | undefined, value: number | null): BudgetCheck | null =>
+    budget ? { limit: budget.limit, pass: value === null ? null : value <= budget.limit, pattern: budget.pattern } : null;
+
+/**
+ * Lists every metric over its budget as a 'budget' finding, alongside the
+ * regression detector's output.
+ */
+export const detectBudgetBreaches = (metrics: FormFactorAnalysis['metrics']): Regression[] =>
+    METRIC_KEYS.flatMap(metric => {
+        const { value, budget } = metrics[metric];
+        if (!budget || budget.pass !== false) return [];
+        const relativeChange = budget.limit > 0 ? (value - budget.limit) / budget.limit : null;
+        const overBy = relativeChange === null ? '' : ` (+${Math.round(relativeChange * 100)}%)`;
+        return [{
+            metric,
+            kind: 'budget' as const,
+            start: null,
+            end: null,
+            from: budget.limit,
+            to: value,
+            relativeChange,
+            signalToNoise: null,
+            summary: `${metric.toUpperCase()} ${formatValue(metric, value)} exceeds the ${formatValue(metric, budget.limit)} budget for ${budget.pattern}${overBy}`,
+        }];
+    });
+
+/**
+ * Reads budgets from JSON: either `{ "budgets": [...] }` as written by
+ * `serializeBudgets`, or a bare array. Throws with the first problem found.
+ */
+export const parseBudgets = (text: string): PerformanceBudget[] => {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error('Budgets file is not valid JSON.');
+    }
+    const list = Array.isArray(parsed) ? parsed : parsed?.budgets;
+    if (!Array.isArray(list)) throw new Error('Expected an array of budgets or an object with a "budgets" array.');
+
+    return list.map((item: any, i: number): PerformanceBudget => {
+        const where = `Budget ${i + 1}`;
+        if (typeof item?.pattern !== 'string' || !item.pattern.trim()) throw new Error(`${where}: "pattern" must be an origin or URL pattern.`);
+
+        const formFactor = item.formFactor ?? null;
+        if (formFactor !== null && !FORM_FACTORS.some(f => f.key === formFactor)) {
+            throw new Error(`${where}: unknown formFactor "${formFactor}" (use ${FORM_FACTORS.map(f => f.key).join(', ')} or null).`);
+        }
+
+        const limits: PerformanceBudget['limits'] = {};
+        for (const [metric, limit] of Object.entries(item.limits ?? {})) {
+            if (!METRIC_KEYS.includes(metric as MetricKey)) throw new Error(`${where}: unknown metric "${metric}".`);
+            if (typeof limit !== 'number' || !(limit > 0)) throw new Error(`${where}: the ${metric} limit must be a positive number.`);
+            limits[metric as MetricKey] = limit;
+        }
+        if (Object.keys(limits).length === 0) throw new Error(`${where}: set at least one limit.`);
+
+        return { id: typeof item.id === 'string' ? item.id : createBudgetId(), pattern: item.pattern.trim(), formFactor, limits };
+    });
+};
+
+// Budgets without a pattern or a limit are still being edited; they are neither saved nor exported.
+const isComplete = (budget: PerformanceBudget) => budget.pattern.trim() !== '' && Object.keys(budget.limits).length > 0;
+
+export const serializeBudgets = (budgets: PerformanceBudget[]): string =>
+    JSON.stringify({ budgets: budgets.filter(isComplete).map(({ pattern, formFactor, limits }) => ({ pattern, formFactor, limits })) }, null, 2);
+
+export const loadBudgets = (): PerformanceBudget[] => {
+    if (typeof localStorage === 'undefined') return [];
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return [];
+    try {
+        return parseBudgets(saved);
+    } catch (e) {
+        console.warn('Ignoring saved budgets:', e);
+        return [];
+    }
+};
+
+export const saveBudgets = (budgets: PerformanceBudget[]) => {
+    if (typeof localStorage === 'undefined') return;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(budgets.filter(isComplete)));
+};
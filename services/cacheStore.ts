@@ -0,0 +1,171 @@
+/**
+ * cacheStore.ts - Persistent cache for CrUX responses and generated reports
+ *
+ * RESPONSIBILITY:
+ * Keeps results across reloads in IndexedDB so a rerun never spends CrUX quota or
+ * Gemini tokens on data that has not changed. Two stores are kept separately:
+ * - 'crux':    raw CrUX API payloads, keyed by record key, form factor and endpoint.
+ *              They expire after a TTL, or earlier once CrUX is due to publish the
+ *              next collection period, so a superseded period is never served.
+ * - 'reports': Historian notes and Interpreter markdown, keyed by the collection
+ *              period they were generated from, so a new period never reuses a stale report.
+ *
+ * If IndexedDB is unavailable (private browsing, blocked storage) every call
+ * degrades to a cache miss instead of failing the audit.
+ */
+
+import { AnalysisResult, FormFactorAnalysis } from '../types';
+
+const DB_NAME = 'crux-intelligence-cache';
+const DB_VERSION = 1;
+
+export type CacheStoreName = 'crux' | 'reports';
+
+const STORES: CacheStoreName[] = ['crux', 'reports'];
+
+export interface CacheEntry<T = unknown> {
+    key: string;
+    store: CacheStoreName;
+    // Human-readable description for the cache inspector.
+    label: string;
+    collectionPeriod: string | null;
+    storedAt: number;
+    expiresAt: number;
+    value: T;
+}
+
+// Listing metadata without the (potentially large) cached value.
+export type CacheEntrySummary = Omit<CacheEntry, 'value'> & { size: number };
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+const listeners = new Set<() => void>();
+
+const openDb = (): Promise<IDBDatabase | null> => {
+    if (!dbPromise) {
+        dbPromise = new Promise(resolve => {
+            if (typeof indexedDB === 'undefined') return resolve(null);
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                for (const name of STORES) {
+                    if (!request.result.objectStoreNames.contains(name)) {
+                        request.result.createObjectStore(name, { keyPath: 'key' });
+                    }
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                console.warn('Persistent cache unavailable:', request.error);
+                resolve(null);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+/**
+ * Runs one request against a store and resolves with its result once the
+ * transaction commits, or null if the cache is unavailable or the request fails.
+ */
+const withStore = async <T>(store: CacheStoreName, mode: IDBTransactionMode, action: (objectStore: IDBObjectStore) => IDBRequest<T>): Promise<T | null> => {
+    const db = await openDb();
+    if (!db) return null;
+    return new Promise(resolve => {
+        const transaction = db.transaction(store, mode);
+        const request = action(transaction.objectStore(store));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = transaction.onabort = () => {
+            console.warn(`Cache ${mode} on '${store}' failed:`, transaction.error);
+            resolve(null);
+        };
+    });
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+/**
+ * Subscribes to any write, delete or clear. Returns the unsubscribe function.
+ */
+export const onCacheChange = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+};
+
+// The budget limits applied to a form factor, e.g. "lcp<=2000;inp<=150".
+const describeBudgetLimits = (ff: FormFactorAnalysis): string =>
+    Object.entries(ff.metrics)
+        .filter(([, metric]) => metric.budget)
+        .map(([key, metric]) => `${key}<=${metric.budget!.limit}`)
+        .join(';');
+
+/**
+ * Report cache key: the audited target plus the collection period of every form factor
+ * it covers. When CrUX publishes a new period the key changes and a fresh report is generated.
+ * Budget limits are part of the key too, since the report discusses the breaches, and so is
+ * the model that wrote it, so switching provider or model does not serve another model's report.
+ */
+export const getReportCacheKey = (analysis: AnalysisResult, historyDepth: number, model: string): string => {
+    const periods = Object.values(analysis.formFactors)
+        .map(ff => {
+            const limits = describeBudgetLimits(ff);
+            return `${ff.formFactor}@${ff.collectionPeriod}${limits ? `[${limits}]` : ''}`;
+        })
+        .sort();
+    return `${analysis.domain}|${periods.join(',')}|${historyDepth}|${model}`;
+};
+
+/**
+ * Returns the cached value, or null on a miss. Expired entries are deleted on read.
+ */
+export const getCached = async <T>(store: CacheStoreName, key: string): Promise<T | null> => {
+    const entry = await withStore<CacheEntry<T> | undefined>(store, 'readonly', s => s.get(key));
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+        await deleteCached(store, key);
+        return null;
+    }
+    return entry.value;
+};
+
+export const putCached = async <T>(
+    store: CacheStoreName,
+    key: string,
+    value: T,
+    meta: { label: string; collectionPeriod: string | null; ttlMs: number }
+): Promise<void> => {
+    const storedAt = Date.now();
+    const entry: CacheEntry<T> = {
+        key,
+        store,
+        label: meta.label,
+        collectionPeriod: meta.collectionPeriod,
+        storedAt,
+        expiresAt: storedAt + meta.ttlMs,
+        value,
+    };
+    await withStore(store, 'readwrite', s => s.put(entry));
+    notify();
+};
+
+export const deleteCached = async (store: CacheStoreName, key: string): Promise<void> => {
+    await withStore(store, 'readwrite', s => s.delete(key));
+    notify();
+};
+
+/**
+ * Empties one store, or both when no store is given.
+ */
+export const clearCache = async (store?: CacheStoreName): Promise<void> => {
+    await Promise.all((store ? [store] : STORES).map(name => withStore(name, 'readwrite', s => s.clear())));
+    notify();
+};
+
+/**
+ * Lists every entry in both stores (newest first), without the cached values.
+ */
+export const listCached = async (): Promise<CacheEntrySummary[]> => {
+    const all = await Promise.all(STORES.map(name => withStore<CacheEntry[]>(name, 'readonly', s => s.getAll())));
+    return all
+        .flatMap(entries => entries || [])
+        .map(({ value, ...entry }) => ({ ...entry, size: JSON.stringify(value ?? null).length }))
+        .sort((a, b) => b.storedAt - a.storedAt);
+};
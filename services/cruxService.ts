@@ -2,214 +2,561 @@
  * cruxService.ts - Toolbelt for the Query Agent
  * 
  * RESPONSIBILITY:
- * This service implements the tools required by the Query Agent to interface with the CrUX API.
- * It handles the logic for both direct API calls and proxied requests.
+ * This service implements the tools required by the Query Agent to interface with the CrUX API:
+ * error classification, the shared request scheduler and cache, and the processing of raw
+ * CrUX responses into an analysis. Where the responses come from is abstracted behind
+ * `CrUXDataSource` (see dataSources.ts).
  * 
  * ADK PATTERN: PARALLEL TOOL EXECUTION
  * The `fetchCrUXData` function demonstrates a parallel pattern by fanning out
- * simultaneous requests for both PHONE and DESKTOP data, then aggregating (fanning in)
- * the results into a single context object for the next agent.
+ * simultaneous requests for every requested form factor (PHONE, DESKTOP, TABLET and the
+ * combined record), then aggregating (fanning in) the results into a single context
+ * object for the next agent.
  */
 
-import { CRUX_API_BASE, CRUX_HISTORY_API_BASE } from '../constants';
-import { AnalysisResult, CrUXResponse, CrUXHistoryResponse, FormFactorAnalysis, CrUXDate } from '../types';
+import { CRUX_ERRORS, METRIC_THRESHOLDS, LCP_SUBPARTS, METRIC_KEYS, CRUX_METRIC_NAMES, FORM_FACTORS, DEFAULT_FORM_FACTORS, NAVIGATION_TYPES, DEFAULT_HISTORY_DEPTH, MAX_HISTORY_DEPTH, DEFAULT_REQUESTS_PER_MINUTE, CRUX_CACHE_TTL_MS, CRUX_PUBLICATION_LAG_DAYS, CRUX_REVALIDATE_MS } from '../constants';
+import { detectRegressions } from './regressionDetector';
+import { BudgetLimits, checkBudget, detectBudgetBreaches, resolveBudgetLimits } from './budgets';
+import { assessCoreWebVitals } from './scoring';
+import { forecastMetrics } from './forecast';
+import { RequestScheduler, parseRetryAfter } from './requestScheduler';
+import { getCached, putCached } from './cacheStore';
+import { AnalysisResult, SummarizedAnalysis, CrUXQueryOptions, FormFactor, TrafficShare, CrUXResponse, CrUXHistoryResponse, FormFactorAnalysis, CrUXDate, AuditScope, MetricKey, MetricAnalysis, MetricRating, LcpBreakdown, LcpSubpartKey, PercentileMetricValue, MetricValue, CrUXHistoryMetric, RatingDistribution, NavigationAnalysis, NavigationTypeFractions, HistoryWindow, PeriodCadence, PeriodRange, TimeSeries, TimeSeriesPoint, CrUXErrorCode, CrUXErrorInfo, CrUXDataSource, CrUXRecordQuery } from '../types';
 
 /**
- * Robust fetch wrapper to handle network instability or GAS throttling.
+ * Base class for every failure talking to CrUX, directly or through the proxy.
+ * Carries the HTTP status and the API's error body (when there was one) so the
+ * UI and the MCP tools can explain what went wrong and what to do about it.
  */
-const fetchWithRetry = async (url: string, retries = 1): Promise<Response> => {
+export class CrUXError extends Error {
+    readonly code: CrUXErrorCode = 'UNKNOWN';
+    // Delay the server asked for before retrying (`Retry-After`), when it sent one.
+    retryAfterMs: number | null = null;
+
+    constructor(message: string, readonly status: number | null = null, readonly body: unknown = null) {
+        super(message);
+        this.name = new.target.name;
+    }
+
+    toJSON(): CrUXErrorInfo {
+        return {
+            code: this.code,
+            message: this.message,
+            status: this.status,
+            body: this.body,
+            guidance: CRUX_ERRORS[this.code].guidance,
+        };
+    }
+}
+
+/**
+ * CrUX has no record for the requested key (HTTP 404 / NOT_FOUND), usually because
+ * the origin or page lacks enough traffic. Triggers the page -> origin fallback.
+ */
+export class CrUXNotFoundError extends CrUXError {
+    readonly code = 'NOT_FOUND';
+}
+
+export class CrUXInvalidKeyError extends CrUXError {
+    readonly code = 'INVALID_KEY';
+}
+
+export class CrUXQuotaError extends CrUXError {
+    readonly code = 'QUOTA_EXCEEDED';
+}
+
+export class CrUXProxyError extends CrUXError {
+    readonly code = 'PROXY_MISCONFIGURED';
+}
+
+export class CrUXNetworkError extends CrUXError {
+    readonly code = 'NETWORK';
+}
+
+/**
+ * Serializable form of any error, for logs, failed sites and tool responses.
+ * Errors that did not come from CrUX are reported as UNKNOWN.
+ */
+export const toCrUXErrorInfo = (error: unknown): CrUXErrorInfo =>
+    error instanceof CrUXError
+        ? error.toJSON()
+        : new CrUXError(error instanceof Error ? error.message : String(error)).toJSON();
+
+/**
+ * Maps a Google API error ({code, message, status, details}) to the matching CrUXError.
+ */
+const classifyApiError = (httpStatus: number, apiError: any, context: string): CrUXError => {
+    const status = Number(apiError?.code) || httpStatus;
+    const reason = apiError?.status;
+    const detail = apiError?.message ? `: ${apiError.message}` : '';
+    const keyRejected = (apiError?.details || []).some((d: any) => d?.reason === 'API_KEY_INVALID') || /api key/i.test(apiError?.message || '');
+
+    if (status === 404 || reason === 'NOT_FOUND') {
+        return new CrUXNotFoundError(`No CrUX data for ${context}`, 404, apiError);
+    }
+    if (status === 429 || reason === 'RESOURCE_EXHAUSTED') {
+        return new CrUXQuotaError(`CrUX API quota exceeded${detail}`, status, apiError);
+    }
+    if (status === 401 || status === 403 || reason === 'PERMISSION_DENIED' || keyRejected) {
+        return new CrUXInvalidKeyError(`CrUX API rejected the key${detail}`, status, apiError);
+    }
+    return new CrUXError(`CrUX API error (HTTP ${status})${detail}`, status, apiError);
+};
+
+/**
+ * Returns the matching CrUXError for a CrUX response (direct or proxied) that is not
+ * a usable payload, or null. The proxy always answers HTTP 200 with the upstream
+ * error object in the body, and its own failures as `{ error: "message" }`.
+ */
+const toResponseError = (res: Response, json: any, isProxy: boolean, context: string): CrUXError | null => {
+    if (isProxy) {
+        if (!res.ok) return new CrUXProxyError(`Proxy responded with HTTP ${res.status}`, res.status, json);
+        // A Google sign-in page instead of JSON means the deployment is not public.
+        if (json === null) return new CrUXProxyError('Proxy returned a non-JSON response', res.status);
+        if (typeof json.error === 'string') return new CrUXProxyError(`Proxy error: ${json.error}`, res.status, json);
+    }
+
+    if (!res.ok || json?.error) return classifyApiError(res.status, json?.error ?? json, context);
+    return null;
+};
+
+const readCrUXResponse = async (res: Response, isProxy: boolean, context: string): Promise<any> => {
+    const json = await res.json().catch(() => null);
+    const error = toResponseError(res, json, isProxy, context);
+    if (!error) return json;
+    error.retryAfterMs = parseRetryAfter(res.headers.get('Retry-After'));
+    throw error;
+};
+
+/**
+ * Decides whether an input should be audited as a whole origin or as a single page.
+ * Anything with a path beyond "/", a query string or a fragment is treated as a page URL.
+ */
+export const detectAuditScope = (input: string): AuditScope => {
     try {
-        return await fetch(url, {
-            method: 'GET',
-            credentials: 'omit' // Critical for GAS Proxy CORS (Cross-Origin Resource Sharing)
-        });
-    } catch (err) {
-        if (retries > 0) {
-            console.log(`Retrying fetch... (${retries} left)`);
-            await new Promise(r => setTimeout(r, 1000));
-            return fetchWithRetry(url, retries - 1);
-        }
-        throw err;
+        const parsed = new URL(input);
+        const hasPath = parsed.pathname !== '' && parsed.pathname !== '/';
+        return hasPath || parsed.search || parsed.hash ? 'url' : 'origin';
+    } catch {
+        return 'origin';
+    }
+};
+
+export const toOrigin = (input: string): string => {
+    try {
+        return new URL(input).origin;
+    } catch {
+        return input;
     }
 };
 
+export const PROXY_REQUEST: RequestInit = {
+    method: 'GET',
+    credentials: 'omit' // Critical for GAS Proxy CORS (Cross-Origin Resource Sharing)
+};
+
+/**
+ * The shared scheduler every CrUX request goes through (direct and proxied).
+ * Quota errors, network failures and 5xx responses are retried with backoff;
+ * everything else (not found, bad key, misconfigured proxy) fails immediately.
+ */
+export const cruxScheduler = new RequestScheduler({
+    requestsPerMinute: DEFAULT_REQUESTS_PER_MINUTE,
+    maxRetries: 4,
+    baseDelayMs: 1000,
+    maxDelayMs: 30_000,
+    isRetryable: error =>
+        error instanceof CrUXQuotaError ||
+        error instanceof CrUXNetworkError ||
+        (error instanceof CrUXError && error.code === 'UNKNOWN' && (error.status ?? 0) >= 500),
+    getRetryAfterMs: error => (error instanceof CrUXError ? error.retryAfterMs : null),
+});
+
+/**
+ * One scheduled CrUX request: fetch plus response parsing, so a quota error in the
+ * body (as the proxy reports it) is retried just like an HTTP 429.
+ * A request that never gets a response becomes a CrUXNetworkError. Only the host
+ * is reported, so API keys in the query string never reach the logs.
+ */
+const requestCrUX = (label: string, url: string, init: RequestInit, isProxy: boolean, context: string): Promise<any> =>
+    cruxScheduler.run(label, async () => {
+        let res: Response;
+        try {
+            res = await fetch(url, init);
+        } catch (err: any) {
+            throw new CrUXNetworkError(`Could not reach ${new URL(url).host}: ${err?.message || 'request failed'}`);
+        }
+        return readCrUXResponse(res, isProxy, context);
+    });
+
+/**
+ * Last day of the newest collection period in a record or history payload.
+ */
+const latestPeriodEnd = (payload: any): string | null => {
+    const period = payload?.record?.collectionPeriod ?? payload?.record?.collectionPeriods?.at(-1);
+    return period?.lastDate ? formatDate(period.lastDate) : null;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How long a payload may be cached: the TTL, cut short when CrUX is due to publish the
+ * period after the newest one it holds. Records advance daily and history weekly, so a
+ * cached record is never served once a newer period exists.
+ */
+const cacheLifetime = (payload: any, periodEnd: string | null): number => {
+    if (!periodEnd) return CRUX_CACHE_TTL_MS;
+    const stepDays = payload?.record?.collectionPeriods ? 7 : 1;
+    const due = Date.parse(`${periodEnd}T00:00:00Z`) + (stepDays + CRUX_PUBLICATION_LAG_DAYS) * DAY_MS;
+    return Math.min(CRUX_CACHE_TTL_MS, Math.max(CRUX_REVALIDATE_MS, due - Date.now()));
+};
+
+/**
+ * Serves a CrUX request from the persistent cache when it is still fresh, so a rerun
+ * spends no quota. `cacheKey` identifies the record, never the credentials, so direct
+ * and proxied requests share entries. Entries expire when the next collection period
+ * is due (see cacheLifetime). Failures are not cached.
+ */
+export const requestCrUXCached = async (cacheKey: string, label: string, url: string, init: RequestInit, isProxy: boolean, context: string): Promise<any> => {
+    const cached = await getCached<any>('crux', cacheKey);
+    if (cached) return cached;
+
+    const payload = await requestCrUX(label, url, init, isProxy, context);
+    const collectionPeriod = latestPeriodEnd(payload);
+    await putCached('crux', cacheKey, payload, { label, collectionPeriod, ttlMs: cacheLifetime(payload, collectionPeriod) });
+    return payload;
+};
+
 /**
  * fetchRawData
  * 
  * DESIGN:
  * This function acts as a Tool Abstraction. The Query Agent calls this once per form factor.
- * Internally, it decides whether to use the Secure Proxy or Direct API.
+ * Where the data comes from (CrUX API, a proxy or an offline import) is up to the
+ * data source (see dataSources.ts); every source answers with CrUX API response shapes.
  * 
  * BEHAVIOR:
- * - If using Proxy: It constructs a URL that triggers the Google Apps Script.
- * - If using Proxy: It fires parallel requests for 'fetch' (Record) and 'history' (Trends).
+ * - The record ('fetch') and history requests are fired in parallel.
+ * - A failed history request is reported as `historyError`; the record alone still produces an analysis.
+ * - `historyDepth` is passed to the history request only.
  */
-const fetchRawData = async (domain: string, apiKeyOrProxy: string, formFactor: 'PHONE' | 'DESKTOP') => {
-    let currentData: CrUXResponse;
-    let historyData: CrUXHistoryResponse | null = null;
-    
-    const cleanKey = apiKeyOrProxy.trim();
-    const isProxy = cleanKey.startsWith('http');
+const fetchRawData = async (source: CrUXDataSource, query: CrUXRecordQuery, historyDepth: number) => {
+    const context = `${query.target} (${query.formFactor})`;
 
-    if (isProxy) {
-        const separator = cleanKey.includes('?') ? '&' : '?';
-        const baseUrl = `${cleanKey}${separator}origin=${encodeURIComponent(domain)}&formFactor=${formFactor}`;
+    // Parallel Tool Call Simulation
+    // We define these as separate promises to emulate the Agent triggering two tools at once
+    const [record, history] = await Promise.allSettled([
+        source.fetchRecord(query),
+        source.fetchHistory(query, historyDepth),
+    ]);
+    if (record.status === 'rejected') throw record.reason;
+    const currentData = record.value;
+    let historyData = history.status === 'fulfilled' ? history.value : null;
+    const historyError = history.status === 'rejected' ? toCrUXErrorInfo(history.reason) : null;
 
-        // Parallel Tool Call Simulation
-        try {
-            // We define these as separate promises to emulate the Agent triggering two tools at once
-            // UPDATED: Using 'fetch' and 'history' endpoints to match v5 GAS Code
-            const recordPromise = fetchWithRetry(`${baseUrl}&endpoint=fetch`); 
-            const historyPromise = fetchWithRetry(`${baseUrl}&endpoint=history`); 
-
-            const [recordRes, historyRes] = await Promise.all([recordPromise, historyPromise]);
-            
-            if (!recordRes.ok) throw new Error(`Proxy HTTP ${recordRes.status}`);
-            
-            const json = await recordRes.json().catch(() => ({ error: "Invalid JSON" }));
-            if (json.error) throw new Error(`Proxy Error: ${JSON.stringify(json.error)}`);
-            
-            currentData = json as CrUXResponse;
-
-            if (historyRes.ok) {
-                const historyJson = await historyRes.json();
-                if (!historyJson.error && historyJson.record) {
-                    historyData = historyJson as CrUXHistoryResponse;
-                }
-            }
-
-        } catch (e: any) {
-            // Fallback for simple errors
-             if (e.message === 'Failed to fetch') {
-                 throw new Error(`Connection Failed. Check Proxy URL and Permissions.`);
-            }
-            throw e;
-        }
+    if (!currentData?.record?.metrics) throw new CrUXNotFoundError(`No metrics found for ${context}`, null, currentData);
+    // A record without collection periods is as good as no history at all.
+    if (historyData && !historyData.record) historyData = null;
 
-    } else {
-        // Direct API Mode (Fallback for local dev with API Keys)
-        const currentRes = await fetch(`${CRUX_API_BASE}?key=${cleanKey}`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ origin: domain, formFactor })
-        });
+    return { currentData, historyData, historyError, scope: query.scope };
+};
 
-        if (!currentRes.ok) throw new Error(`CrUX API Error`);
-        currentData = await currentRes.json();
+/**
+ * Fetches page-level data when requested, falling back to the page's origin
+ * if CrUX has no record for that URL and form factor.
+ */
+const fetchRawDataWithFallback = async (source: CrUXDataSource, target: string, formFactor: FormFactor, scope: AuditScope, historyDepth: number) => {
+    if (scope === 'origin') return fetchRawData(source, { target, scope, formFactor }, historyDepth);
 
-        try {
-            const historyRes = await fetch(`${CRUX_HISTORY_API_BASE}?key=${cleanKey}`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ origin: domain, formFactor })
-            });
-            if (historyRes.ok) historyData = await historyRes.json();
-        } catch (e) { console.warn("History fetch failed"); }
+    try {
+        return await fetchRawData(source, { target, scope, formFactor }, historyDepth);
+    } catch (e) {
+        if (!(e instanceof CrUXNotFoundError)) throw e;
+        console.warn(`No page-level data for ${target} (${formFactor}). Falling back to origin.`);
+        return fetchRawData(source, { target: toOrigin(target), scope: 'origin', formFactor }, historyDepth);
     }
-    
-    if (!currentData?.record?.metrics) throw new Error(`No metrics found for ${domain} (${formFactor})`);
+};
 
-    return { currentData, historyData };
+/**
+ * Rates a p75 value against the official thresholds for that metric.
+ */
+export const rateMetric = (metric: MetricKey, val: number): MetricRating => {
+    const { good, poor } = METRIC_THRESHOLDS[metric];
+    return val <= good ? 'good' : val <= poor ? 'needs-improvement' : 'poor';
+};
+
+/**
+ * Converts the three-bin CrUX histogram into good / needs-improvement / poor shares.
+ * CrUX bins are aligned with the official thresholds, so bin order == rating order.
+ */
+const toDistribution = (densities: (number | string | undefined)[]): RatingDistribution | null => {
+    const [good, needsImprovement, poor] = densities.map(d => Number(d));
+    if (![good, needsImprovement, poor].every(d => isFinite(d))) return null;
+    return { good, needsImprovement, poor };
+};
+
+const extractDistribution = (metric?: MetricValue): RatingDistribution | null =>
+    metric?.histogram?.length === 3 ? toDistribution(metric.histogram.map(bin => bin.density)) : null;
+
+const formatDate = (d: CrUXDate) => `${d.year}-${String(d.month).padStart(2, '0')}-${String(d.day).padStart(2, '0')}`;
+
+const extractPeriods = (history: CrUXHistoryResponse | null): PeriodRange[] =>
+    history?.record.collectionPeriods?.map(period => ({
+        start: formatDate(period.firstDate),
+        end: formatDate(period.lastDate),
+    })) ?? [];
+
+/**
+ * Pairs each collection period with the value at the same index.
+ * Missing or non-numeric entries become explicit null points instead of being dropped.
+ */
+const toTimeSeries = <T>(periods: PeriodRange[], valueAt: (index: number) => T | null): TimeSeries<T> =>
+    periods.map((period, i) => ({ period, value: valueAt(i) }));
+
+const extractPercentileSeries = (metric: CrUXHistoryMetric | undefined, periods: PeriodRange[]): TimeSeries => {
+    const p75s = metric?.percentilesTimeseries?.p75s;
+    return toTimeSeries(periods, i => {
+        // p75s can be strings (CLS) or numbers (LCP/INP), with nulls for periods without data
+        const raw = p75s?.[i];
+        const value = raw === null || raw === undefined ? NaN : Number(raw);
+        return isFinite(value) ? value : null;
+    });
+};
+
+const extractDistributionSeries = (metric: CrUXHistoryMetric | undefined, periods: PeriodRange[]): TimeSeries<RatingDistribution> => {
+    const bins = metric?.histogramTimeseries;
+    return toTimeSeries(periods, i => bins?.length === 3 ? toDistribution(bins.map(bin => bin.densities[i])) : null);
+};
+
+/**
+ * Returns the first and last points of a series that carry data, or null when
+ * fewer than two periods have data.
+ */
+export const getSeriesEndpoints = <T>(series: TimeSeries<T>): [TimeSeriesPoint<T>, TimeSeriesPoint<T>] | null => {
+    const withData = series.filter(point => point.value !== null);
+    return withData.length >= 2 ? [withData[0], withData[withData.length - 1]] : null;
+};
+
+/**
+ * Extracts the LCP image subparts and LCP resource-type split.
+ * The record API returns these alongside the core metrics when no `metrics` filter is sent.
+ * Returns null when CrUX publishes none of them (common for low-traffic pages).
+ */
+const extractLcpBreakdown = (metrics: CrUXResponse['record']['metrics']): LcpBreakdown | null => {
+    const subparts = {} as Record<LcpSubpartKey, number | null>;
+    for (const { key, cruxName } of LCP_SUBPARTS) {
+        const raw = (metrics as Record<string, PercentileMetricValue | undefined>)[cruxName]?.percentiles.p75;
+        const value = raw === undefined || raw === null ? NaN : Number(raw);
+        subparts[key] = isFinite(value) ? value : null;
+    }
+
+    const fractions = metrics.largest_contentful_paint_resource_type?.fractions;
+    const resourceType = fractions ? { image: Number(fractions.image) || 0, text: Number(fractions.text) || 0 } : null;
+
+    const measured = LCP_SUBPARTS.filter(({ key }) => subparts[key] !== null);
+    if (measured.length === 0 && !resourceType) return null;
+
+    const dominant = measured.length > 0
+        ? measured.reduce((max, part) => subparts[part.key]! > subparts[max.key]! ? part : max).key
+        : null;
+
+    return { subparts, dominant, resourceType };
+};
+
+/**
+ * Extracts the navigation type mix (current snapshot + per-period history).
+ * Missing categories are treated as 0 so every fractions object is complete.
+ */
+const extractNavigationTypes = (current: CrUXResponse, history: CrUXHistoryResponse | null): NavigationAnalysis | null => {
+    const fractions = current.record.metrics.navigation_types?.fractions;
+    if (!fractions) return null;
+
+    const toFractions = (get: (key: string) => unknown) => {
+        const result = {} as NavigationTypeFractions;
+        for (const { key } of NAVIGATION_TYPES) {
+            const value = Number(get(key));
+            result[key] = isFinite(value) ? value : 0;
+        }
+        return result;
+    };
+
+    const timeseries = history?.record.metrics.navigation_types?.fractionTimeseries;
+    const trend = toTimeSeries(extractPeriods(history), i => {
+        const hasData = NAVIGATION_TYPES.some(({ key }) => isFinite(Number(timeseries?.[key]?.fractions[i] ?? NaN)));
+        return hasData ? toFractions(key => timeseries[key]?.fractions[i]) : null;
+    });
+
+    return { current: toFractions(key => fractions[key]), trend };
+};
+
+// True for a period from the first to the last day of one month.
+const isCalendarMonth = (period: PeriodRange) =>
+    period.start.endsWith('-01') &&
+    period.start.slice(0, 7) === period.end.slice(0, 7) &&
+    new Date(Date.parse(`${period.end}T00:00:00Z`) + DAY_MS).getUTCDate() === 1;
+
+/**
+ * Derives the cadence from the period dates: CrUX API periods are 28-day windows, so
+ * only history made of whole calendar months (a BigQuery export) is monthly.
+ */
+export const periodCadence = (periods: PeriodRange[]): PeriodCadence =>
+    periods.length > 0 && periods.every(isCalendarMonth) ? 'monthly' : 'weekly';
+
+/**
+ * Derives the window covered by a history series from the periods CrUX returned.
+ */
+export const getHistoryWindow = (periods: PeriodRange[]): HistoryWindow | null => {
+    if (periods.length === 0) return null;
+    return {
+        periods: periods.length,
+        cadence: periodCadence(periods),
+        start: periods[0].start,
+        end: periods[periods.length - 1].end,
+    };
+};
+
+export const formatHistoryWindow = (window: HistoryWindow | null): string =>
+    window
+        ? `the last ${window.periods} ${window.cadence} collection period${window.periods === 1 ? '' : 's'} (${window.start} to ${window.end})`
+        : 'the current collection period only (no history available)';
+
+/**
+ * What one collection period covers, for prompts that explain the dated points.
+ */
+export const describeCadence = (cadence: PeriodCadence): string =>
+    cadence === 'monthly'
+        ? 'calendar months, each keyed by the last day of the month'
+        : 'rolling 28-day windows that advance weekly, each keyed by the last day of the window';
+
+/**
+ * Rates the p75 (75th percentile, the standard for Web Vitals) of one metric. A metric
+ * missing from the record is left without a value or rating instead of a Good 0.
+ */
+const analyzeMetric = (key: MetricKey, metric: MetricValue | undefined, budgets: BudgetLimits): MetricAnalysis => {
+    const p75 = metric?.percentiles?.p75;
+    // p75s can be strings (CLS) or numbers.
+    const value = p75 === undefined || p75 === null || !isFinite(Number(p75)) ? null : Number(p75);
+    return {
+        value,
+        rating: value === null ? null : rateMetric(key, value),
+        distribution: value === null ? null : extractDistribution(metric),
+        budget: checkBudget(budgets[key], value),
+    };
 };
 
 /**
  * Standardizes the data for the "Interpretation Agent"
  * Converts raw Google JSON into a clean internal interface (FormFactorAnalysis).
  */
-const processRawData = (current: CrUXResponse, history: CrUXHistoryResponse | null): FormFactorAnalysis => {
+const processRawData = (current: CrUXResponse, history: CrUXHistoryResponse | null, historyError: CrUXErrorInfo | null, scope: AuditScope, formFactor: FormFactor, budgets: BudgetLimits): FormFactorAnalysis => {
     const metrics = current.record.metrics;
     const historyMetrics = history?.record.metrics;
-    const historyCollectionPeriods = history?.record.collectionPeriods;
+    const periods = extractPeriods(history);
+    const cadence = periodCadence(periods);
     
-    // Extract P75 (75th Percentile) - The standard for Web Vitals
-    const lcp = metrics.largest_contentful_paint?.percentiles.p75 || 0;
-    const cls = metrics.cumulative_layout_shift?.percentiles.p75 || 0;
-    const inp = metrics.interaction_to_next_paint?.percentiles.p75 || 0;
-
-    // Rating Helpers based on Google Web Vitals thresholds
-    const rateLCP = (val: number) => val <= 2500 ? 'good' : val <= 4000 ? 'needs-improvement' : 'poor';
-    const rateCLS = (val: number) => val <= 0.1 ? 'good' : val <= 0.25 ? 'needs-improvement' : 'poor';
-    const rateINP = (val: number) => val <= 200 ? 'good' : val <= 500 ? 'needs-improvement' : 'poor';
-
-    const getTrend = (historyMetric: any, currentMetric: number | string) => {
-        const trendData = historyMetric?.percentilesTimeseries.p75s;
-        if (Array.isArray(trendData)) {
-            // Handle cases where p75s can be strings (CLS) or numbers (LCP/INP)
-            return trendData
-                .map(x => (x === null ? null : Number(x))) // Convert all values to numbers or null
-                .filter((x): x is number => x !== null && isFinite(x)); // Filter out any nulls or NaNs
-        }
-        // Fallback for when history is not available
-        return [Number(currentMetric)];
-    };
 
-    const lcpTrend = getTrend(historyMetrics?.largest_contentful_paint, lcp);
-    const clsTrend = getTrend(historyMetrics?.cumulative_layout_shift, cls);
-    const inpTrend = getTrend(historyMetrics?.interaction_to_next_paint, inp);
-
-    const regressions: string[] = [];
-    
-    // Simple regression heuristic (The Historian Agent will do deeper analysis via LLM later)
-    if (lcpTrend.length >= 4) {
-        const start = lcpTrend[0];
-        const end = lcpTrend[lcpTrend.length - 1];
-        if (start > 0 && end > start * 1.15) {
-            const diff = Math.round(((end - start) / start) * 100);
-            regressions.push(`LCP degraded by ${diff}%`);
-        }
+    // One point per collection period; periods without data stay in the series as nulls.
+    const series = {} as FormFactorAnalysis['history']['series'];
+    const distributions: FormFactorAnalysis['history']['distributions'] = {};
+    for (const key of METRIC_KEYS) {
+        series[key] = extractPercentileSeries(historyMetrics?.[CRUX_METRIC_NAMES[key]], periods);
+        distributions[key] = extractDistributionSeries(historyMetrics?.[CRUX_METRIC_NAMES[key]], periods);
     }
 
-    if (rateLCP(lcp) === 'poor') regressions.push(`LCP is Poor (${lcp}ms)`);
-    if (rateCLS(Number(cls)) === 'poor') regressions.push(`CLS is Poor (${cls})`);
-    if (rateINP(inp) === 'poor') regressions.push(`INP is Poor (${inp}ms)`);
-
-    const formatDate = (d: CrUXDate) => `${d.year}-${String(d.month).padStart(2, '0')}-${String(d.day).padStart(2, '0')}`;
 
     // Extract Collection Period
     const cp = current.record.collectionPeriod;
     const collectionPeriod = cp ? `${formatDate(cp.firstDate)} to ${formatDate(cp.lastDate)}` : 'Unknown';
 
-    // Generate dates for the timeline chart
-    const dates = historyCollectionPeriods?.map(period => 
-        `${formatDate(period.firstDate)} to ${formatDate(period.lastDate)}`
-    );
+    const analyzedMetrics = Object.fromEntries(METRIC_KEYS.map(key =>
+        [key, analyzeMetric(key, metrics[CRUX_METRIC_NAMES[key]] as MetricValue | undefined, budgets)]
+    )) as FormFactorAnalysis['metrics'];
+
+    return {
+      formFactor,
+      metrics: analyzedMetrics,
+      history: { periods, cadence, series, distributions },
+      forecasts: forecastMetrics(series, cadence),
+      lcpBreakdown: extractLcpBreakdown(metrics),
+      navigationTypes: extractNavigationTypes(current, history),
+      // Step changes, drifts and Poor ratings across every metric (see regressionDetector),
+      // followed by breaches of the internal budgets (see budgets).
+      regressions: [...detectRegressions(series, analyzedMetrics, cadence), ...detectBudgetBreaches(analyzedMetrics)],
+      assessment: assessCoreWebVitals(analyzedMetrics),
+      historyError,
+      collectionPeriod,
+      scope
+    };
+};
 
+/**
+ * Reads the device traffic split from the combined record's `form_factors` metric.
+ */
+const extractTrafficShare = (current: CrUXResponse): TrafficShare | null => {
+    const fractions = current.record.metrics.form_factors?.fractions;
+    if (!fractions) return null;
     return {
-      metrics: {
-        lcp: { value: lcp, rating: rateLCP(lcp) },
-        cls: { value: Number(cls), rating: rateCLS(Number(cls)) },
-        inp: { value: inp, rating: rateINP(inp) },
-      },
-      history: { lcpTrend, clsTrend, inpTrend, dates },
-      regressions,
-      collectionPeriod
+        phone: Number(fractions.phone) || 0,
+        desktop: Number(fractions.desktop) || 0,
+        tablet: Number(fractions.tablet) || 0,
     };
 };
 
+/**
+ * Lists the form factors present in an analysis, in display order, with their labels.
+ * Works on the full analysis and on the Interpreter's summarized one alike.
+ */
+export const listFormFactors = <A extends SummarizedAnalysis>(analysis: A) =>
+    FORM_FACTORS
+        .filter(({ key }) => analysis.formFactors[key])
+        .map(({ key, label }) => ({ key, label, data: analysis.formFactors[key]! as NonNullable<A['formFactors'][FormFactor]> }));
+
 /**
  * Main tool export for the Query Agent.
+ * The audit scope (origin vs. page) is detected from the input itself.
+ * Form factors without CrUX data (common for TABLET) are dropped rather than failing
+ * the audit; it only fails if none of the requested form factors have data.
  */
-export const fetchCrUXData = async (domain: string, apiKeyOrProxy: string): Promise<AnalysisResult> => {
-  if (!apiKeyOrProxy) throw new Error("API Key missing");
+export const fetchCrUXData = async (domain: string, source: CrUXDataSource, options: CrUXQueryOptions = {}): Promise<AnalysisResult> => {
+  const scope = detectAuditScope(domain);
+  const requested = options.formFactors?.length ? options.formFactors : DEFAULT_FORM_FACTORS;
+  const historyDepth = Math.min(Math.max(Math.round(options.historyDepth ?? DEFAULT_HISTORY_DEPTH), 1), MAX_HISTORY_DEPTH);
 
   try {
     // This tool executes the parallel data fetching logic.
-    const [phoneRaw, desktopRaw] = await Promise.all([
-        fetchRawData(domain, apiKeyOrProxy, 'PHONE'),
-        fetchRawData(domain, apiKeyOrProxy, 'DESKTOP')
-    ]);
+    const settled = await Promise.allSettled(
+        requested.map(formFactor => fetchRawDataWithFallback(source, domain, formFactor, scope, historyDepth))
+    );
 
-    const phoneAnalysis = processRawData(phoneRaw.currentData, phoneRaw.historyData);
-    const desktopAnalysis = processRawData(desktopRaw.currentData, desktopRaw.historyData);
+    const formFactors: AnalysisResult['formFactors'] = {};
+    let trafficShare: TrafficShare | null = null;
+
+    settled.forEach((outcome, i) => {
+        const formFactor = requested[i];
+        if (outcome.status === 'rejected') {
+            if (outcome.reason instanceof CrUXNotFoundError) return;
+            throw outcome.reason;
+        }
+        const raw = outcome.value;
+        const budgets = resolveBudgetLimits(options.budgets ?? [], domain, formFactor);
+        formFactors[formFactor] = processRawData(raw.currentData, raw.historyData, raw.historyError, raw.scope, formFactor, budgets);
+        if (formFactor === 'ALL_FORM_FACTORS') trafficShare = extractTrafficShare(raw.currentData);
+    });
+
+    if (Object.keys(formFactors).length === 0) {
+        throw new CrUXNotFoundError(`No CrUX data found for ${domain} on any requested form factor (${requested.join(', ')})`, 404);
+    }
 
     return {
         domain,
-        phone: phoneAnalysis,
-        desktop: desktopAnalysis
+        scope,
+        origin: toOrigin(domain),
+        formFactors,
+        trafficShare
     };
 
   } catch (error) {
     console.error("Audit Failed:", error);
     throw error;
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,233 @@
+/**
+ * dataSources.ts - Pluggable CrUX data sources for the Query Agent
+ *
+ * RESPONSIBILITY:
+ * Implements `CrUXDataSource` for every place CrUX data can come from:
+ * - DirectApiSource:       the CrUX API, authenticated with an API key.
+ * - AppsScriptProxySource: the Google Apps Script proxy from the README (GET, `endpoint=fetch|history`).
+ * - HttpProxySource:       any proxy that mirrors the CrUX REST API (POST `/records:queryRecord`
+ *                          and `/records:queryHistoryRecord`) and injects the key server-side.
+ * - OfflineSource:         data imported from saved JSON or BigQuery exports (see offlineImport.ts).
+ * - SimulationSource:      built-in fixtures for fictional origins (see simulationFixtures.ts).
+ *
+ * Network sources go through the shared scheduler and persistent cache in cruxService,
+ * so quota limits, retries and caching apply to all of them alike.
+ */
+
+import { CRUX_API_BASE, CRUX_HISTORY_API_BASE } from '../constants';
+import { CrUXDataSource, CrUXHistoryResponse, CrUXRecordKey, CrUXRecordQuery, CrUXResponse, DataSourceKind, OfflineDataset } from '../types';
+import { CrUXInvalidKeyError, CrUXNotFoundError, CrUXProxyError, PROXY_REQUEST, requestCrUXCached, toOrigin } from './cruxService';
+import { getOfflineRecord, sliceHistory } from './offlineImport';
+import { SIMULATION_FIXTURES, getSimulationFixture } from './simulationFixtures';
+
+// Labels for the data source picker, in display order.
+export const DATA_SOURCES: { kind: DataSourceKind; label: string; placeholder: string }[] = [
+    { kind: 'direct', label: 'CrUX API Key', placeholder: 'Paste your CrUX API key' },
+    { kind: 'apps-script', label: 'Apps Script Proxy', placeholder: 'https://script.google.com/macros/s/.../exec' },
+    { kind: 'http-proxy', label: 'HTTP Proxy', placeholder: 'https://proxy.example.com/v1' },
+    { kind: 'offline', label: 'Offline Import', placeholder: '' },
+    { kind: 'simulation', label: 'Simulation (no key)', placeholder: '' },
+];
+
+// The combined record is requested by leaving formFactor out of the key.
+const toRecordKey = ({ target, scope, formFactor }: CrUXRecordQuery): CrUXRecordKey => ({
+    ...(scope === 'url' ? { url: target } : { origin: target }),
+    ...(formFactor === 'ALL_FORM_FACTORS' ? {} : { formFactor }),
+});
+
+const describeQuery = (query: CrUXRecordQuery) => `${query.target} (${query.formFactor})`;
+
+// Cache keys identify the record, not the source, so every network source shares entries.
+const recordCacheKey = (query: CrUXRecordQuery) => `${query.scope}|${query.target}|${query.formFactor}|record`;
+const historyCacheKey = (query: CrUXRecordQuery, historyDepth: number) => `${query.scope}|${query.target}|${query.formFactor}|history|${historyDepth}`;
+
+const postJson = (body: object): RequestInit => ({
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+});
+
+export class DirectApiSource implements CrUXDataSource {
+    readonly kind = 'direct';
+    readonly label = 'CrUX API';
+
+    constructor(private apiKey: string) {}
+
+    fetchRecord(query: CrUXRecordQuery): Promise<CrUXResponse> {
+        const context = describeQuery(query);
+        return requestCrUXCached(recordCacheKey(query), `${context} record`, `${CRUX_API_BASE}?key=${this.apiKey}`, postJson(toRecordKey(query)), false, context);
+    }
+
+    fetchHistory(query: CrUXRecordQuery, historyDepth: number): Promise<CrUXHistoryResponse> {
+        const context = describeQuery(query);
+        return requestCrUXCached(
+            historyCacheKey(query, historyDepth),
+            `${context} history`,
+            `${CRUX_HISTORY_API_BASE}?key=${this.apiKey}`,
+            postJson({ ...toRecordKey(query), collectionPeriodCount: historyDepth }),
+            false,
+            context
+        );
+    }
+}
+
+/**
+ * The Apps Script proxy always requires `origin`; adding `url` switches it to a
+ * page-level query. ALL_FORM_FACTORS is passed through and omitted upstream.
+ */
+export class AppsScriptProxySource implements CrUXDataSource {
+    readonly kind = 'apps-script';
+    readonly label = 'Apps Script proxy';
+
+    constructor(private proxyUrl: string) {}
+
+    fetchRecord(query: CrUXRecordQuery): Promise<CrUXResponse> {
+        const context = describeQuery(query);
+        return requestCrUXCached(recordCacheKey(query), `${context} record`, `${this.baseUrl(query)}&endpoint=fetch`, PROXY_REQUEST, true, context);
+    }
+
+    fetchHistory(query: CrUXRecordQuery, historyDepth: number): Promise<CrUXHistoryResponse> {
+        const context = describeQuery(query);
+        return requestCrUXCached(
+            historyCacheKey(query, historyDepth),
+            `${context} history`,
+            `${this.baseUrl(query)}&endpoint=history&collectionPeriodCount=${historyDepth}`,
+            PROXY_REQUEST,
+            true,
+            context
+        );
+    }
+
+    private baseUrl({ target, scope, formFactor }: CrUXRecordQuery): string {
+        const separator = this.proxyUrl.includes('?') ? '&' : '?';
+        const keyParams = scope === 'url'
+            ? `origin=${encodeURIComponent(toOrigin(target))}&url=${encodeURIComponent(target)}`
+            : `origin=${encodeURIComponent(target)}`;
+        return `${this.proxyUrl}${separator}${keyParams}&formFactor=${formFactor}`;
+    }
+}
+
+/**
+ * A proxy that forwards CrUX REST calls unchanged. Its responses, including HTTP
+ * error statuses, are read exactly like the CrUX API's own.
+ */
+export class HttpProxySource implements CrUXDataSource {
+    readonly kind = 'http-proxy';
+    readonly label: string;
+
+    constructor(private baseUrl: string) {
+        this.baseUrl = baseUrl.replace(/\/+$/, '');
+        this.label = `HTTP proxy (${new URL(this.baseUrl).host})`;
+    }
+
+    fetchRecord(query: CrUXRecordQuery): Promise<CrUXResponse> {
+        const context = describeQuery(query);
+        return requestCrUXCached(recordCacheKey(query), `${context} record`, `${this.baseUrl}/records:queryRecord`, postJson(toRecordKey(query)), false, context);
+    }
+
+    fetchHistory(query: CrUXRecordQuery, historyDepth: number): Promise<CrUXHistoryResponse> {
+        const context = describeQuery(query);
+        return requestCrUXCached(
+            historyCacheKey(query, historyDepth),
+            `${context} history`,
+            `${this.baseUrl}/records:queryHistoryRecord`,
+            postJson({ ...toRecordKey(query), collectionPeriodCount: historyDepth }),
+            false,
+            context
+        );
+    }
+}
+
+/**
+ * Serves imported records from memory. Nothing is requested or cached, so an
+ * offline audit never spends quota. Missing records behave like a CrUX 404,
+ * which keeps the page -> origin fallback working.
+ */
+export class OfflineSource implements CrUXDataSource {
+    readonly kind = 'offline';
+    readonly label: string;
+
+    constructor(private dataset: OfflineDataset) {
+        this.label = `Offline import (${Object.keys(dataset.records).length} records)`;
+    }
+
+    async fetchRecord(query: CrUXRecordQuery): Promise<CrUXResponse> {
+        const current = getOfflineRecord(this.dataset, query)?.current;
+        if (!current) throw new CrUXNotFoundError(`No imported CrUX record for ${describeQuery(query)}`, 404);
+        return current;
+    }
+
+    async fetchHistory(query: CrUXRecordQuery, historyDepth: number): Promise<CrUXHistoryResponse> {
+        const history = getOfflineRecord(this.dataset, query)?.history;
+        if (!history) throw new CrUXNotFoundError(`No imported CrUX history for ${describeQuery(query)}`, 404);
+        return sliceHistory(history, historyDepth);
+    }
+}
+
+/**
+ * Serves the built-in fixtures. Like the offline source it never touches the network;
+ * origins outside the fixture library answer like a CrUX 404.
+ */
+export class SimulationSource implements CrUXDataSource {
+    readonly kind = 'simulation';
+    readonly label = 'Simulation fixtures';
+
+    async fetchRecord(query: CrUXRecordQuery): Promise<CrUXResponse> {
+        const fixture = getSimulationFixture(query);
+        if (!fixture) throw new CrUXNotFoundError(`No simulated CrUX data for ${describeQuery(query)}. Simulated origins: ${SIMULATION_FIXTURES.map(f => f.origin).join(', ')}`, 404);
+        return fixture.record;
+    }
+
+    async fetchHistory(query: CrUXRecordQuery, historyDepth: number): Promise<CrUXHistoryResponse> {
+        const fixture = getSimulationFixture(query);
+        if (!fixture) throw new CrUXNotFoundError(`No simulated CrUX history for ${describeQuery(query)}`, 404);
+        return sliceHistory(fixture.history, historyDepth);
+    }
+}
+
+/**
+ * Default source for a saved config string, matching the behaviour before sources
+ * could be chosen: a URL is the Apps Script proxy and a key the direct API. With
+ * nothing configured the app starts in simulation mode.
+ */
+export const inferDataSourceKind = (config: string): DataSourceKind =>
+    !config.trim() ? 'simulation' : config.trim().startsWith('http') ? 'apps-script' : 'direct';
+
+/**
+ * Returns a problem with the configuration for `kind`, or null when it can be used.
+ */
+export const validateDataSource = (kind: DataSourceKind, config: string, dataset: OfflineDataset | null): string | null => {
+    const value = config.trim();
+    switch (kind) {
+        case 'direct':
+            return value ? null : 'Enter a CrUX API key.';
+        case 'apps-script':
+        case 'http-proxy':
+            return /^https?:\/\//i.test(value) ? null : 'Enter the proxy URL (starting with https://).';
+        case 'offline':
+            return dataset && Object.keys(dataset.records).length > 0 ? null : 'Import CrUX JSON or BigQuery rows first.';
+        case 'simulation':
+            return null;
+    }
+};
+
+export const createDataSource = (kind: DataSourceKind, config: string, dataset: OfflineDataset | null): CrUXDataSource => {
+    const problem = validateDataSource(kind, config, dataset);
+    const value = config.trim();
+    switch (kind) {
+        case 'direct':
+            if (problem) throw new CrUXInvalidKeyError(problem);
+            return new DirectApiSource(value);
+        case 'apps-script':
+            if (problem) throw new CrUXProxyError(problem);
+            return new AppsScriptProxySource(value);
+        case 'http-proxy':
+            if (problem) throw new CrUXProxyError(problem);
+            return new HttpProxySource(value);
+        case 'offline':
+            if (problem) throw new CrUXNotFoundError(problem);
+            return new OfflineSource(dataset!);
+        case 'simulation':
+            return new SimulationSource();
+    }
+};
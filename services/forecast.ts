@@ -0,0 +1,171 @@
+/**
+ * forecast.ts - Short-term projections of every p75 series
+ *
+ * RESPONSIBILITY:
+ * Projects each metric forward from its recent trend, with a confidence band, and
+ * estimates when that trend will cross the next rating boundary (Good / Needs
+ * Improvement / Poor). The Historian cites these projections and the trend charts
+ * draw them as a dashed extension.
+ *
+ * METHOD:
+ * - A straight line is fitted to the last FIT_PERIODS periods with data. A linear
+ *   trend is only a reasonable guess over a few months, so the projection stops at
+ *   FORECAST_HORIZON_PERIODS and no crossing further out is reported.
+ * - CrUX API periods are rolling 28-day windows advancing weekly, so neighbouring points
+ *   share most of their data. The residuals are therefore correlated, and the band
+ *   and the slope's significance use one independent sample per OVERLAP_PERIODS.
+ *   Monthly periods (BigQuery exports) do not overlap.
+ * - Projected periods, the crossing and the summary follow the cadence of the history.
+ * - The band is a ~90% prediction interval that widens with the distance from the data.
+ * - A crossing is only reported when the slope clears MIN_SLOPE_T, so a flat but
+ *   noisy series never "crosses" a boundary by chance.
+ */
+
+import { MetricForecast, MetricKey, PeriodCadence, PeriodRange, ThresholdCrossing, TimeSeries } from '../types';
+import { METRIC_KEYS, METRIC_THRESHOLDS } from '../constants';
+
+// Most recent periods with data that the trend is fitted to (about three months of weekly periods).
+const FIT_PERIODS = 12;
+// Fewest periods with data needed for a forecast.
+const MIN_FIT_PERIODS = 8;
+// Periods projected ahead, about three months either way.
+export const FORECAST_HORIZON_PERIODS: Record<PeriodCadence, number> = { weekly: 12, monthly: 3 };
+// Periods sharing data within one window: four weekly 28-day windows, calendar months none.
+const OVERLAP_PERIODS: Record<PeriodCadence, number> = { weekly: 4, monthly: 1 };
+// z-score of the two-sided ~90% band.
+const BAND_Z = 1.645;
+// The slope must be at least this many standard errors from zero to report a crossing.
+const MIN_SLOPE_T = 2;
+// RTT reflects the visitors' networks rather than the site, so no crossing is reported for it.
+const CROSSING_METRICS: MetricKey[] = METRIC_KEYS.filter(key => key !== 'rtt');
+
+const RATING_LABELS = { good: 'Good', 'needs-improvement': 'Needs Improvement', poor: 'Poor' } as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const addDays = (date: string, days: number) =>
+    new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+const toDate = (date: Date) => date.toISOString().slice(0, 10);
+
+// The period `count` periods after `period`: whole weeks, or whole calendar months.
+const shiftPeriod = (period: PeriodRange, count: number, cadence: PeriodCadence): PeriodRange => {
+    if (cadence === 'weekly') return { start: addDays(period.start, count * 7), end: addDays(period.end, count * 7) };
+    const [year, month] = period.start.split('-').map(Number);
+    return { start: toDate(new Date(Date.UTC(year, month - 1 + count, 1))), end: toDate(new Date(Date.UTC(year, month + count, 0))) };
+};
+
+const PERIOD_UNITS: Record<PeriodCadence, string> = { weekly: 'week', monthly: 'month' };
+
+/**
+ * A number of periods in words, e.g. "6 weeks" or "1 month".
+ */
+export const formatPeriodSpan = (count: number, cadence: PeriodCadence) =>
+    `${count} ${PERIOD_UNITS[cadence]}${count === 1 ? '' : 's'}`;
+
+interface LinearFit {
+    slope: number;
+    intercept: number;
+    // Residual standard deviation.
+    sigma: number;
+    meanX: number;
+    sumSquaresX: number;
+    n: number;
+}
+
+const fitLine = (points: { x: number; y: number }[]): LinearFit => {
+    const n = points.length;
+    const meanX = points.reduce((sum, p) => sum + p.x, 0) / n;
+    const meanY = points.reduce((sum, p) => sum + p.y, 0) / n;
+    const sumSquaresX = points.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+    const slope = points.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0) / sumSquaresX;
+    const intercept = meanY - slope * meanX;
+    const residuals = points.reduce((sum, p) => sum + (p.y - (intercept + slope * p.x)) ** 2, 0);
+    return { slope, intercept, sigma: Math.sqrt(residuals / Math.max(n - 2, 1)), meanX, sumSquaresX, n };
+};
+
+// Standard error of a new observation at x, with the sample size deflated for overlap.
+const predictionError = (fit: LinearFit, x: number, overlap: number) =>
+    fit.sigma * Math.sqrt(1 + overlap * (1 / fit.n + (x - fit.meanX) ** 2 / fit.sumSquaresX));
+
+/**
+ * The next rating boundary in the direction of the trend, or null when the metric is
+ * already at the end of the scale (Poor and worsening, Good and improving).
+ */
+const nextBoundary = (metric: MetricKey, value: number, slope: number) => {
+    const { good, poor } = METRIC_THRESHOLDS[metric];
+    const rating = value <= good ? 'good' : value <= poor ? 'needs-improvement' : 'poor';
+    if (slope > 0) {
+        if (rating === 'good') return { threshold: good, rating: 'needs-improvement' as const };
+        if (rating === 'needs-improvement') return { threshold: poor, rating: 'poor' as const };
+    } else if (slope < 0) {
+        if (rating === 'poor') return { threshold: poor, rating: 'needs-improvement' as const };
+        if (rating === 'needs-improvement') return { threshold: good, rating: 'good' as const };
+    }
+    return null;
+};
+
+const formatValue = (metric: MetricKey, value: number, digits = 2) =>
+    metric === 'cls' ? value.toFixed(digits) : `${Math.round(value)}ms`;
+
+/**
+ * Projects one series, or returns null when it has too few recent points.
+ */
+export const forecastSeries = (metric: MetricKey, series: TimeSeries, cadence: PeriodCadence): MetricForecast | null => {
+    const samples = series
+        .map((point, index) => ({ x: index, y: point.value, period: point.period }))
+        .filter((p): p is { x: number; y: number; period: PeriodRange } => p.y !== null)
+        .slice(-FIT_PERIODS);
+    if (samples.length < MIN_FIT_PERIODS) return null;
+
+    const fit = fitLine(samples);
+    const lastIndex = series.length - 1;
+    const lastPeriod = series[lastIndex].period;
+    const horizon = FORECAST_HORIZON_PERIODS[cadence];
+    const overlap = OVERLAP_PERIODS[cadence];
+
+    const points = Array.from({ length: horizon }, (_, i) => {
+        const x = lastIndex + i + 1;
+        const value = Math.max(fit.intercept + fit.slope * x, 0);
+        const margin = BAND_Z * predictionError(fit, x, overlap);
+        return { period: shiftPeriod(lastPeriod, i + 1, cadence), value, lower: Math.max(value - margin, 0), upper: value + margin };
+    });
+
+    const slopeError = fit.sigma * Math.sqrt(overlap / fit.sumSquaresX);
+    const significant = slopeError === 0 ? fit.slope !== 0 : Math.abs(fit.slope) / slopeError >= MIN_SLOPE_T;
+
+    let crossing: ThresholdCrossing | null = null;
+    const latest = samples[samples.length - 1].y;
+    const boundary = CROSSING_METRICS.includes(metric) && significant ? nextBoundary(metric, latest, fit.slope) : null;
+    if (boundary) {
+        const fittedNow = fit.intercept + fit.slope * lastIndex;
+        // Past the last period, and at least one period out when the fit has already crossed.
+        const periods = Math.max(Math.ceil((boundary.threshold - fittedNow) / fit.slope), 1);
+        if (periods <= horizon) {
+            crossing = { ...boundary, periods, period: shiftPeriod(lastPeriod, periods, cadence) };
+        }
+    }
+
+    return {
+        cadence,
+        slopePerPeriod: fit.slope,
+        points,
+        crossing,
+        summary: crossing
+            ? `${metric.toUpperCase()} is projected to become ${RATING_LABELS[crossing.rating]} in about ${formatPeriodSpan(crossing.periods, cadence)} ` +
+              `(period ending ${crossing.period.end}), crossing ${formatValue(metric, crossing.threshold)} at ${formatValue(metric, Math.abs(fit.slope), 3)} per ${PERIOD_UNITS[cadence]}`
+            : null,
+    };
+};
+
+/**
+ * Forecasts for every metric of a form factor; metrics with too little history are left out.
+ */
+export const forecastMetrics = (series: Record<MetricKey, TimeSeries>, cadence: PeriodCadence): Partial<Record<MetricKey, MetricForecast>> => {
+    const forecasts: Partial<Record<MetricKey, MetricForecast>> = {};
+    for (const metric of METRIC_KEYS) {
+        const forecast = forecastSeries(metric, series[metric] || [], cadence);
+        if (forecast) forecasts[metric] = forecast;
+    }
+    return forecasts;
+};
@@ -2,75 +2,384 @@
  * geminiService.ts - Toolbelt for Cognitive Agents
  * 
  * RESPONSIBILITY:
- * This service provides tools that interface with the Google Gemini API. These tools
- * are called by the higher-level "Cognitive Agents" (Historian, Interpreter) to
- * perform analysis and generate reports. Each function represents a distinct
- * capability in the agent's toolbelt.
+ * This service provides tools that interface with a language model (Gemini by default,
+ * or a local OpenAI-compatible server; see llmProviders.ts). These tools are called by
+ * the higher-level "Cognitive Agents" (Historian, Interpreter, Chat, Planner) to perform analysis and
+ * generate reports. Each function represents a distinct capability in the agent's toolbelt.
  */
 
-import { GoogleGenAI } from "@google/genai";
-import { AnalysisResult } from '../types';
+import { Schema, Type } from "@google/genai";
+import { AnalysisResult, AuditFact, BatchComparison, ChatMessage, CrUXQueryOptions, FailedSite, HistorianReport, HistoryWindow, InterpreterReport, LLMConfig, PeriodCadence, SiteRanking, StreamProgress, SummarizedAnalysis, SummarizedFormFactor } from '../types';
+import { LCP_SUBPARTS, METRIC_KEYS, FORM_FACTORS, DEFAULT_FORM_FACTORS, DEFAULT_HISTORY_DEPTH, MAX_HISTORY_DEPTH } from '../constants';
+import { listFormFactors, getHistoryWindow, formatHistoryWindow, describeCadence, getSeriesEndpoints } from './cruxService';
+import { deriveNavigationHints } from './navigationInsights';
+import { isHistoricalChange } from './regressionDetector';
+import { formatScore } from './scoring';
+import { RECOMMENDATION_RULE_IDS, describeRuleMatches, evaluateRecommendationRules, findSharedRules } from './recommendationRules';
+import { renderScoreboard } from './reportVerifier';
+import { FORECAST_HORIZON_PERIODS, formatPeriodSpan } from './forecast';
+import { simulateHistorianNotes, simulateInterpreterReport, simulateBatchComparison, simulateChatAnswer, simulatePlannerTurn } from './simulatedReports';
+import { describeFacts, extractCitations, stripUnknownCitations } from './auditFacts';
+import { DEFAULT_LLM_CONFIG, LLMMessage, LLMProvider, LLMRequest, LLMToolDeclaration, LLMToolResponse, createLLMProvider } from './llmProviders';
+import {
+    FORM_FACTOR_KEYS,
+    RECOMMENDATION_PRIORITIES,
+    TREND_FINDING_KINDS,
+    errorInterpreterReport,
+    parseHistorianReport,
+    parseInterpreterReport,
+    parsePartialInterpreterReport,
+    toInterpreterMarkdown,
+    TRUNCATED_NOTICE,
+} from './structuredReports';
 
-const getAI = () => {
-    const apiKey = process.env.API_KEY;
-    if (!apiKey) return null;
-    return new GoogleGenAI({ apiKey });
-}
+// Provider, model and temperature chosen in the config panel; App keeps this in sync.
+let llmConfig: LLMConfig = DEFAULT_LLM_CONFIG;
+
+export const setLLMConfig = (config: LLMConfig) => {
+    llmConfig = config;
+};
+
+const getProvider = () => createLLMProvider(llmConfig);
+
+// The configured temperature overrides each tool's default.
+const temperatureFor = (toolDefault: number) => llmConfig.temperature ?? toolDefault;
+
+/**
+ * Runs a streamed call and reports the text so far after every chunk. A stream that
+ * breaks off partway resolves with what arrived and `complete: false` instead of
+ * throwing, so the caller can still show it; a failure before any text is rethrown.
+ */
+const streamText = async (
+    provider: LLMProvider,
+    request: LLMRequest,
+    onChunk?: (text: string, tokens: number | null, chunks: number) => void
+): Promise<{ text: string; complete: boolean }> => {
+    let text = '';
+    let tokens: number | null = null;
+    let chunks = 0;
+    try {
+        for await (const chunk of provider.generateStream(request)) {
+            text += chunk.text;
+            tokens = chunk.tokens ?? tokens;
+            if (chunk.text) chunks++;
+            onChunk?.(text, tokens, chunks);
+        }
+        return { text, complete: true };
+    } catch (error) {
+        if (!text) throw error;
+        console.warn("LLM stream cut off:", error);
+        return { text, complete: false };
+    }
+};
+
+/**
+ * Whether reports come from a language model. Without a usable provider every tool
+ * returns the deterministic stand-in from simulatedReports.ts instead.
+ */
+export const isLLMConfigured = () => getProvider() !== null;
+
+/**
+ * Identifies the model that writes the reports, e.g. "Gemini (gemini-2.5-flash)", or
+ * null in simulation mode.
+ */
+export const getLLMLabel = () => getProvider()?.label ?? null;
+
+/**
+ * Describes what was actually audited so the agents don't present origin-wide
+ * numbers as if they belonged to a single page (or vice versa).
+ */
+const describeScope = (analysis: SummarizedAnalysis): string => {
+    if (analysis.scope === 'origin') return `Origin-level audit (all pages on ${analysis.origin}).`;
+
+    const fallbacks = listFormFactors(analysis)
+        .filter(({ data }) => data.scope === 'origin')
+        .map(({ label }) => label);
+
+    if (fallbacks.length === 0) return `Page-level audit of ${analysis.domain}.`;
+    return `Page-level audit of ${analysis.domain}. NOTE: CrUX has no page-level data for ${fallbacks.join(' and ')}, so those figures are ORIGIN-LEVEL fallbacks for ${analysis.origin}. Say so explicitly when citing them.`;
+};
+
+/**
+ * Summarizes which LCP phase dominates so recommendations can target it directly.
+ */
+const describeLcpBreakdown = (label: string, ff: SummarizedFormFactor): string => {
+    const breakdown = ff.lcpBreakdown;
+    if (!breakdown || !breakdown.dominant) return `${label}: no LCP subpart data available.`;
+
+    const parts = LCP_SUBPARTS
+        .map(part => `${part.label} ${breakdown.subparts[part.key] === null ? 'n/a' : `${Math.round(breakdown.subparts[part.key]!)}ms`}`)
+        .join(', ');
+    const dominant = LCP_SUBPARTS.find(part => part.key === breakdown.dominant)!.label;
+    const resourceType = breakdown.resourceType
+        ? ` LCP element is an image on ${Math.round(breakdown.resourceType.image * 100)}% of loads and text on ${Math.round(breakdown.resourceType.text * 100)}%.`
+        : '';
+    return `${label}: ${parts}. Dominant phase: **${dominant}**.${resourceType}`;
+};
+
+/**
+ * Lists how the Good and Poor buckets moved across the history window. A p75 that
+ * barely moved can hide a large shift in the poor bucket, so the Historian gets
+ * these figures precomputed rather than having to infer them from p75 alone.
+ */
+const describeDistributionShifts = (analysis: AnalysisResult): string => {
+    const pct = (share: number) => `${(share * 100).toFixed(1)}%`;
+    const lines: string[] = [];
+
+    for (const { label, data: ff } of listFormFactors(analysis)) {
+        for (const key of METRIC_KEYS) {
+            const endpoints = getSeriesEndpoints(ff.history.distributions[key] || []);
+            if (!endpoints) continue;
+            const [{ period: from, value: first }, { period: to, value: last }] = endpoints;
+            const poorDelta = (last!.poor - first!.poor) * 100;
+            lines.push(
+                `${label} ${key.toUpperCase()} (${from.end} -> ${to.end}): poor ${pct(first!.poor)} -> ${pct(last!.poor)} (${poorDelta >= 0 ? '+' : ''}${poorDelta.toFixed(1)} pts), good ${pct(first!.good)} -> ${pct(last!.good)}`
+            );
+        }
+    }
+
+    return lines.length > 0 ? lines.map(line => `- ${line}`).join('\n      ') : '- No histogram history available.';
+};
+
+/**
+ * Renders every p75 series as dated points (period end date: value), one line per
+ * form factor and metric. Periods without data are written out as "no data" so the
+ * model sees the gap instead of two unrelated weeks sitting side by side.
+ */
+const describeTrends = (analysis: AnalysisResult): string =>
+    listFormFactors(analysis)
+        .flatMap(({ label, data }) => METRIC_KEYS.map(key => {
+            const points = data.history.series[key]
+                .map(({ period, value }) => `${period.end}: ${value === null ? 'no data' : value}`)
+                .join(', ');
+            return `- ${label} ${key.toUpperCase()}${key === 'cls' ? '' : ' (ms)'}: ${points || 'no history'}`;
+        }))
+        .join('\n      ');
+
+/**
+ * Lists the step changes and drifts found by the regression detector, per device.
+ * These are the authoritative change points; the Historian explains them.
+ */
+const describeDetectedChanges = (analysis: AnalysisResult): string => {
+    const lines = listFormFactors(analysis).flatMap(({ label, data }) =>
+        data.regressions
+            .filter(isHistoricalChange)
+            .map(regression => `- ${label}: ${regression.summary}`)
+    );
+    return lines.length > 0 ? lines.join('\n      ') : '- None. Every series is stable within its noise.';
+};
+
+/**
+ * States the computed Core Web Vitals verdict and health score per device, so the
+ * Interpreter reports them instead of judging the three ratings itself.
+ */
+const describeAssessment = (analysis: SummarizedAnalysis): string =>
+    listFormFactors(analysis)
+        .map(({ label, data }) => {
+            const { passes, failing, score } = data.assessment;
+            const verdict = passes ? 'Passes' : `Fails${failing.length > 0 ? ` (${failing.map(m => m.toUpperCase()).join(', ')} not Good)` : ' (no data)'}`;
+            return `- ${label}: ${verdict}; health score ${formatScore(score)}/100`;
+        })
+        .join('\n    ');
+
+/**
+ * Lists the metrics over their internal budget per device, so the Interpreter can
+ * report them separately from Google's ratings.
+ */
+const describeBudgetBreaches = (analysis: SummarizedAnalysis): string => {
+    const formFactors = listFormFactors(analysis);
+    const budgeted = formFactors.some(({ data }) => METRIC_KEYS.some(key => data.metrics[key].budget));
+    if (!budgeted) return '- No internal budgets apply to this target.';
+    const lines = formFactors.flatMap(({ label, data }) =>
+        data.regressions
+            .filter(regression => regression.kind === 'budget')
+            .map(regression => `- ${label}: ${regression.summary}`)
+    );
+    // A budget on a metric without data is neither met nor breached; say so rather than "within budget".
+    const unchecked = formFactors.flatMap(({ label, data }) =>
+        METRIC_KEYS
+            .filter(key => data.metrics[key].budget?.pass === null)
+            .map(key => `- ${label}: no ${key.toUpperCase()} data, so its budget cannot be checked.`)
+    );
+    if (lines.length === 0 && unchecked.length === 0) return '- None. Every budgeted metric is within its budget.';
+    return [...(lines.length > 0 ? lines : ['- None of the checked metrics is over budget.']), ...unchecked].join('\n    ');
+};
+
+/**
+ * Lists the projected rating-boundary crossings per device (see forecast.ts).
+ */
+const describeForecasts = (analysis: AnalysisResult, cadence: PeriodCadence): string => {
+    const lines = listFormFactors(analysis).flatMap(({ label, data }) =>
+        Object.values(data.forecasts)
+            .filter(forecast => forecast.summary)
+            .map(forecast => `- ${label}: ${forecast.summary}`)
+    );
+    return lines.length > 0
+        ? lines.join('\n      ')
+        : `- None. No metric is projected to cross a rating boundary within ${formatPeriodSpan(FORECAST_HORIZON_PERIODS[cadence], cadence)}.`;
+};
+
+/**
+ * States how traffic splits across devices so the agents can weigh each gap by impact.
+ */
+const describeTrafficShare = (analysis: SummarizedAnalysis): string => {
+    const share = analysis.trafficShare;
+    if (!share) return 'Unknown (combined form-factor record not queried).';
+    const pct = (v: number) => `${Math.round(v * 100)}%`;
+    return `Mobile ${pct(share.phone)}, Desktop ${pct(share.desktop)}, Tablet ${pct(share.tablet)} of page loads.`;
+};
+
+/**
+ * The history window actually returned by CrUX (the longest across devices), so prompts
+ * never claim a span or cadence the data does not have.
+ */
+const longestHistoryWindow = (analysis: SummarizedAnalysis): HistoryWindow | null =>
+    listFormFactors(analysis)
+        .map(({ data }) => getHistoryWindow(data.history.periods))
+        .filter((w): w is HistoryWindow => w !== null)
+        .sort((a, b) => b.periods - a.periods)[0] ?? null;
+
+const describeHistoryWindow = (analysis: SummarizedAnalysis): string =>
+    formatHistoryWindow(longestHistoryWindow(analysis));
+
+/**
+ * Lists the deterministic navigation-type hints per device.
+ */
+const describeNavigationHints = (analysis: SummarizedAnalysis): string => {
+    const lines = listFormFactors(analysis).flatMap(({ label, data }) =>
+        deriveNavigationHints(data.navigationTypes).map(hint => `- ${label}: ${hint}`)
+    );
+    return lines.length > 0 ? lines.join('\n    ') : '- None.';
+};
+
+// Response schemas for structured output (translated to JSON Schema for local models); structuredReports.ts validates the result.
+const HISTORIAN_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        summary: { type: Type.STRING, description: 'One data-heavy paragraph for the Interpreter.' },
+        findings: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    kind: { type: Type.STRING, enum: TREND_FINDING_KINDS },
+                    formFactor: { type: Type.STRING, enum: FORM_FACTOR_KEYS },
+                    metric: { type: Type.STRING, enum: [...METRIC_KEYS], nullable: true },
+                    description: { type: Type.STRING },
+                },
+                required: ['kind', 'formFactor', 'description'],
+                propertyOrdering: ['kind', 'formFactor', 'metric', 'description'],
+            },
+        },
+    },
+    required: ['summary', 'findings'],
+    propertyOrdering: ['summary', 'findings'],
+};
+
+const INTERPRETER_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        executiveSummary: { type: Type.STRING },
+        deviceGap: { type: Type.STRING },
+        trendAnalysis: { type: Type.STRING },
+        recommendations: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    title: { type: Type.STRING, description: 'The fix, in one sentence.' },
+                    metric: { type: Type.STRING, enum: [...METRIC_KEYS] },
+                    formFactor: { type: Type.STRING, enum: FORM_FACTOR_KEYS },
+                    priority: { type: Type.STRING, enum: RECOMMENDATION_PRIORITIES },
+                    expectedImpact: { type: Type.STRING, description: 'What should improve and by roughly how much.' },
+                    rationale: { type: Type.STRING, description: 'The figures from the data that justify the fix.' },
+                    ruleId: { type: Type.STRING, enum: RECOMMENDATION_RULE_IDS, nullable: true, description: 'The rule engine match the fix follows.' },
+                },
+                required: ['title', 'metric', 'formFactor', 'priority', 'expectedImpact', 'rationale', 'ruleId'],
+                propertyOrdering: ['title', 'metric', 'formFactor', 'priority', 'expectedImpact', 'rationale', 'ruleId'],
+            },
+        },
+    },
+    required: ['executiveSummary', 'deviceGap', 'trendAnalysis', 'recommendations'],
+    propertyOrdering: ['executiveSummary', 'deviceGap', 'trendAnalysis', 'recommendations'],
+};
 
 /**
  * TOOL: analyzeTrend
  * Called by the Historian Agent to detect anomalies and regressions in time-series data.
- * It uses a low temperature for analytical precision.
+ * It uses a low temperature for analytical precision and returns a typed HistorianReport.
  */
-export const analyzeTrend = async (domain: string, analysis: AnalysisResult): Promise<string> => {
-    const ai = getAI();
-    if (!ai) return "Historian Analysis: Simulation Mode (No AI Key)";
+export const analyzeTrend = async (domain: string, analysis: AnalysisResult): Promise<HistorianReport> => {
+    const provider = getProvider();
+    if (!provider) return simulateHistorianNotes(analysis);
+
+    const historyWindow = describeHistoryWindow(analysis);
+    const cadence = longestHistoryWindow(analysis)?.cadence ?? 'weekly';
 
     const prompt = `
       You are the **CrUX Historian Agent**.
-      Your goal is to detect anomalies and regressions in time-series data from the last 25 weeks.
+      Your goal is to detect anomalies and regressions in time-series data from ${historyWindow}.
       
       **Target:** ${domain}
+      **Scope:** ${describeScope(analysis)}
+      **Traffic Share:** ${describeTrafficShare(analysis)}
       
-      **Data from the last 25 weeks:**
-      - Phone LCP Trend (ms): ${JSON.stringify(analysis.phone.history.lcpTrend)}
-      - Phone CLS Trend: ${JSON.stringify(analysis.phone.history.clsTrend)}
-      - Phone INP Trend (ms): ${JSON.stringify(analysis.phone.history.inpTrend)}
-      - Desktop LCP Trend (ms): ${JSON.stringify(analysis.desktop.history.lcpTrend)}
-      - Desktop CLS Trend: ${JSON.stringify(analysis.desktop.history.clsTrend)}
-      - Desktop INP Trend (ms): ${JSON.stringify(analysis.desktop.history.inpTrend)}
+      **Detected Changes (statistical change-point detection over ${historyWindow}):**
+      ${describeDetectedChanges(analysis)}
+
+      **Reference Data from ${historyWindow}** (one dated point per collection period; periods are ${describeCadence(cadence)}):
+      ${describeTrends(analysis)}
+
+      **Rating Distribution Shifts (first -> last period):**
+      ${describeDistributionShifts(analysis)}
+
+      **Forecasts (linear trend of the recent periods, projected up to ${formatPeriodSpan(FORECAST_HORIZON_PERIODS[cadence], cadence)} ahead):**
+      ${describeForecasts(analysis, cadence)}
 
       **Instructions:**
-      1. Analyze the trend stability for ALL THREE metrics (LCP, CLS, INP). Is it flat, volatile, or degrading?
-      2. Detect any sudden jumps (>10% change) in any metric.
-      3. Compare the stability of Mobile vs Desktop across all metrics.
-      4. Output a single, data-heavy paragraph of no more than 75 words focusing ONLY on the timeline from the last 25 weeks. Refer to it as "the last 25 weeks".
+      1. Interpret each detected change above: state when it began (by period end date), how large it was and, for steps, which periods it landed in. Do not report jumps that are not in the detected list; movement outside it is within noise. If the list is empty, say the trends are stable.
+      2. Use the reference points only to add context to the detected changes (e.g. whether a step has since partially recovered). "no data" marks a gap, not a zero.
+      3. Compare the stability of the devices against each other (${listFormFactors(analysis).map(f => f.label).join(', ')}) across all metrics.
+      4. Attribute LCP movement: if LCP and TTFB moved together, call it a server/backend regression; if LCP moved while TTFB stayed flat, call it a front-end regression. Use FCP to confirm, and treat RTT shifts as changes in the user network mix rather than the site.
+      5. Check the distribution shifts: if the poor share grew by 2+ points while p75 stayed roughly flat, report it as a hidden regression in the tail of the distribution.
+      6. End with each forecast listed above in one sentence, e.g. "mobile INP is projected to become Poor in about 6 weeks" (keeping the forecast's own time unit), and make clear it is a projection of the current trend. Never forecast anything that is not listed.
+      7. Write "summary" as a single, data-heavy paragraph of no more than 120 words focusing ONLY on this timeline. Refer to it as "${historyWindow}".
+      8. Add one entry to "findings" per detected change ("regression" or "improvement"), per forecast ("forecast"), per hidden tail regression ("distribution") and per device that stayed stable ("stability", with no metric). Use the device keys ${FORM_FACTOR_KEYS.join(', ')}.
     `;
 
     try {
-        const res = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: { temperature: 0.3 }
-        });
-        return res.text || "No historical anomalies detected.";
+        const text = await provider.generate({ prompt, temperature: temperatureFor(0.3), responseSchema: HISTORIAN_SCHEMA });
+        const report = parseHistorianReport(text || '{}');
+        return report.summary ? report : { ...report, summary: "No historical anomalies detected." };
     } catch (e) {
-        return "Historian Agent failed to process data.";
+        console.error("LLM Error:", e);
+        return { summary: "Historian Agent failed to process data.", findings: [] };
     }
 }
 
 /**
  * TOOL: synthesizeReport
  * Called by the Interpreter Agent to synthesize raw data and historian notes into a strategic report.
- * It uses a balanced temperature for creative but grounded writing.
+ * It uses a balanced temperature for creative but grounded writing, constrained to the
+ * InterpreterReport schema so the recommendations arrive as typed objects. The response is
+ * streamed: `onProgress` receives the partial report as markdown after every chunk, and a
+ * stream that breaks off yields the part that arrived, marked as truncated.
  */
 export const synthesizeReport = async (
   domain: string,
-  analysis: AnalysisResult, // Note: This will be a summarized version without history trends
-  historianNotes: string
-): Promise<string> => {
-  const ai = getAI();
-  if (!ai) return `## Simulation Report\n\n**Mobile LCP:** ${analysis.phone.metrics.lcp.value}ms\n**Desktop LCP:** ${analysis.desktop.metrics.lcp.value}ms`;
+  analysis: SummarizedAnalysis,
+  historian: HistorianReport,
+  onProgress?: (progress: StreamProgress) => void
+): Promise<InterpreterReport> => {
+  const provider = getProvider();
+  const formFactors = listFormFactors(analysis);
+  if (!provider) return simulateInterpreterReport(domain, analysis, historian);
+
+  // The summarized analysis keeps `history.periods` so the window can still be derived here.
+  const historyWindow = describeHistoryWindow(analysis);
+
+  const deviceFigures = (metric: 'lcp' | 'ttfb' | 'rtt') =>
+    formFactors.map(f => `${f.label} ${f.data.metrics[metric].value === null ? 'no data' : `${f.data.metrics[metric].value}ms`}`).join(', ');
 
   const prompt = `
     You are the **CrUX Interpretation Agent**.
@@ -78,88 +387,260 @@ export const synthesizeReport = async (
 
     **Context:**
     - Domain: ${domain}
-    - Historian Notes (Analysis of the last 25 weeks): "${historianNotes}"
+    - Scope: ${describeScope(analysis)}
+    - Traffic Share: ${describeTrafficShare(analysis)}
+    - Historian Notes (Analysis of ${historyWindow}): "${historian.summary}"
     
     **Raw Metrics:**
     ${JSON.stringify(analysis, null, 2)}
 
-    **Instructions:**
-    1. **Executive Summary:** High-level health check.
-    2. **Device Gap:** Explain why Mobile score (${analysis.phone.metrics.lcp.value}ms) differs from Desktop (${analysis.desktop.metrics.lcp.value}ms).
-    3. **Trend Analysis:** Incorporate the Historian's notes about the 25-week trend naturally.
-    4. **Recommendations:** 3 technical fix priorities. Each recommendation must be a single sentence.
-    
-    Format as clean Markdown.
+    **LCP Subpart Breakdown (p75 per phase):**
+    ${formFactors.map(f => `- ${describeLcpBreakdown(f.label, f.data)}`).join('\n    ')}
+
+    **Navigation Hints (computed from CrUX navigation_types):**
+    ${describeNavigationHints(analysis)}
+
+    **Core Web Vitals Assessment (computed; all three Core Web Vitals Good at p75 to pass; health score = share of Good experiences across LCP, CLS and INP):**
+    ${describeAssessment(analysis)}
+
+    **Budget Breaches (the team's internal p75 budgets, often stricter than Google's thresholds):**
+    ${describeBudgetBreaches(analysis)}
+
+    **Rule Engine Matches (curated fixes whose conditions hold in this data, most important first):**
+    ${describeRuleMatches(analysis)}
+
+    **Instructions:** Fill in each field of the response schema.
+    1. **executiveSummary:** High-level health check. State the Core Web Vitals assessment and health score of each device exactly as computed above. If internal budgets apply, state which devices are over budget separately from the Google rating; a metric can be rated Good and still breach its budget.
+    2. **deviceGap:** Explain why LCP differs across devices (${deviceFigures('lcp')}). Use TTFB (${deviceFigures('ttfb')}) and RTT (${deviceFigures('rtt')}) to separate server and network time from front-end rendering time. Weigh each gap by the device's traffic share.
+    3. **trendAnalysis:** Incorporate the Historian's notes about the trend over ${historyWindow} naturally. Do not describe it as any other length of time.
+    4. **recommendations:** 3 technical fix priorities, most important first. "title" must be a single sentence. Set "metric" and "formFactor" (${FORM_FACTOR_KEYS.join(', ')}) to what the fix improves, "priority" by severity and traffic share, "expectedImpact" to what should improve and by roughly how much, and "rationale" to the figures above that justify it.
+       - Take the first 3 Rule Engine Matches, in their order. Keep each match's "metric", "formFactor" and "priority", and set "ruleId" to the id in its brackets. You may make the title more specific to this site and add figures from the data to "expectedImpact" and "rationale", but never contradict the match's evidence.
+       - Only if fewer than 3 rules matched may you add your own recommendation, with "ruleId" null. Do not recommend fixes for an LCP phase that is already small, or image optimizations when the LCP element is mostly text.
+
+    Plain text in every field; no markdown headings.
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        systemInstruction: "You are an expert web performance consultant.",
-        temperature: 0.5,
-      }
-    });
+    const { text } = await streamText(provider, {
+      prompt,
+      systemInstruction: "You are an expert web performance consultant.",
+      temperature: temperatureFor(0.5),
+      responseSchema: INTERPRETER_SCHEMA,
+    }, (soFar, tokens, chunks) => onProgress?.({
+      markdown: toInterpreterMarkdown(parsePartialInterpreterReport(soFar)),
+      characters: soFar.length,
+      tokens,
+      chunks,
+    }));
 
-    return response.text || "No recommendations generated.";
+    // JSON that does not parse in full was cut off, whether or not the stream reported an error.
+    let report: InterpreterReport;
+    try {
+      report = parseInterpreterReport(text || '{}');
+    } catch {
+      report = { ...parsePartialInterpreterReport(text), truncated: true };
+    }
+    return report.executiveSummary || report.recommendations.length > 0 ? report : errorInterpreterReport("No recommendations generated.");
   } catch (error) {
-    console.error("Gemini API Error:", error);
-    return "Error generating recommendations. Please check your API Key.";
+    console.error("LLM Error:", error);
+    return errorInterpreterReport(`Error generating recommendations with ${provider.label}. Please check the language model configuration.`);
   }
 };
 
 /**
  * TOOL: compareBatchResults
  * Called by the Interpreter Agent (when in batch mode) to create a final comparison report.
+ * The Master Scoreboard is rendered from the data (see reportVerifier.ts) and the model
+ * writes only the analysis below it. The markdown is streamed to `onProgress`; if the
+ * stream breaks off, the part that arrived is returned with a notice that it is incomplete.
  */
-export const compareBatchResults = async (results: AnalysisResult[]): Promise<string> => {
-  const ai = getAI();
-  if (!ai) return "## Comparative Analysis\n\n*Comparison unavailable in simulation mode.*";
-  
-  const minimizedData = results.map(r => ({
+export const compareBatchResults = async (
+  results: AnalysisResult[],
+  rankings: SiteRanking[],
+  failedSites: FailedSite[] = [],
+  onProgress?: (progress: StreamProgress) => void
+): Promise<BatchComparison> => {
+  const provider = getProvider();
+  if (!provider) return { markdown: simulateBatchComparison(results, rankings, failedSites), failed: false };
+
+  const scoreboard = renderScoreboard(results, rankings, failedSites);
+
+  // Data columns cover every form factor that at least one site has data for.
+  const columnFormFactors = FORM_FACTORS.filter(({ key }) => results.some(r => r.formFactors[key]));
+  const slug = (label: string) => label.toLowerCase().replace(/\s+/g, '_');
+
+  const minimizedData = results.map(r => {
+      const row: Record<string, string | number> = {
+          audited_url: r.domain,
+          scope: describeScope(r),
+          collectionPeriod: listFormFactors(r)[0]?.data.collectionPeriod || "N/A",
+          endpoint: "CrUX Record API",
+          traffic_share: describeTrafficShare(r),
+      };
+      for (const { key, label } of columnFormFactors) {
+          const ff = r.formFactors[key];
+          for (const metric of ['lcp', 'cls', 'inp', 'fcp', 'ttfb'] as const) {
+              row[`${slug(label)}_${metric}`] = ff ? ff.metrics[metric].value ?? 'No data' : 'N/A';
+          }
+          row[`${slug(label)}_cwv`] = ff ? (ff.assessment.passes ? 'Pass' : 'Fail') : 'N/A';
+          row[`${slug(label)}_score`] = ff ? formatScore(ff.assessment.score) : 'N/A';
+      }
+      return row;
+  });
+
+  const rankingData = rankings.map(r => ({
+      rank: r.rank,
       audited_url: r.domain,
-      collectionPeriod: r.phone.collectionPeriod || "N/A",
-      endpoint: "CrUX Record API",
-      mobile_lcp: r.phone.metrics.lcp.value,
-      mobile_inp: r.phone.metrics.inp.value,
-      mobile_cls: r.phone.metrics.cls.value,
-      desktop_lcp: r.desktop.metrics.lcp.value,
-      desktop_inp: r.desktop.metrics.inp.value,
-      desktop_cls: r.desktop.metrics.cls.value
+      ranked_on: FORM_FACTORS.find(f => f.key === r.formFactor)!.label,
+      core_web_vitals: r.passes ? 'Pass' : 'Fail',
+      health_score: formatScore(r.score),
   }));
 
+  const failedData = failedSites.map(site => ({ audited_url: site.domain, error: site.error.code, reason: site.error.message }));
+
+  // The rule engine's top fix per site and the rules several sites match ground the analysis.
+  const ruleData = results.map(r => ({
+      audited_url: r.domain,
+      top_fixes: evaluateRecommendationRules(r).map(rec => `[${rec.ruleId}] ${rec.priority}, ${rec.formFactor} ${rec.metric.toUpperCase()}: ${rec.title}`),
+  }));
+  const sharedRules = findSharedRules(results).map(rule => `[${rule.ruleId}] ${rule.title} (${rule.domains.join(', ')})`);
+
   const prompt = `
-    You are a precise data analyst creating a performance scorecard for a batch of ${results.length} websites.
+    You are a precise data analyst writing the analysis under the performance scorecard of a batch of ${results.length + failedSites.length} websites.
     
     **Input Data:**
     ${JSON.stringify(minimizedData, null, 2)}
 
+    **Computed Ranking (authoritative; health score = share of Good experiences across LCP, CLS and INP, 0-100):**
+    ${JSON.stringify(rankingData, null, 2)}
+
+    **Sites Without Data (audit failed):**
+    ${failedData.length > 0 ? JSON.stringify(failedData, null, 2) : 'None.'}
+
+    **Rule Engine Matches (curated fixes whose conditions hold in each site's data, most important first):**
+    ${JSON.stringify(ruleData, null, 2)}
+
+    **Rules Matched by Several Sites:**
+    ${sharedRules.length > 0 ? sharedRules.map(line => `- ${line}`).join('\n    ') : 'None.'}
+
+    **Master Scoreboard (already rendered from the data and shown above your text):**
+    ${scoreboard.split('\n').join('\n    ')}
+
     **Directives:**
-    1. **Master Scoreboard Table (MANDATORY):** 
-       - Generate a Markdown table immediately at the top.
-       - The table MUST have a row for **EVERY** URL in the input data.
-       - Use these exact headers:
-         | URL | Date Range | Mobile LCP | Mobile CLS | Mobile INP | Desktop LCP | Desktop CLS | Desktop INP |
-       - Fill in the values exactly from the input data.
-       
+    1. **No Tables:** Do not write a scoreboard or any other table; start directly with the analysis below. Every figure you write must be copied exactly from the data above, with its device (e.g. "Mobile LCP is 2420ms"); your figures are checked against the data.
+
     2. **Comparative Analysis:**
        - **Fastest Site:** Which URL has the best Mobile LCP?
-       - **Needs Attention:** Which URL has the worst metrics overall?
-       - **Pattern Recognition:** Are there shared issues? (e.g. "All sites struggle with INP").
-       - **Verdict:** Declare a clear performance winner.
-       
-    Do not skip any URLs in the table.
+       - **Device Mix:** Note where a site's traffic share makes its weakest device matter most.
+       - **Needs Attention:** The URL ranked last in the Computed Ranking, which of its metrics hold it back, and its first Rule Engine fix.
+       - **Pattern Recognition:** Are there shared issues? Start from the Rules Matched by Several Sites and never claim a shared issue that is not listed there. Use TTFB and FCP to say whether slow LCP is server-bound or front-end-bound.
+       - **Verdict:** The winner is rank 1 in the Computed Ranking. Explain why using its health score and assessment; never re-rank the sites yourself.
+       - **Missing Data:** If any sites have no data, list them with their reason in one sentence each. Never rank them or guess their performance.
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: { temperature: 0.5 }
+    const { text, complete } = await streamText(provider, { prompt, temperature: temperatureFor(0.5) }, (soFar, tokens, chunks) =>
+      onProgress?.({ markdown: `${scoreboard}\n\n${soFar}`, characters: soFar.length, tokens, chunks })
+    );
+    if (!text) return { markdown: `${scoreboard}\n\nNo comparison generated.`, failed: false };
+    return { markdown: `${scoreboard}\n\n${text}${complete ? '' : `\n\n${TRUNCATED_NOTICE}`}`, failed: false };
+  } catch (error) {
+    console.error("LLM Error:", error);
+    return {
+      markdown: `${scoreboard}\n\n> Analysis failed: ${provider.label} returned an error, so only the scoreboard is shown. Please check the language model configuration.`,
+      failed: true,
+    };
+  }
+};
+
+/**
+ * TOOL: answerQuestion
+ * Called by the Chat Agent to answer a follow-up question about a completed audit. The
+ * prompt holds only the audit's numbered facts and the conversation so far; a low
+ * temperature keeps answers close to the figures, and every figure must be cited by id.
+ */
+export const answerQuestion = async (
+  domain: string,
+  question: string,
+  history: ChatMessage[],
+  facts: AuditFact[]
+): Promise<ChatMessage> => {
+  const provider = getProvider();
+  if (!provider) {
+    const content = simulateChatAnswer(question, facts);
+    return { role: 'assistant', content, citations: extractCitations(content, facts), simulated: true };
+  }
+
+  const transcript = history.map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`).join('\n\n');
+
+  const prompt = `
+    You are the **CrUX Audit Assistant**, answering follow-up questions about a completed audit of ${domain}.
+
+    **Audit Facts** (the only data you may use; each line starts with its id):
+    ${describeFacts(facts)}
+
+    **Conversation So Far:**
+    ${transcript || 'None.'}
+
+    **Question:** ${question}
+
+    **Instructions:**
+    1. Answer from the facts above only. If they do not contain the answer, say which data is missing instead of guessing.
+    2. Cite every number you use with its fact id in square brackets right after it, e.g. "INP rose to 215ms [F12]". Never cite an id that is not listed.
+    3. For "when" questions, use the detected changes and the dated history points, and name the period end date given in the fact labels.
+    4. For "why" questions, compare the related figures (e.g. TTFB, RTT and the LCP phases for loading gaps) and say how confident the data allows you to be.
+    5. Keep the answer short: a few sentences or a short list.
+  `;
+
+  try {
+    const text = await provider.generate({
+      prompt,
+      systemInstruction: "You are an expert web performance consultant.",
+      temperature: temperatureFor(0.2),
     });
-    return response.text || "No comparison generated.";
+    const content = stripUnknownCitations(text, facts).trim();
+    return { role: 'assistant', content: content || "No answer generated.", citations: extractCitations(content, facts), simulated: false };
+  } catch (error) {
+    console.error("LLM Error:", error);
+    return { role: 'assistant', content: `Error answering with ${provider.label}. Please check the language model configuration.`, citations: [], simulated: false };
+  }
+};
+
+/**
+ * TOOL: planNextStep
+ * Called by the Planner Agent once per turn of its loop. The model sees the goal, the
+ * tool calls so far with their results, and how many calls it has left, and either
+ * calls more tools or answers. With no calls left it is told to answer from what it has.
+ */
+export const planNextStep = async (
+  goal: string,
+  messages: LLMMessage[],
+  tools: LLMToolDeclaration[],
+  stepsLeft: number,
+  defaults: CrUXQueryOptions
+): Promise<LLMToolResponse> => {
+  const provider = getProvider();
+  if (!provider) return simulatePlannerTurn(goal, messages, stepsLeft);
+
+  const formFactors = defaults.formFactors?.length ? defaults.formFactors : DEFAULT_FORM_FACTORS;
+  const systemInstruction = `
+    You are the **CrUX Planner**, an expert web performance consultant who answers a user's goal by calling tools that run the CrUX performance agents.
+
+    **Instructions:**
+    1. Call fetch_crux_data for a site before any other tool for it. Use full origins such as https://www.example.com; when the goal names companies instead of URLs, use their main website's origin.
+    2. fetch_crux_data already loads ${defaults.historyDepth ?? DEFAULT_HISTORY_DEPTH} collection periods of history and reports their cadence: weekly for CrUX API data, monthly for BigQuery exports. For a different time range ("last quarter", "past month") call fetch_crux_history with the number of periods in that cadence (a quarter is 13 weekly or 3 monthly periods, at most ${MAX_HISTORY_DEPTH}).
+    3. Restrict devices and metrics to what the goal asks about. Devices: PHONE (mobile), DESKTOP, TABLET, ALL_FORM_FACTORS; the user selected ${formFactors.join(', ')}.
+    4. Independent calls (e.g. fetching several sites) can be made in the same turn.
+    5. ${stepsLeft > 0
+      ? `You have ${stepsLeft} tool call${stepsLeft === 1 ? '' : 's'} left. Stop calling tools as soon as you can answer the goal.`
+      : 'You have no tool calls left. Answer now from the results so far and say what is missing.'}
+    6. The final answer is markdown that directly addresses the goal, using only figures from the tool results, with their period end dates. Name any site that could not be fetched.
+  `;
+
+  try {
+    return await provider.generateWithTools({ systemInstruction, temperature: temperatureFor(0.1), messages, tools });
   } catch (error) {
-    return "Error generating comparison.";
+    console.error("LLM Error:", error);
+    return { text: `Error planning with ${provider.label}. Please check the language model configuration.`, toolCalls: [] };
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,398 @@
+/**
+ * llmProviders.ts - Pluggable language models for the Cognitive Agents
+ *
+ * RESPONSIBILITY:
+ * Implements `LLMProvider` for every model the Historian, Interpreter and batch
+ * comparison tools can run on:
+ * - GeminiProvider:           the Gemini API through @google/genai.
+ * - OpenAICompatibleProvider: any server implementing the OpenAI chat completions API,
+ *                             such as llama.cpp (`llama-server`) or Ollama (`/v1`), so
+ *                             projects that may not send audit data to an external LLM
+ *                             can keep it on their own machines.
+ *
+ * The tools in geminiService.ts only build prompts and read text back, in one piece or
+ * streamed chunk by chunk; the provider decides where the prompt goes. Response schemas are written once in Gemini's
+ * OpenAPI subset and translated to JSON Schema for OpenAI-compatible servers.
+ *
+ * FUNCTION CALLING:
+ * The Planner Agent holds a conversation in which the model calls tools. It is kept
+ * as provider-neutral `LLMMessage`s and translated per request: Gemini `functionCall`
+ * / `functionResponse` parts, or OpenAI `tool_calls` and `tool` messages. Tool
+ * parameters use the same Schema subset as response schemas.
+ */
+
+import { Content, FinishReason, GenerateContentParameters, GoogleGenAI, Schema, Type } from '@google/genai';
+import { LLMConfig, LLMProviderKind } from '../types';
+
+const STORAGE_KEY = 'crux_agent_llm_config';
+
+// Provider picker entries, in display order, with the model a fresh config starts with.
+export const LLM_PROVIDERS: { kind: LLMProviderKind; label: string; defaultModel: string; placeholder: string }[] = [
+    { kind: 'gemini', label: 'Gemini', defaultModel: 'gemini-2.5-flash', placeholder: 'Paste your Gemini API key' },
+    { kind: 'openai-compatible', label: 'Local (OpenAI-compatible)', defaultModel: 'llama3.1:8b', placeholder: 'http://localhost:11434/v1' },
+];
+
+export const DEFAULT_LLM_CONFIG: LLMConfig = {
+    provider: 'gemini',
+    model: 'gemini-2.5-flash',
+    temperature: null,
+    baseUrl: '',
+    apiKey: '',
+};
+
+export interface LLMRequest {
+    prompt: string;
+    systemInstruction?: string;
+    temperature: number;
+    // Asks for JSON matching this schema instead of free text.
+    responseSchema?: Schema;
+}
+
+export interface LLMStreamChunk {
+    text: string;
+    // Output tokens so far, when the provider reports them.
+    tokens: number | null;
+}
+
+export interface LLMToolDeclaration {
+    name: string;
+    description: string;
+    parameters: Schema;
+}
+
+export interface LLMToolCall {
+    // Matches the call to its result; generated when the provider does not supply one.
+    id: string;
+    name: string;
+    args: Record<string, unknown>;
+}
+
+export type LLMMessage =
+    | { role: 'user'; text: string }
+    // `raw` is the provider's own copy of the turn (e.g. Gemini thought signatures), replayed as is.
+    | { role: 'model'; text: string; toolCalls: LLMToolCall[]; raw?: unknown }
+    | { role: 'tool'; results: { call: LLMToolCall; response: Record<string, unknown> }[] };
+
+export interface LLMToolRequest {
+    systemInstruction?: string;
+    temperature: number;
+    messages: LLMMessage[];
+    tools: LLMToolDeclaration[];
+}
+
+// The model's turn: tool calls to run, or (with no calls) its final answer.
+export interface LLMToolResponse {
+    text: string;
+    toolCalls: LLMToolCall[];
+    raw?: unknown;
+}
+
+/**
+ * A language model the Cognitive Agents' tools can call. Implementations return the
+ * model's text (JSON when a schema was given) and throw on transport or API errors.
+ * A stream also throws when the model stops before finishing (e.g. at its output
+ * token limit) or the connection drops, after yielding what arrived.
+ */
+export interface LLMProvider {
+    readonly kind: LLMProviderKind;
+    // Short description for logs and cache keys, e.g. "Gemini (gemini-2.5-flash)".
+    readonly label: string;
+    generate(request: LLMRequest): Promise<string>;
+    generateStream(request: LLMRequest): AsyncGenerator<LLMStreamChunk>;
+    generateWithTools(request: LLMToolRequest): Promise<LLMToolResponse>;
+}
+
+export class GeminiProvider implements LLMProvider {
+    readonly kind = 'gemini';
+    readonly label: string;
+    private ai: GoogleGenAI;
+
+    constructor(apiKey: string, private model: string) {
+        this.ai = new GoogleGenAI({ apiKey });
+        this.label = `Gemini (${model})`;
+    }
+
+    async generate(request: LLMRequest): Promise<string> {
+        const response = await this.ai.models.generateContent(this.toParameters(request));
+        return response.text || '';
+    }
+
+    async *generateStream(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+        const stream = await this.ai.models.generateContentStream(this.toParameters(request));
+        for await (const chunk of stream) {
+            yield { text: chunk.text || '', tokens: chunk.usageMetadata?.candidatesTokenCount ?? null };
+            const finishReason = chunk.candidates?.[0]?.finishReason;
+            if (finishReason && finishReason !== FinishReason.STOP && finishReason !== FinishReason.FINISH_REASON_UNSPECIFIED) throw new Error(`${this.label} stopped early (${finishReason})`);
+        }
+    }
+
+    async generateWithTools({ systemInstruction, temperature, messages, tools }: LLMToolRequest): Promise<LLMToolResponse> {
+        const response = await this.ai.models.generateContent({
+            model: this.model,
+            contents: messages.map(toGeminiContent),
+            config: {
+                systemInstruction,
+                temperature,
+                tools: [{ functionDeclarations: tools.map(({ name, description, parameters }) => ({ name, description, parameters })) }],
+            },
+        });
+        const toolCalls = (response.functionCalls ?? []).map((call, i) => ({
+            id: call.id || `call-${i + 1}`,
+            name: call.name || '',
+            args: call.args ?? {},
+        }));
+        return { text: toolCalls.length > 0 ? '' : response.text || '', toolCalls, raw: response.candidates?.[0]?.content };
+    }
+
+    private toParameters({ prompt, systemInstruction, temperature, responseSchema }: LLMRequest): GenerateContentParameters {
+        return {
+            model: this.model,
+            contents: prompt,
+            config: {
+                systemInstruction,
+                temperature,
+                ...(responseSchema ? { responseMimeType: 'application/json', responseSchema } : {}),
+            },
+        };
+    }
+}
+
+const toGeminiContent = (message: LLMMessage): Content => {
+    switch (message.role) {
+        case 'user':
+            return { role: 'user', parts: [{ text: message.text }] };
+        case 'model':
+            return (message.raw as Content | undefined) ?? {
+                role: 'model',
+                parts: [
+                    ...(message.text ? [{ text: message.text }] : []),
+                    ...message.toolCalls.map(({ id, name, args }) => ({ functionCall: { id, name, args } })),
+                ],
+            };
+        case 'tool':
+            return {
+                role: 'user',
+                parts: message.results.map(({ call, response }) => ({ functionResponse: { id: call.id, name: call.name, response } })),
+            };
+    }
+};
+
+const JSON_SCHEMA_TYPES: Partial<Record<Type, string>> = {
+    [Type.STRING]: 'string',
+    [Type.NUMBER]: 'number',
+    [Type.INTEGER]: 'integer',
+    [Type.BOOLEAN]: 'boolean',
+    [Type.ARRAY]: 'array',
+    [Type.OBJECT]: 'object',
+};
+
+/**
+ * Translates a Gemini response schema to JSON Schema. `nullable` becomes a union with
+ * null; Gemini-only keywords such as `propertyOrdering` are dropped.
+ */
+export const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+    const type = JSON_SCHEMA_TYPES[schema.type!] ?? 'string';
+    const result: Record<string, unknown> = { type: schema.nullable ? [type, 'null'] : type };
+    if (schema.description) result.description = schema.description;
+    if (schema.enum) result.enum = schema.nullable ? [...schema.enum, null] : schema.enum;
+    if (schema.items) result.items = toJsonSchema(schema.items);
+    if (schema.properties) {
+        result.properties = Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)]));
+        result.required = schema.required ?? [];
+        result.additionalProperties = false;
+    }
+    return result;
+};
+
+export class OpenAICompatibleProvider implements LLMProvider {
+    readonly kind = 'openai-compatible';
+    readonly label: string;
+
+    constructor(private baseUrl: string, private model: string, private apiKey: string) {
+        this.baseUrl = baseUrl.replace(/\/+$/, '');
+        this.label = `${model} at ${new URL(this.baseUrl).host}`;
+    }
+
+    async generate(request: LLMRequest): Promise<string> {
+        const response = await this.post(request, false);
+        const data = await response.json();
+        return data?.choices?.[0]?.message?.content || '';
+    }
+
+    /**
+     * Reads the server-sent events of a streamed completion. The request asks for usage
+     * (`stream_options.include_usage`), which arrives in a last event after the finish
+     * reason; a server that ignores the option reports no token count.
+     */
+    async *generateStream(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+        const response = await this.post(request, true);
+        const reader = response.body!.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        let finished = false;
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop()!;
+            for (const line of lines) {
+                if (!line.startsWith('data:')) continue;
+                const payload = line.slice(5).trim();
+                if (payload === '[DONE]') return;
+                const event = JSON.parse(payload);
+                const choice = event?.choices?.[0];
+                if (choice?.delta?.content) yield { text: choice.delta.content, tokens: null };
+                if (choice?.finish_reason === 'length') throw new Error(`${this.label} reached its output token limit`);
+                if (choice?.finish_reason) finished = true;
+                if (typeof event?.usage?.completion_tokens === 'number') yield { text: '', tokens: event.usage.completion_tokens };
+            }
+        }
+        if (!finished) throw new Error(`${this.label} closed the stream before the response finished`);
+    }
+
+    async generateWithTools({ systemInstruction, temperature, messages, tools }: LLMToolRequest): Promise<LLMToolResponse> {
+        const response = await this.send({
+            model: this.model,
+            messages: [
+                ...(systemInstruction ? [{ role: 'system', content: systemInstruction }] : []),
+                ...messages.flatMap(toOpenAIMessages),
+            ],
+            temperature,
+            tools: tools.map(({ name, description, parameters }) => ({
+                type: 'function',
+                function: { name, description, parameters: toJsonSchema(parameters) },
+            })),
+        });
+        const message = (await response.json())?.choices?.[0]?.message;
+        const toolCalls: LLMToolCall[] = (message?.tool_calls ?? []).map((call: any, i: number) => ({
+            id: call.id || `call-${i + 1}`,
+            name: call.function?.name || '',
+            args: parseToolArguments(call.function?.arguments),
+        }));
+        return { text: message?.content || '', toolCalls };
+    }
+
+    private post({ prompt, systemInstruction, temperature, responseSchema }: LLMRequest, stream: boolean): Promise<Response> {
+        const messages = [
+            ...(systemInstruction ? [{ role: 'system', content: systemInstruction }] : []),
+            { role: 'user', content: prompt },
+        ];
+        return this.send({
+            model: this.model,
+            messages,
+            temperature,
+            stream,
+            ...(stream ? { stream_options: { include_usage: true } } : {}),
+            ...(responseSchema ? {
+                response_format: { type: 'json_schema', json_schema: { name: 'response', schema: toJsonSchema(responseSchema) } },
+            } : {}),
+        });
+    }
+
+    private async send(body: Record<string, unknown>): Promise<Response> {
+        const response = await fetch(`${this.baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+            },
+            body: JSON.stringify(body),
+        });
+        if (!response.ok) {
+            const detail = await response.text().catch(() => '');
+            throw new Error(`${this.label} returned HTTP ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+        }
+        return response;
+    }
+}
+
+const toOpenAIMessages = (message: LLMMessage): Record<string, unknown>[] => {
+    switch (message.role) {
+        case 'user':
+            return [{ role: 'user', content: message.text }];
+        case 'model':
+            return [{
+                role: 'assistant',
+                content: message.text || null,
+                ...(message.toolCalls.length > 0 ? {
+                    tool_calls: message.toolCalls.map(({ id, name, args }) => ({ id, type: 'function', function: { name, arguments: JSON.stringify(args) } })),
+                } : {}),
+            }];
+        case 'tool':
+            return message.results.map(({ call, response }) => ({ role: 'tool', tool_call_id: call.id, content: JSON.stringify(response) }));
+    }
+};
+
+// Arguments arrive as a JSON string; small local models sometimes send broken JSON.
+const parseToolArguments = (raw: unknown): Record<string, unknown> => {
+    if (typeof raw !== 'string') return typeof raw === 'object' && raw !== null ? raw as Record<string, unknown> : {};
+    try {
+        const parsed = JSON.parse(raw);
+        return typeof parsed === 'object' && parsed !== null ? parsed : {};
+    } catch {
+        return {};
+    }
+};
+
+const isHttpUrl = (value: string) => {
+    try {
+        return /^https?:$/.test(new URL(value).protocol);
+    } catch {
+        return false;
+    }
+};
+
+// The Gemini key baked in at build time (GEMINI_API_KEY) wins over one typed into the config panel.
+export const getEnvGeminiKey = () => process.env.API_KEY || '';
+
+/**
+ * Returns a problem with the configuration, or null when it can be used.
+ */
+export const validateLLMConfig = (config: LLMConfig): string | null => {
+    if (!config.model.trim()) return 'Enter a model name.';
+    if (config.temperature !== null && !(config.temperature >= 0 && config.temperature <= 2)) return 'Temperature must be between 0 and 2.';
+    switch (config.provider) {
+        case 'gemini':
+            return getEnvGeminiKey() || config.apiKey.trim() ? null : 'No Gemini API key.';
+        case 'openai-compatible':
+            return isHttpUrl(config.baseUrl.trim()) ? null : 'Enter the server URL (e.g. http://localhost:11434/v1).';
+    }
+};
+
+/**
+ * The provider for a config, or null when it is incomplete. The tools then fall back
+ * to the deterministic stand-ins in simulatedReports.ts.
+ */
+export const createLLMProvider = (config: LLMConfig): LLMProvider | null => {
+    if (validateLLMConfig(config)) return null;
+    const model = config.model.trim();
+    switch (config.provider) {
+        case 'gemini':
+            return new GeminiProvider(getEnvGeminiKey() || config.apiKey.trim(), model);
+        case 'openai-compatible':
+            return new OpenAICompatibleProvider(config.baseUrl.trim(), model, config.apiKey.trim());
+    }
+};
+
+export const loadLLMConfig = (): LLMConfig => {
+    if (typeof localStorage === 'undefined') return DEFAULT_LLM_CONFIG;
+    try {
+        const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+        if (!saved || !LLM_PROVIDERS.some(p => p.kind === saved.provider)) return DEFAULT_LLM_CONFIG;
+        return {
+            provider: saved.provider,
+            model: typeof saved.model === 'string' ? saved.model : DEFAULT_LLM_CONFIG.model,
+            temperature: typeof saved.temperature === 'number' ? saved.temperature : null,
+            baseUrl: typeof saved.baseUrl === 'string' ? saved.baseUrl : '',
+            apiKey: typeof saved.apiKey === 'string' ? saved.apiKey : '',
+        };
+    } catch {
+        return DEFAULT_LLM_CONFIG;
+    }
+};
+
+export const saveLLMConfig = (config: LLMConfig) => {
+    if (typeof localStorage === 'undefined') return;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+};
@@ -0,0 +1,68 @@
+/**
+ * navigationInsights.ts - Deterministic hints from the navigation type mix
+ *
+ * RESPONSIBILITY:
+ * Turns the CrUX `navigation_types` fractions into plain-language hints about
+ * levers the site controls (bfcache eligibility, prerendering, reloads). These
+ * are computed, not generated, so the Interpreter Agent receives the same hints
+ * for the same data and only has to explain them.
+ */
+
+import { NavigationAnalysis, NavigationTypeFractions } from '../types';
+import { getSeriesEndpoints } from './cruxService';
+
+// Minimum share of back/forward navigations before the bfcache hit rate is meaningful.
+const MIN_BACK_FORWARD_SHARE = 0.03;
+const LOW_BFCACHE_HIT_RATE = 0.6;
+const HIGH_RELOAD_SHARE = 0.1;
+const LOW_PRERENDER_SHARE = 0.01;
+const BFCACHE_TREND_DELTA = 0.1;
+
+const pct = (share: number) => `${(share * 100).toFixed(1)}%`;
+
+/**
+ * Share of back/forward navigations that were restored from the bfcache.
+ * Returns null when there are too few back/forward navigations to judge.
+ */
+export const getBfcacheHitRate = (fractions: NavigationTypeFractions): number | null => {
+    const backForward = fractions.back_forward + fractions.back_forward_cache;
+    if (backForward < MIN_BACK_FORWARD_SHARE) return null;
+    return fractions.back_forward_cache / backForward;
+};
+
+export const deriveNavigationHints = (navigation: NavigationAnalysis | null): string[] => {
+    if (!navigation) return [];
+
+    const { current, trend } = navigation;
+    const hints: string[] = [];
+    const backForward = current.back_forward + current.back_forward_cache;
+    const hitRate = getBfcacheHitRate(current);
+
+    if (hitRate !== null && hitRate < LOW_BFCACHE_HIT_RATE) {
+        hints.push(
+            `bfcache hit rate is low (${pct(hitRate)}) relative to back/forward navigations (${pct(backForward)} of all loads). ` +
+            `${pct(current.back_forward)} of loads are back/forward navigations that missed the bfcache; removing unload handlers and ` +
+            `\`Cache-Control: no-store\` on HTML makes them near-instant.`
+        );
+    }
+
+    const endpoints = getSeriesEndpoints(trend);
+    const firstRate = endpoints ? getBfcacheHitRate(endpoints[0].value!) : null;
+    const lastRate = endpoints ? getBfcacheHitRate(endpoints[1].value!) : null;
+    if (firstRate !== null && lastRate !== null && firstRate - lastRate >= BFCACHE_TREND_DELTA) {
+        hints.push(
+            `bfcache hit rate fell from ${pct(firstRate)} (period ending ${endpoints![0].period.end}) to ${pct(lastRate)} ` +
+            `(period ending ${endpoints![1].period.end}); a change in that span likely made pages ineligible.`
+        );
+    }
+
+    if (current.reload >= HIGH_RELOAD_SHARE) {
+        hints.push(`Reloads make up ${pct(current.reload)} of loads, which often signals errors, stale content or users retrying slow pages.`);
+    }
+
+    if (current.prerender < LOW_PRERENDER_SHARE && current.navigate + current.navigate_cache > 0.5) {
+        hints.push(`Prerendering is barely used (${pct(current.prerender)} of loads); Speculation Rules could prerender likely next pages.`);
+    }
+
+    return hints;
+};
@@ -0,0 +1,313 @@
+/**
+ * offlineImport.ts - Importer for saved and exported CrUX data
+ *
+ * RESPONSIBILITY:
+ * Turns files into an OfflineDataset that the offline data source serves to the
+ * unchanged agent pipeline, so archived or air-gapped data gets the same analysis
+ * and reports as a live audit. Files can be JSON, newline-delimited JSON or CSV:
+ * - Saved CrUX API responses (queryRecord and/or queryHistoryRecord), one per file or in an array.
+ * - CrUX BigQuery rows from `chrome-ux-report.materialized.device_summary` or `metrics_summary`:
+ *   one row per origin and month (and device), with `p75_*` and `fast_/avg_/slow_*`
+ *   (`small_/medium_/large_cls`) columns. Each month becomes one collection period, and
+ *   the analysis treats such history as monthly (see periodCadence in cruxService.ts).
+ *
+ * A record with history but no saved snapshot uses its latest period with data as the snapshot.
+ */
+
+import { CrUXCollectionPeriod, CrUXHistoryMetric, CrUXHistoryResponse, CrUXRecordQuery, CrUXResponse, FormFactor, MetricKey, OfflineDataset } from '../types';
+import { CRUX_METRIC_NAMES, METRIC_KEYS, METRIC_THRESHOLDS, NAVIGATION_TYPES } from '../constants';
+import { toOrigin } from './cruxService';
+
+type Row = Record<string, unknown>;
+
+// BigQuery histogram columns per metric, in good / needs-improvement / poor order.
+const BIGQUERY_BINS: Partial<Record<MetricKey, [string, string, string]>> = {
+    lcp: ['fast_lcp', 'avg_lcp', 'slow_lcp'],
+    cls: ['small_cls', 'medium_cls', 'large_cls'],
+    inp: ['fast_inp', 'avg_inp', 'slow_inp'],
+    fcp: ['fast_fcp', 'avg_fcp', 'slow_fcp'],
+    ttfb: ['fast_ttfb', 'avg_ttfb', 'slow_ttfb'],
+};
+
+const BIGQUERY_DEVICES: Record<string, FormFactor> = {
+    phone: 'PHONE',
+    desktop: 'DESKTOP',
+    tablet: 'TABLET',
+};
+
+export const EMPTY_DATASET: OfflineDataset = { files: [], records: {} };
+
+/**
+ * Dataset key for a query. Origins are normalized so "https://example.com/" and
+ * "https://example.com" find the same record.
+ */
+const toRecordId = ({ target, scope, formFactor }: CrUXRecordQuery) =>
+    `${scope}|${scope === 'origin' ? toOrigin(target) : target}|${formFactor}`;
+
+export const getOfflineRecord = (dataset: OfflineDataset, query: CrUXRecordQuery) =>
+    dataset.records[toRecordId(query)] ?? null;
+
+const toNumber = (value: unknown): number | null => {
+    if (value === null || value === undefined || value === '') return null;
+    const n = Number(value);
+    return isFinite(n) ? n : null;
+};
+
+/**
+ * Keeps the latest `depth` collection periods, trimming every per-period array to match.
+ */
+export const sliceHistory = (history: CrUXHistoryResponse, depth: number): CrUXHistoryResponse => {
+    const periods = history.record.collectionPeriods ?? [];
+    const from = Math.max(periods.length - depth, 0);
+    if (from === 0) return history;
+
+    const metrics: Record<string, unknown> = {};
+    for (const [name, metric] of Object.entries(history.record.metrics) as [string, any][]) {
+        metrics[name] = metric.fractionTimeseries
+            ? {
+                fractionTimeseries: Object.fromEntries(Object.entries(metric.fractionTimeseries).map(
+                    ([key, series]: [string, any]) => [key, { fractions: series.fractions.slice(from) }]
+                )),
+            }
+            : {
+                histogramTimeseries: metric.histogramTimeseries?.map((bin: any) => ({ ...bin, densities: bin.densities.slice(from) })),
+                percentilesTimeseries: { p75s: metric.percentilesTimeseries?.p75s?.slice(from) ?? [] },
+            };
+    }
+    return { record: { ...history.record, metrics, collectionPeriods: periods.slice(from) } };
+};
+
+/**
+ * Builds a record response from the latest history period that has any metric data.
+ */
+const latestSnapshot = (history: CrUXHistoryResponse): CrUXResponse | null => {
+    const periods = history.record.collectionPeriods ?? [];
+    const historyMetrics = history.record.metrics as Record<string, CrUXHistoryMetric | undefined>;
+    const p75At = (key: MetricKey, i: number) => toNumber(historyMetrics[CRUX_METRIC_NAMES[key]]?.percentilesTimeseries?.p75s?.[i]);
+
+    let index = periods.length - 1;
+    while (index >= 0 && !METRIC_KEYS.some(key => p75At(key, index) !== null)) index--;
+    if (index < 0) return null;
+
+    const metrics: Record<string, unknown> = {};
+    for (const key of METRIC_KEYS) {
+        const p75 = p75At(key, index);
+        if (p75 === null) continue;
+        const bins = historyMetrics[CRUX_METRIC_NAMES[key]]?.histogramTimeseries ?? [];
+        metrics[CRUX_METRIC_NAMES[key]] = {
+            histogram: bins.map(bin => ({ start: bin.start, end: bin.end, density: toNumber(bin.densities[index]) ?? 0 })),
+            percentiles: { p75 },
+        };
+    }
+
+    const navigation = history.record.metrics.navigation_types?.fractionTimeseries;
+    if (navigation) {
+        metrics.navigation_types = {
+            fractions: Object.fromEntries(Object.entries(navigation).map(([key, series]) => [key, toNumber(series.fractions[index]) ?? 0])),
+        };
+    }
+
+    return { record: { key: history.record.key, metrics, collectionPeriod: periods[index] } };
+};
+
+// --- Parsing ---
+
+/**
+ * Minimal RFC 4180 parser: quoted fields may contain commas, newlines and doubled quotes.
+ */
+const parseCsv = (text: string): Row[] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if (quoted) {
+            if (c === '"' && text[i + 1] === '"') { field += '"'; i++; }
+            else if (c === '"') quoted = false;
+            else field += c;
+        } else if (c === '"') {
+            quoted = true;
+        } else if (c === ',') {
+            row.push(field);
+            field = '';
+        } else if (c === '\n' || c === '\r') {
+            if (c === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += c;
+        }
+    }
+    if (field || row.length) rows.push([...row, field]);
+
+    const [header, ...body] = rows.filter(r => r.some(cell => cell.trim() !== ''));
+    if (!header) return [];
+    const columns = header.map(h => h.trim());
+    return body.map(cells => Object.fromEntries(columns.map((column, i) => [column, cells[i]])));
+};
+
+/**
+ * Parses JSON (one object or an array) or newline-delimited JSON, as BigQuery exports it.
+ */
+const parseJson = (text: string): unknown[] => {
+    try {
+        const parsed = JSON.parse(text);
+        return Array.isArray(parsed) ? parsed : [parsed];
+    } catch {
+        return text.split(/\r?\n/).filter(line => line.trim()).map(line => JSON.parse(line));
+    }
+};
+
+const isCrUXResponse = (item: any): item is CrUXResponse | CrUXHistoryResponse =>
+    Boolean(item?.record?.key && item?.record?.metrics);
+
+/**
+ * The calendar month of a BigQuery row, from `date` (YYYY-MM-DD) or `yyyymm` (YYYYMM).
+ */
+const toMonthPeriod = (row: Row): CrUXCollectionPeriod | null => {
+    const date = typeof row.date === 'string' && /^\d{4}-\d{2}/.test(row.date) ? row.date : null;
+    const yyyymm = date ? null : String(row.yyyymm ?? '');
+    const year = date ? Number(date.slice(0, 4)) : Number(yyyymm.slice(0, 4));
+    const month = date ? Number(date.slice(5, 7)) : Number(yyyymm.slice(4, 6));
+    if (!year || !month) return null;
+    const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    return { firstDate: { year, month, day: 1 }, lastDate: { year, month, day: lastDay } };
+};
+
+const periodId = (period: CrUXCollectionPeriod) =>
+    `${period.firstDate.year}-${String(period.firstDate.month).padStart(2, '0')}`;
+
+/**
+ * Groups BigQuery rows by origin and device and builds one history response per group.
+ */
+const importBigQueryRows = (rows: Row[], records: OfflineDataset['records']) => {
+    const groups = new Map<string, { query: CrUXRecordQuery; rows: { period: CrUXCollectionPeriod; row: Row }[] }>();
+
+    for (const row of rows) {
+        const origin = typeof row.origin === 'string' ? toOrigin(row.origin.trim()) : null;
+        const period = toMonthPeriod(row);
+        if (!origin || !period) continue;
+        const device = typeof row.device === 'string' ? BIGQUERY_DEVICES[row.device.toLowerCase()] : undefined;
+        const query: CrUXRecordQuery = { target: origin, scope: 'origin', formFactor: device ?? 'ALL_FORM_FACTORS' };
+        const id = toRecordId(query);
+        if (!groups.has(id)) groups.set(id, { query, rows: [] });
+        groups.get(id)!.rows.push({ period, row });
+    }
+
+    for (const [id, group] of groups) {
+        // One row per month; a later duplicate of the same month replaces the earlier one.
+        const byMonth = new Map(group.rows.map(entry => [periodId(entry.period), entry]));
+        const months = [...byMonth.values()].sort((a, b) => periodId(a.period).localeCompare(periodId(b.period)));
+
+        const metrics: Record<string, unknown> = {};
+        for (const key of METRIC_KEYS) {
+            const p75s = months.map(({ row }) => toNumber(row[`p75_${key}`]));
+            if (p75s.every(v => v === null)) continue;
+            const { good, poor } = METRIC_THRESHOLDS[key];
+            const columns = BIGQUERY_BINS[key];
+            const bounds = [{ start: 0, end: good }, { start: good, end: poor }, { start: poor }];
+            metrics[CRUX_METRIC_NAMES[key]] = {
+                histogramTimeseries: columns
+                    ? bounds.map((bound, b) => ({ ...bound, densities: months.map(({ row }) => toNumber(row[columns[b]])) }))
+                    : [],
+                percentilesTimeseries: { p75s },
+            };
+        }
+
+        const hasNavigation = months.some(({ row }) => NAVIGATION_TYPES.some(({ key }) => toNumber(row[`navigation_types_${key}`]) !== null));
+        if (hasNavigation) {
+            metrics.navigation_types = {
+                fractionTimeseries: Object.fromEntries(NAVIGATION_TYPES.map(({ key }) => [
+                    key,
+                    { fractions: months.map(({ row }) => toNumber(row[`navigation_types_${key}`])) },
+                ])),
+            };
+        }
+
+        const history: CrUXHistoryResponse = {
+            record: {
+                key: { origin: group.query.target, ...(group.query.formFactor === 'ALL_FORM_FACTORS' ? {} : { formFactor: group.query.formFactor }) },
+                metrics,
+                collectionPeriods: months.map(({ period }) => period),
+            },
+        };
+        const current = latestSnapshot(history);
+
+        // metrics_summary carries the device split, which the combined record reports as `form_factors`.
+        const latest = months[months.length - 1].row;
+        const split = { phone: toNumber(latest.phoneDensity), desktop: toNumber(latest.desktopDensity), tablet: toNumber(latest.tabletDensity) };
+        if (current && Object.values(split).some(v => v !== null)) {
+            current.record.metrics.form_factors = { fractions: { phone: split.phone ?? 0, desktop: split.desktop ?? 0, tablet: split.tablet ?? 0 } };
+        }
+
+        records[id] = { current, history };
+    }
+
+    return groups.size;
+};
+
+const importApiResponses = (items: (CrUXResponse | CrUXHistoryResponse)[], records: OfflineDataset['records']) => {
+    for (const item of items) {
+        const { key } = item.record;
+        const query: CrUXRecordQuery = {
+            target: key.url ?? key.origin ?? '',
+            scope: key.url ? 'url' : 'origin',
+            formFactor: (key.formFactor as FormFactor) ?? 'ALL_FORM_FACTORS',
+        };
+        const id = toRecordId(query);
+        const entry = { ...(records[id] ?? { current: null, history: null }) };
+        if ('collectionPeriods' in item.record) entry.history = item as CrUXHistoryResponse;
+        else entry.current = item as CrUXResponse;
+        records[id] = entry;
+    }
+    return items.length;
+};
+
+/**
+ * Adds the records in `files` to `dataset` (a later file replaces the same record).
+ * Throws if a file cannot be parsed or contains nothing usable.
+ */
+export const importOfflineFiles = (files: { name: string; text: string }[], dataset: OfflineDataset = EMPTY_DATASET): OfflineDataset => {
+    const records = { ...dataset.records };
+
+    for (const { name, text } of files) {
+        const trimmed = text.trim();
+        let items: unknown[];
+        try {
+            items = trimmed.startsWith('{') || trimmed.startsWith('[') ? parseJson(trimmed) : parseCsv(trimmed);
+        } catch (e: any) {
+            throw new Error(`${name}: could not be parsed (${e?.message || 'invalid format'})`);
+        }
+
+        const responses = items.filter(isCrUXResponse);
+        const imported = responses.length > 0
+            ? importApiResponses(responses, records)
+            : importBigQueryRows(items.filter((item): item is Row => typeof item === 'object' && item !== null), records);
+        if (imported === 0) throw new Error(`${name}: no CrUX API responses or BigQuery rows with an origin and date found`);
+    }
+
+    // A saved history without its record still needs a current snapshot.
+    for (const [id, entry] of Object.entries(records)) {
+        if (!entry.current && entry.history) records[id] = { ...entry, current: latestSnapshot(entry.history) };
+    }
+
+    return { files: [...dataset.files, ...files.map(f => f.name)], records };
+};
+
+/**
+ * Lists the imported targets with the form factors available for each, for the import panel.
+ */
+export const listOfflineTargets = (dataset: OfflineDataset): { target: string; formFactors: FormFactor[] }[] => {
+    const targets = new Map<string, FormFactor[]>();
+    for (const id of Object.keys(dataset.records)) {
+        const parts = id.split('|');
+        const formFactor = parts.pop() as FormFactor;
+        const target = parts.slice(1).join('|');
+        targets.set(target, [...(targets.get(target) ?? []), formFactor]);
+    }
+    return [...targets].map(([target, formFactors]) => ({ target, formFactors }));
+};
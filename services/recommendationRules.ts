@@ -0,0 +1,342 @@
+/**
+ * recommendationRules.ts - Deterministic recommendation rules
+ *
+ * RESPONSIBILITY:
+ * Maps measured conditions (a poor LCP with a slow server, CLS that only worsens on
+ * mobile, INP in Needs Improvement, ...) to curated, prioritised fixes. Each rule checks
+ * one device's figures and, when its condition holds, returns the fix with the numbers
+ * that triggered it. The simulated Interpreter report is built from these matches, and
+ * the Interpreter prompt receives them as grounding, so the same data yields the same
+ * recommendations whether or not a model writes the report.
+ *
+ * EVALUATION:
+ * Every rule runs against every device. A rule that matches on several devices is kept
+ * once, for the device where it is most severe (ties go to the larger traffic share),
+ * and names the other devices in its rationale. Matches are ordered by priority, then
+ * by their place in RULES, which puts LCP first, then INP and CLS, then the rest.
+ * Rules are typed against the Interpreter's summarized analysis, so they can only read what
+ * it keeps (current metrics, LCP breakdown, navigation types, regressions), never the history series. A metric
+ * CrUX has no data for never triggers a rule.
+ */
+
+import { AnalysisResult, FormFactor, LcpSubpartKey, MetricAnalysis, MetricKey, MetricRating, Recommendation, RecommendationPriority, Regression, SummarizedAnalysis, SummarizedFormFactor } from '../types';
+import { FORM_FACTORS, LCP_SUBPARTS, METRIC_THRESHOLDS } from '../constants';
+import { listFormFactors } from './cruxService';
+import { deriveNavigationHints } from './navigationInsights';
+import { isHistoricalChange } from './regressionDetector';
+import { CORE_WEB_VITALS } from './scoring';
+
+// Share of LCP spent waiting for the server above which TTFB counts as the main problem.
+const TTFB_SHARE_OF_LCP = 0.4;
+
+const RATING_LABELS = { good: 'Good', 'needs-improvement': 'Needs Improvement', poor: 'Poor' } as const;
+const PRIORITY_RANK: Record<RecommendationPriority, number> = { high: 0, medium: 1, low: 2 };
+
+const formatValue = (metric: MetricKey, value: number) =>
+    metric === 'cls' ? value.toFixed(2) : `${Math.round(value)}ms`;
+
+const describeMetric = (metric: MetricKey, { value, rating }: MetricAnalysis) =>
+    `${formatValue(metric, value)} (${RATING_LABELS[rating]})`;
+
+const labelOf = (formFactor: FormFactor) => FORM_FACTORS.find(f => f.key === formFactor)!.label;
+
+const priorityOf = (rating: MetricRating): RecommendationPriority =>
+    rating === 'poor' ? 'high' : rating === 'needs-improvement' ? 'medium' : 'low';
+
+interface RuleContext {
+    analysis: SummarizedAnalysis;
+    formFactor: FormFactor;
+    label: string;
+    data: SummarizedFormFactor;
+}
+
+// What a rule returns when its condition holds. `metric` and `title` override the rule's own.
+interface RuleMatch {
+    priority: RecommendationPriority;
+    expectedImpact: string;
+    rationale: string;
+    metric?: MetricKey;
+    title?: string;
+}
+
+interface RecommendationRule {
+    id: string;
+    metric: MetricKey;
+    title: string;
+    // Set for advice about the whole site, which is never repeated per device.
+    siteWide?: boolean;
+    match: (context: RuleContext) => RuleMatch | null;
+}
+
+const dominantPhase = (data: SummarizedFormFactor, phase: LcpSubpartKey) => {
+    const breakdown = data.lcpBreakdown;
+    if (breakdown?.dominant !== phase || breakdown.subparts[phase] === null) return null;
+    const label = LCP_SUBPARTS.find(part => part.key === phase)!.label;
+    return { label, ms: Math.round(breakdown.subparts[phase]!), textLcp: !!breakdown.resourceType && breakdown.resourceType.text > breakdown.resourceType.image };
+};
+
+// A rule for the dominant LCP phase, at any LCP rating; a Good LCP makes it a low priority.
+const phaseRule = (id: string, phase: LcpSubpartKey, title: string, textLcp: boolean): RecommendationRule => ({
+    id,
+    metric: 'lcp',
+    title,
+    match: ({ label, data }) => {
+        const dominant = dominantPhase(data, phase);
+        if (!dominant || (phase === 'loadDuration' && dominant.textLcp !== textLcp)) return null;
+        const { lcp } = data.metrics;
+        if (lcp.rating === null) return null;
+        return {
+            priority: priorityOf(lcp.rating),
+            expectedImpact: `Shortens ${dominant.label}, and with it ${label} LCP, now ${describeMetric('lcp', lcp)}.`,
+            rationale: `${dominant.label} is the largest LCP phase at ${dominant.ms}ms of the ${formatValue('lcp', lcp.value)} p75${dominant.textLcp ? '; the LCP element is mostly text' : ''}.`,
+        };
+    },
+});
+
+const latestChange = (data: SummarizedFormFactor, metric: MetricKey): Regression | undefined =>
+    data.regressions.find(r => r.metric === metric && isHistoricalChange(r));
+
+/**
+ * CLS that is worse on Mobile than on Desktop: a Mobile step or drift with none on
+ * Desktop, or a worse Mobile rating. Such shifts come from the mobile layout itself.
+ */
+const mobileOnlyCls = ({ analysis, formFactor, data }: RuleContext): RuleMatch | null => {
+    const desktop = analysis.formFactors.DESKTOP;
+    if (formFactor !== 'PHONE' || !desktop) return null;
+    const phone = data.metrics.cls;
+    if (phone.rating === null || desktop.metrics.cls.rating === null) return null;
+    const change = latestChange(data, 'cls');
+    const desktopStable = !latestChange(desktop, 'cls');
+    const worseRating = PRIORITY_RANK[priorityOf(phone.rating)] < PRIORITY_RANK[priorityOf(desktop.metrics.cls.rating)];
+    if (!(change && desktopStable) && !worseRating) return null;
+    return {
+        priority: phone.rating === 'poor' ? 'high' : 'medium',
+        expectedImpact: `Brings Mobile CLS down from ${formatValue('cls', phone.value)} towards the ${formatValue('cls', desktop.metrics.cls.value)} of Desktop.`,
+        rationale: change && desktopStable
+            ? `${change.summary} on Mobile, while Desktop CLS shows no change.`
+            : `Mobile CLS is ${describeMetric('cls', phone)} against ${describeMetric('cls', desktop.metrics.cls)} on Desktop.`,
+    };
+};
+
+// The catalog, in precedence order among matches of equal priority.
+const RULES: RecommendationRule[] = [
+    {
+        id: 'lcp-slow-server',
+        metric: 'lcp',
+        title: 'Cut server response time: cache HTML at the CDN edge and speed up the backend.',
+        match: ({ label, data }) => {
+            const { lcp, ttfb } = data.metrics;
+            if (lcp.rating === null || lcp.rating === 'good' || ttfb.rating === null) return null;
+            const share = ttfb.value / lcp.value;
+            if (ttfb.rating === 'good' && share < TTFB_SHARE_OF_LCP && data.lcpBreakdown?.dominant !== 'ttfb') return null;
+            const goodTtfb = METRIC_THRESHOLDS.ttfb.good;
+            const saving = Math.max(ttfb.value - goodTtfb, 0);
+            return {
+                priority: priorityOf(lcp.rating),
+                expectedImpact: saving > 0
+                    ? `LCP waits on TTFB, so bringing ${label} TTFB under ${goodTtfb}ms would take LCP to about ${formatValue('lcp', lcp.value - saving)}.`
+                    : `LCP waits on TTFB, so every millisecond saved on the server comes off ${label} LCP.`,
+                rationale: `p75 LCP is ${describeMetric('lcp', lcp)} and TTFB is ${describeMetric('ttfb', ttfb)}, ${Math.round(share * 100)}% of it.`,
+            };
+        },
+    },
+    phaseRule('lcp-load-delay', 'loadDelay', 'Make the LCP resource discoverable early: preload it or set `fetchpriority="high"`, and never lazy-load it.', false),
+    phaseRule('lcp-image-size', 'loadDuration', 'Serve a smaller LCP image (AVIF/WebP, sized to the viewport).', false),
+    phaseRule('lcp-font-load', 'loadDuration', 'Preload the web fonts used by the LCP text and use `font-display: swap`.', true),
+    phaseRule('lcp-render-delay', 'renderDelay', 'Remove render-blocking CSS and scripts and avoid client-side rendering of the LCP element.', false),
+    {
+        id: 'inp-poor',
+        metric: 'inp',
+        title: 'Find the slowest interactions with INP attribution in field monitoring and fix their long event handlers and third-party scripts first.',
+        match: ({ label, data }) => {
+            const { inp } = data.metrics;
+            if (inp.rating !== 'poor') return null;
+            return {
+                priority: 'high',
+                expectedImpact: `Brings ${label} INP out of Poor, towards the ${METRIC_THRESHOLDS.inp.good}ms Good threshold.`,
+                rationale: `p75 INP is ${describeMetric('inp', inp)}, over the ${METRIC_THRESHOLDS.inp.poor}ms Poor threshold.`,
+            };
+        },
+    },
+    {
+        id: 'cls-mobile-only',
+        metric: 'cls',
+        title: 'Fix the layout shifts of the mobile layout: reserve space for responsive ads, banners and lazy-loaded images, and avoid late sticky elements.',
+        match: mobileOnlyCls,
+    },
+    {
+        id: 'cls-not-good',
+        metric: 'cls',
+        title: 'Reserve space for images, ads and embeds, and never insert content above what the user is reading.',
+        match: context => {
+            const { cls } = context.data.metrics;
+            if (cls.rating === null || cls.rating === 'good' || mobileOnlyCls(context)) return null;
+            return {
+                priority: priorityOf(cls.rating),
+                expectedImpact: `Brings ${context.label} CLS under the ${METRIC_THRESHOLDS.cls.good} Good threshold.`,
+                rationale: `p75 CLS is ${describeMetric('cls', cls)}.`,
+            };
+        },
+    },
+    {
+        id: 'inp-needs-improvement',
+        metric: 'inp',
+        title: 'Break up long tasks and yield to the main thread (e.g. `scheduler.yield()`), and defer non-critical JavaScript.',
+        match: ({ label, data }) => {
+            const { inp } = data.metrics;
+            if (inp.rating !== 'needs-improvement') return null;
+            return {
+                priority: 'medium',
+                expectedImpact: `Brings ${label} INP under the ${METRIC_THRESHOLDS.inp.good}ms Good threshold.`,
+                rationale: `p75 INP is ${describeMetric('inp', inp)}, ${formatValue('inp', inp.value - METRIC_THRESHOLDS.inp.good)} over the Good threshold.`,
+            };
+        },
+    },
+    {
+        id: 'cwv-regression',
+        metric: 'lcp',
+        title: 'Find the release behind this change and fix or revert it.',
+        match: ({ data }) => {
+            const change = data.regressions.find(r => isHistoricalChange(r) && CORE_WEB_VITALS.includes(r.metric));
+            if (!change) return null;
+            const { rating } = data.metrics[change.metric];
+            return {
+                metric: change.metric,
+                priority: rating === 'needs-improvement' || rating === 'poor' ? 'high' : 'medium',
+                expectedImpact: change.from === null
+                    ? `Returns ${change.metric.toUpperCase()} to its earlier level.`
+                    : `Returns ${change.metric.toUpperCase()} to its earlier level of ${formatValue(change.metric, change.from)}.`,
+                rationale: `${change.summary}.`,
+            };
+        },
+    },
+    {
+        id: 'budget-breach',
+        metric: 'lcp',
+        title: 'Bring the metric back within its budget.',
+        match: ({ label, data }) => {
+            const breach = data.regressions
+                .filter(r => r.kind === 'budget')
+                .sort((a, b) => (b.relativeChange ?? 0) - (a.relativeChange ?? 0))[0];
+            if (!breach) return null;
+            return {
+                metric: breach.metric,
+                title: `Bring ${label} ${breach.metric.toUpperCase()} back within its ${formatValue(breach.metric, breach.from!)} budget.`,
+                priority: 'high',
+                expectedImpact: `Closes the largest ${label} budget breach.`,
+                rationale: `${breach.summary}.`,
+            };
+        },
+    },
+    {
+        id: 'ttfb-slow',
+        metric: 'ttfb',
+        title: 'Reduce TTFB with CDN caching of HTML and fewer redirects.',
+        match: ({ label, data }) => {
+            const { lcp, ttfb } = data.metrics;
+            if (lcp.rating !== 'good' || ttfb.rating === null || ttfb.rating === 'good') return null;
+            return {
+                priority: ttfb.rating === 'poor' ? 'medium' : 'low',
+                expectedImpact: `Every other metric waits on TTFB, so ${label} FCP and LCP drop by the same amount.`,
+                rationale: `p75 TTFB is ${describeMetric('ttfb', ttfb)} while LCP is still Good at ${formatValue('lcp', lcp.value)}.`,
+            };
+        },
+    },
+    {
+        id: 'navigation-hint',
+        metric: 'lcp',
+        title: 'Serve more navigations from the bfcache or a prerender: remove `unload` handlers and `no-store` on HTML, and add Speculation Rules.',
+        match: ({ data }) => {
+            const hint = deriveNavigationHints(data.navigationTypes)[0];
+            if (!hint) return null;
+            return { priority: 'medium', expectedImpact: 'More navigations served from a cache, which load almost instantly.', rationale: hint };
+        },
+    },
+    {
+        id: 'ci-budget',
+        metric: 'lcp',
+        title: 'Add a performance budget to CI so these metrics cannot regress unnoticed.',
+        siteWide: true,
+        match: () => ({
+            priority: 'low',
+            expectedImpact: 'Regressions are caught before release instead of weeks later in CrUX.',
+            rationale: 'CrUX reports a 28-day window, so a regression shows up slowly and after users have felt it.',
+        }),
+    },
+];
+
+export const RECOMMENDATION_RULE_IDS = RULES.map(rule => rule.id);
+
+const trafficShareOf = (analysis: SummarizedAnalysis, formFactor: FormFactor) => {
+    const share = analysis.trafficShare;
+    if (!share || formFactor === 'ALL_FORM_FACTORS') return 0;
+    return formFactor === 'PHONE' ? share.phone : formFactor === 'DESKTOP' ? share.desktop : share.tablet;
+};
+
+/**
+ * Every rule that matches, once each, most important first. A rule is reported for All
+ * Devices only when it matches on no individual device.
+ */
+export const matchRecommendationRules = (analysis: SummarizedAnalysis): Recommendation[] => {
+    const devices = listFormFactors(analysis).map(({ key, label, data }) => ({ analysis, formFactor: key, label, data }));
+    const matches = RULES.flatMap((rule, order) => {
+        const hits = devices
+            .map(context => ({ context, match: rule.match(context) }))
+            .filter((hit): hit is { context: RuleContext; match: RuleMatch } => hit.match !== null)
+            .sort((a, b) =>
+                Number(a.context.formFactor === 'ALL_FORM_FACTORS') - Number(b.context.formFactor === 'ALL_FORM_FACTORS') ||
+                PRIORITY_RANK[a.match.priority] - PRIORITY_RANK[b.match.priority] ||
+                trafficShareOf(analysis, b.context.formFactor) - trafficShareOf(analysis, a.context.formFactor));
+        if (hits.length === 0) return [];
+
+        const [{ context, match }] = hits;
+        const others = hits.slice(1).map(hit => hit.context.label).filter(label => label !== labelOf('ALL_FORM_FACTORS'));
+        const recommendation: Recommendation = {
+            title: match.title ?? rule.title,
+            metric: match.metric ?? rule.metric,
+            formFactor: context.formFactor,
+            priority: match.priority,
+            expectedImpact: match.expectedImpact,
+            rationale: rule.siteWide || others.length === 0 ? match.rationale : `${match.rationale} Also applies to ${others.join(' and ')}.`,
+            ruleId: rule.id,
+        };
+        return [{ recommendation, order }];
+    });
+    return matches
+        .sort((a, b) => PRIORITY_RANK[a.recommendation.priority] - PRIORITY_RANK[b.recommendation.priority] || a.order - b.order)
+        .map(({ recommendation }) => recommendation);
+};
+
+/**
+ * The recommendations of a report without a model: the top `limit` matches. The CI
+ * budget rule matches everywhere and only fills the list when fewer rules hold.
+ */
+export const evaluateRecommendationRules = (analysis: SummarizedAnalysis, limit = 3): Recommendation[] =>
+    matchRecommendationRules(analysis).slice(0, limit);
+
+/**
+ * The matches as prompt lines, in order, for the Interpreter to follow.
+ */
+export const describeRuleMatches = (analysis: SummarizedAnalysis): string => {
+    const matches = matchRecommendationRules(analysis);
+    return matches
+        .map((r, i) => `${i + 1}. [${r.ruleId}] ${r.priority} priority, ${r.formFactor} ${r.metric.toUpperCase()}: ${r.title} Evidence: ${r.rationale} Expected impact: ${r.expectedImpact}`)
+        .join('\n    ');
+};
+
+/**
+ * Rules that match on at least two sites of a batch, most widespread first: the issues
+ * the sites share. Site-wide advice, which matches everywhere, is left out.
+ */
+export const findSharedRules = (results: AnalysisResult[]): { ruleId: string; title: string; domains: string[] }[] => {
+    const byRule = new Map<string, string[]>();
+    for (const result of results) {
+        for (const { ruleId } of matchRecommendationRules(result)) {
+            byRule.set(ruleId!, [...(byRule.get(ruleId!) ?? []), result.domain]);
+        }
+    }
+    return RULES
+        .filter(rule => !rule.siteWide && (byRule.get(rule.id)?.length ?? 0) >= 2)
+        .map(rule => ({ ruleId: rule.id, title: rule.title, domains: byRule.get(rule.id)! }))
+        .sort((a, b) => b.domains.length - a.domains.length);
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { detectRegressions } from './regressionDetector';
+import { MetricAnalysis, MetricKey, TimeSeries } from '../types';
+import { METRIC_KEYS } from '../constants';
+
+// Weekly periods ending on consecutive Saturdays, as CrUX history returns them.
+const weekly = (values: number[]): TimeSeries =>
+    values.map((value, i) => {
+        const end = new Date(Date.UTC(2025, 3, 5 + i * 7));
+        const start = new Date(end.getTime() - 27 * 24 * 60 * 60 * 1000);
+        return { period: { start: start.toISOString().slice(0, 10), end: end.toISOString().slice(0, 10) }, value };
+    });
+
+const detectLcp = (values: number[]) => {
+    const series = Object.fromEntries(METRIC_KEYS.map(key => [key, key === 'lcp' ? weekly(values) : []])) as Record<MetricKey, TimeSeries>;
+    const metrics = Object.fromEntries(METRIC_KEYS.map(key => [key, { value: 0, rating: 'good', distribution: null, budget: null }])) as Record<MetricKey, MetricAnalysis>;
+    return detectRegressions(series, metrics, 'weekly');
+};
+
+const repeat = (value: number, times: number) => Array<number>(times).fill(value);
+
+describe('detectRegressions', () => {
+    it('finds a regression that follows an improvement', () => {
+        const regressions = detectLcp([...repeat(2600, 8), ...repeat(2000, 8), ...repeat(2700, 9)]);
+
+        expect(regressions).toHaveLength(1);
+        expect(regressions[0]).toMatchObject({ metric: 'lcp', kind: 'step', from: 2000, to: 2700 });
+    });
+
+    it('reports a single step', () => {
+        const regressions = detectLcp([...repeat(2000, 12), ...repeat(2500, 13)]);
+
+        expect(regressions).toHaveLength(1);
+        expect(regressions[0]).toMatchObject({ kind: 'step', from: 2000, to: 2500 });
+    });
+
+    it('ignores a shift below the absolute floor', () => {
+        expect(detectLcp([...repeat(2000, 12), ...repeat(2050, 13)])).toEqual([]);
+    });
+
+    it('ignores an improvement', () => {
+        expect(detectLcp([...repeat(2600, 12), ...repeat(2000, 13)])).toEqual([]);
+    });
+});
@@ -0,0 +1,253 @@
+/**
+ * regressionDetector.ts - Deterministic change detection for CrUX history
+ *
+ * RESPONSIBILITY:
+ * Scans every p75 series of a form factor for step changes and sustained drifts,
+ * and reports when each one started and how large it was. Detection is purely
+ * statistical, so the same history always yields the same findings; the Historian
+ * Agent explains these findings rather than eyeballing the raw series.
+ *
+ * METHOD:
+ * - Noise is estimated from the spread of period-to-period differences (median
+ *   absolute deviation), which a single step or a steady drift barely affects.
+ * - A step model (two flat levels) and a drift model (straight line) are fitted;
+ *   the one with the lower residual wins. CrUX API periods are rolling 28-day windows
+ *   advancing weekly, so a step shows up as a ramp over the first few periods.
+ *   The step model blends the two levels across those periods. Monthly periods
+ *   (BigQuery exports) do not overlap, so only the month of the change is mixed.
+ * - A change is only reported when its shift clears the noise, a relative threshold
+ *   and a per-metric absolute floor. A drift must also explain most of the variance,
+ *   since it is a single model of the whole series.
+ * - Otherwise the series is always split at its best step (binary segmentation) and
+ *   both segments are searched again, whether or not that step counts. A regression
+ *   that follows an improvement (a V shape) is found this way even though no single
+ *   step explains the whole series.
+ */
+
+import { MetricAnalysis, MetricKey, PeriodCadence, PeriodRange, Regression, TimeSeries } from '../types';
+import { METRIC_KEYS } from '../constants';
+
+// Fewest periods with data on each side of a step (and half the minimum for a drift).
+const MIN_SEGMENT_PERIODS = 3;
+// Periods, from the one a change lands in, whose window mixes the old and new level.
+const RAMP_PERIODS: Record<PeriodCadence, number> = { weekly: 3, monthly: 1 };
+// The shift must be at least this many times the period-to-period noise.
+const MIN_SIGNAL_TO_NOISE = 3;
+const MIN_RELATIVE_CHANGE = 0.1;
+// Share of the series variance a drift must explain.
+const MIN_EXPLAINED_VARIANCE = 0.5;
+// Absolute floors so near-zero metrics (CLS especially) don't flag on rounding noise.
+const MIN_ABSOLUTE_CHANGE: Record<MetricKey, number> = {
+    lcp: 100,
+    cls: 0.01,
+    inp: 20,
+    fcp: 100,
+    ttfb: 50,
+    rtt: 10,
+};
+// RTT reflects the visitors' networks rather than the site, so it is never flagged as Poor.
+const STATUS_METRICS = METRIC_KEYS.filter(key => key !== 'rtt');
+
+interface Sample {
+    index: number;
+    period: PeriodRange;
+    value: number;
+}
+
+interface Change {
+    kind: 'step' | 'drift';
+    start: Sample;
+    end: Sample;
+    from: number;
+    to: number;
+}
+
+interface Fit {
+    from: number;
+    to: number;
+    rss: number;
+}
+
+interface StepFit extends Fit {
+    at: Sample;
+    before: Sample[];
+    after: Sample[];
+}
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const sumSquares = (samples: Sample[], center: number) =>
+    samples.reduce((sum, s) => sum + (s.value - center) ** 2, 0);
+
+const toSamples = (series: TimeSeries): Sample[] =>
+    series.flatMap((point, index) => (point.value === null ? [] : [{ index, period: point.period, value: point.value }]));
+
+/**
+ * Robust period-to-period noise: the median absolute deviation of consecutive
+ * differences, scaled to a standard deviation.
+ */
+const estimateNoise = (samples: Sample[]): number => {
+    const diffs = samples.slice(1).map((s, i) => s.value - samples[i].value);
+    if (diffs.length === 0) return 0;
+    const center = median(diffs);
+    return 1.4826 * median(diffs.map(d => Math.abs(d - center)));
+};
+
+/**
+ * Best single step: tries every split and keeps the one with the lowest residual.
+ * Periods inside the ramp are expected to move linearly between the two levels.
+ */
+const fitStep = (samples: Sample[], ramp: number): StepFit | null => {
+    let best: StepFit | null = null;
+    for (let k = MIN_SEGMENT_PERIODS; k < samples.length; k++) {
+        const at = samples[k];
+        const before = samples.slice(0, k);
+        const after = samples.filter(s => s.index >= at.index + ramp);
+        if (after.length < MIN_SEGMENT_PERIODS) break;
+
+        const mixed = samples.filter(s => s.index >= at.index && s.index < at.index + ramp);
+        const from = mean(before.map(s => s.value));
+        const to = mean(after.map(s => s.value));
+        const rampRss = mixed.reduce((sum, s) => {
+            const weight = (s.index - at.index + 1) / (ramp + 1);
+            return sum + (s.value - (from + (to - from) * weight)) ** 2;
+        }, 0);
+        const rss = sumSquares(before, from) + sumSquares(after, to) + rampRss;
+
+        if (!best || rss < best.rss) best = { at, before, after, from, to, rss };
+    }
+    return best;
+};
+
+/**
+ * Least-squares line over period index, so gaps keep their real spacing.
+ */
+const fitLine = (samples: Sample[]): Fit => {
+    const xMean = mean(samples.map(s => s.index));
+    const yMean = mean(samples.map(s => s.value));
+    const sxx = samples.reduce((sum, s) => sum + (s.index - xMean) ** 2, 0);
+    const sxy = samples.reduce((sum, s) => sum + (s.index - xMean) * (s.value - yMean), 0);
+    const slope = sxx === 0 ? 0 : sxy / sxx;
+    const at = (x: number) => yMean + slope * (x - xMean);
+    const rss = samples.reduce((sum, s) => sum + (s.value - at(s.index)) ** 2, 0);
+    return { from: at(samples[0].index), to: at(samples[samples.length - 1].index), rss };
+};
+
+const detectChanges = (samples: Sample[], noise: number, minChange: number, ramp: number): Change[] => {
+    if (samples.length < MIN_SEGMENT_PERIODS * 2) return [];
+
+    const flatRss = sumSquares(samples, mean(samples.map(s => s.value)));
+    if (flatRss === 0) return [];
+
+    const explains = (fit: Fit) => fit.rss <= flatRss * (1 - MIN_EXPLAINED_VARIANCE);
+    const isReal = (fit: Fit) =>
+        Math.abs(fit.to - fit.from) >= Math.max(MIN_SIGNAL_TO_NOISE * noise, MIN_RELATIVE_CHANGE * Math.abs(fit.from), minChange);
+
+    const step = fitStep(samples, ramp);
+    const line = fitLine(samples);
+
+    if ((!step || line.rss < step.rss) && explains(line) && isReal(line)) {
+        return [{ kind: 'drift', start: samples[0], end: samples[samples.length - 1], ...line }];
+    }
+
+    if (!step) return [];
+    const earlier = detectChanges(step.before, noise, minChange, ramp);
+    const later = detectChanges(step.after, noise, minChange, ramp);
+
+    // The levels either side of the step are those of the adjacent segments, so a step
+    // that follows an earlier change is measured from the level that change left behind.
+    const last = earlier[earlier.length - 1];
+    const next = later[0];
+    const fromSamples = last ? step.before.filter(s => s.index >= last.end.index) : step.before;
+    const toSamples = next ? step.after.filter(s => s.index < next.start.index) : step.after;
+    const levels: Fit = {
+        from: mean(fromSamples.map(s => s.value)),
+        to: toSamples.length > 0 ? mean(toSamples.map(s => s.value)) : step.to,
+        rss: step.rss,
+    };
+
+    return [
+        ...earlier,
+        ...(isReal(levels) ? [{ kind: 'step' as const, start: step.at, end: step.after[0], ...levels }] : []),
+        ...later,
+    ];
+};
+
+const formatValue = (metric: MetricKey, value: number) =>
+    metric === 'cls' ? value.toFixed(3) : `${Math.round(value)}ms`;
+
+const summarize = (metric: MetricKey, change: Change, relativeChange: number, signalToNoise: number | null): string => {
+    const name = metric.toUpperCase();
+    const pct = `${Math.round(relativeChange * 100)}%`;
+    const levels = `${formatValue(metric, change.from)} -> ${formatValue(metric, change.to)}`;
+    const noise = signalToNoise === null ? '' : `, ${signalToNoise.toFixed(1)}x the period-to-period noise`;
+    return change.kind === 'step'
+        ? `${name} stepped up ${pct} (${levels}) in the period ending ${change.start.period.end}${noise}`
+        : `${name} drifted up ${pct} (${levels}) between the periods ending ${change.start.period.end} and ${change.end.period.end}${noise}`;
+};
+
+/**
+ * Detects worsening step changes and drifts in every metric series, followed by
+ * every site metric whose current p75 is rated Poor. Improvements are not reported.
+ */
+export const detectRegressions = (
+    series: Record<MetricKey, TimeSeries>,
+    metrics: Record<MetricKey, MetricAnalysis>,
+    cadence: PeriodCadence
+): Regression[] => {
+    const regressions: Regression[] = [];
+
+    for (const metric of METRIC_KEYS) {
+        const samples = toSamples(series[metric] || []);
+        const noise = estimateNoise(samples);
+
+        for (const change of detectChanges(samples, noise, MIN_ABSOLUTE_CHANGE[metric], RAMP_PERIODS[cadence])) {
+            // Every Core Web Vital is lower-is-better, so only increases are regressions.
+            if (change.to <= change.from) continue;
+            const relativeChange = change.from > 0 ? (change.to - change.from) / change.from : null;
+            const signalToNoise = noise > 0 ? (change.to - change.from) / noise : null;
+            regressions.push({
+                metric,
+                kind: change.kind,
+                start: change.start.period,
+                end: change.end.period,
+                from: change.from,
+                to: change.to,
+                relativeChange,
+                signalToNoise,
+                summary: summarize(metric, change, relativeChange ?? 0, signalToNoise),
+            });
+        }
+    }
+
+    for (const metric of STATUS_METRICS) {
+        const { value, rating } = metrics[metric];
+        if (rating !== 'poor') continue;
+        regressions.push({
+            metric,
+            kind: 'poor',
+            start: null,
+            end: null,
+            from: null,
+            to: value,
+            relativeChange: null,
+            signalToNoise: null,
+            summary: `${metric.toUpperCase()} is Poor (${formatValue(metric, value)})`,
+        });
+    }
+
+    return regressions;
+};
+
+/**
+ * True for findings that describe a change over time (steps and drifts), as opposed
+ * to the current value being Poor or over budget.
+ */
+export const isHistoricalChange = (regression: Regression) =>
+    regression.kind === 'step' || regression.kind === 'drift';
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { renderScoreboard, verifyFigures } from './reportVerifier';
+import { rateMetric } from './cruxService';
+import { rankSites } from './scoring';
+import { AnalysisResult, FormFactor, FormFactorAnalysis, MetricKey } from '../types';
+import { METRIC_KEYS } from '../constants';
+
+const device = (formFactor: FormFactor, values: Partial<Record<MetricKey, number>>, score: number): FormFactorAnalysis => ({
+    formFactor,
+    metrics: Object.fromEntries(METRIC_KEYS.map(key => {
+        const value = values[key] ?? null;
+        return [key, { value, rating: value === null ? null : rateMetric(key, value), distribution: null, budget: null }];
+    })) as FormFactorAnalysis['metrics'],
+    history: { periods: [], cadence: 'weekly', series: Object.fromEntries(METRIC_KEYS.map(key => [key, []])) as FormFactorAnalysis['history']['series'], distributions: {} },
+    forecasts: {},
+    lcpBreakdown: null,
+    navigationTypes: null,
+    regressions: [],
+    assessment: { passes: false, failing: [], score },
+    historyError: null,
+    collectionPeriod: '2025-09-21 to 2025-10-18',
+    scope: 'origin',
+});
+
+const site = (domain: string, phone: FormFactorAnalysis, desktop: FormFactorAnalysis): AnalysisResult => ({
+    domain,
+    scope: 'origin',
+    origin: domain,
+    formFactors: { PHONE: phone, DESKTOP: desktop },
+    trafficShare: null,
+});
+
+const shop = site(
+    'https://shop.example',
+    device('PHONE', { lcp: 3124, cls: 0.12, inp: 206, ttfb: 900 }, 62.5),
+    device('DESKTOP', { lcp: 1709, cls: 0.04, inp: 80, ttfb: 400 }, 88.1),
+);
+const blog = site(
+    'https://blog.example',
+    device('PHONE', { lcp: 2420, cls: 0.05, inp: 150 }, 81.2),
+    device('DESKTOP', { lcp: 1500, cls: 0.02, inp: 60 }, 93.4),
+);
+const results = [shop, blog];
+
+const table = (...rows: string[]) => [
+    '| Rank | URL | Mobile LCP | Mobile CLS | Health Score |',
+    '| --- | --- | --- | --- | --- |',
+    ...rows,
+].join('\n');
+
+describe('verifyFigures', () => {
+    it('corrects a wrong scoreboard cell from the data', () => {
+        const scoreboard = renderScoreboard(results, rankSites(results));
+        const tampered = scoreboard.replace('| 3124ms |', '| 2124ms |');
+
+        const verification = verifyFigures(tampered, results);
+
+        expect(verification.text).toBe(scoreboard);
+        expect(verification.discrepancies).toEqual([
+            { context: 'https://shop.example Mobile LCP (scoreboard)', written: '2124ms', expected: '3124ms', corrected: true },
+        ]);
+    });
+
+    it('accepts a value written to a coarser precision', () => {
+        const verification = verifyFigures(table(
+            '| 1 | https://blog.example | 2.4s | 0.05 | 81.2 |',
+            '| 2 | https://shop.example | 3124ms | 0.1 | 62.5 |',
+        ), results);
+
+        expect(verification.checked).toBe(8);
+        expect(verification.discrepancies).toEqual([]);
+    });
+
+    it('still corrects a coarse value outside its precision', () => {
+        const verification = verifyFigures(table('| 1 | https://blog.example | 2.3s | 0.05 | 81.2 |'), results);
+
+        expect(verification.discrepancies).toMatchObject([{ written: '2.3s', expected: '2420ms', corrected: true }]);
+    });
+
+    it('flags an inline figure that belongs to another device', () => {
+        const verification = verifyFigures('On shop.example, Mobile LCP is 1709ms.', results);
+
+        expect(verification.checked).toBe(1);
+        expect(verification.discrepancies).toEqual([
+            { context: 'https://shop.example Mobile LCP', written: 'Mobile LCP is 1709ms', expected: 'Mobile 3124ms', corrected: false },
+        ]);
+        expect(verification.text).toBe('On shop.example, Mobile LCP is 1709ms.');
+    });
+
+    it('accepts an inline figure without a device when any device holds it', () => {
+        expect(verifyFigures('On shop.example, LCP is 1709ms.', results).discrepancies).toEqual([]);
+    });
+
+    it('leaves a table row for an unknown site untouched', () => {
+        const markdown = table('| 1 | https://unknown.example | 9999ms | 0.9 | 1.0 |');
+
+        const verification = verifyFigures(markdown, results);
+
+        expect(verification.text).toBe(markdown);
+        expect(verification.checked).toBe(0);
+        expect(verification.discrepancies).toEqual([]);
+    });
+});
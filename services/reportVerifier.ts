@@ -0,0 +1,235 @@
+/**
+ * reportVerifier.ts - Deterministic scoreboard and figure checks for generated reports
+ *
+ * RESPONSIBILITY:
+ * Keeps the numbers in generated reports tied to the data. The batch scoreboard is
+ * rendered here from the AnalysisResults rather than copied by the model, and the
+ * figures a model does write are cross-checked against the same data:
+ * - Markdown tables: every cell under a "<Device> <METRIC>", "Health Score", "Core Web
+ *   Vitals" or "Rank" header is compared with the site named in the row's URL cell. A
+ *   cell that disagrees is replaced by the value from the data.
+ * - Inline figures: a metric directly followed by a value ("Mobile LCP is 3124ms",
+ *   "INP of 206ms", "health score 77.7") must match a value the data holds for that
+ *   metric on the named device, or on any device when none is named: the current p75,
+ *   a history point, a detected change, a budget or a rating threshold. Mismatches are
+ *   only flagged, since the sentence may be about another period.
+ * A written value matches when it agrees to the precision it was written in, so "2.4s"
+ * matches 2420ms and "0.1" matches 0.12.
+ */
+
+import { AnalysisResult, FailedSite, FigureDiscrepancy, FormFactor, FormFactorAnalysis, MetricKey, ReportVerification, SiteRanking } from '../types';
+import { FORM_FACTORS, METRIC_KEYS, METRIC_THRESHOLDS } from '../constants';
+import { listFormFactors } from './cruxService';
+import { formatScore, rankSites } from './scoring';
+
+const formatValue = (metric: MetricKey, value: number | null) =>
+    value === null ? 'No data' : metric === 'cls' ? value.toFixed(2) : `${Math.round(value)}ms`;
+
+const labelOf = (formFactor: FormFactor) => FORM_FACTORS.find(f => f.key === formFactor)!.label;
+
+/**
+ * The Master Scoreboard: one row per ranked site in ranking order, then one per site
+ * without data, with LCP, CLS and INP columns for every device any site has data for.
+ */
+export const renderScoreboard = (results: AnalysisResult[], rankings: SiteRanking[], failedSites: FailedSite[] = []): string => {
+    const columns = FORM_FACTORS.filter(({ key }) => results.some(r => r.formFactors[key]));
+    const headers = ['Rank', 'URL', 'Date Range', ...columns.flatMap(({ label }) => [`${label} LCP`, `${label} CLS`, `${label} INP`]), 'Core Web Vitals', 'Health Score'];
+
+    const rows = rankings.map(ranking => {
+        const r = results.find(result => result.domain === ranking.domain)!;
+        const fallback = r.scope === 'url' && listFormFactors(r).some(f => f.data.scope === 'origin') ? ' (origin fallback)' : '';
+        const cells = columns.flatMap(({ key }) => {
+            const ff = r.formFactors[key];
+            return ff ? [formatValue('lcp', ff.metrics.lcp.value), formatValue('cls', ff.metrics.cls.value), formatValue('inp', ff.metrics.inp.value)] : ['N/A', 'N/A', 'N/A'];
+        });
+        const assessment = `${ranking.passes ? 'Pass' : 'Fail'} (${labelOf(ranking.formFactor)})`;
+        return `| ${[String(ranking.rank), `${r.domain}${fallback}`, listFormFactors(r)[0]?.data.collectionPeriod ?? 'N/A', ...cells, assessment, formatScore(ranking.score)].join(' | ')} |`;
+    });
+    const failedRows = failedSites.map(site => `| ${['-', site.domain, ...headers.slice(2).map(() => 'No data')].join(' | ')} |`);
+
+    return [
+        `| ${headers.join(' | ')} |`,
+        `| ${headers.map(() => '---').join(' | ')} |`,
+        ...rows,
+        ...failedRows,
+    ].join('\n');
+};
+
+interface WrittenFigure {
+    value: number;
+    tolerance: number;
+}
+
+// A written number in the metric's unit (ms, or none for CLS and scores), with half a unit of its last digit as tolerance.
+const readFigure = (written: string, inMs: boolean): WrittenFigure | null => {
+    const match = written.replace(/,/g, '').match(/(\d+(?:\.(\d+))?)\s*(ms|s)?/i);
+    if (!match) return null;
+    const scale = inMs && match[3]?.toLowerCase() === 's' ? 1000 : 1;
+    const tolerance = 0.5 * 10 ** -(match[2]?.length ?? 0) * scale;
+    return { value: Number(match[1]) * scale, tolerance: inMs ? Math.max(tolerance, 1) : tolerance };
+};
+
+const agrees = (figure: WrittenFigure, expected: number) => Math.abs(figure.value - expected) <= figure.tolerance + 1e-9;
+
+const hostOf = (domain: string) => domain.toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\/$/, '');
+
+// The site a table's URL cell names, ignoring markdown emphasis and the origin fallback note.
+const findSite = (cell: string, results: AnalysisResult[]) => {
+    const host = hostOf(cell.replace(/[`*]/g, '').replace(/\(origin fallback\)/i, '').trim());
+    return results.find(r => hostOf(r.domain) === host) ?? null;
+};
+
+type Column =
+    | { kind: 'metric'; formFactor: FormFactor; metric: MetricKey }
+    | { kind: 'score' | 'assessment' | 'rank' | 'url' };
+
+const readHeader = (header: string): Column | null => {
+    const normalized = header.replace(/[`*]/g, '').trim().toLowerCase();
+    if (normalized === 'url') return { kind: 'url' };
+    if (normalized === 'rank') return { kind: 'rank' };
+    if (normalized === 'health score') return { kind: 'score' };
+    if (normalized === 'core web vitals') return { kind: 'assessment' };
+    for (const { key, label } of FORM_FACTORS) {
+        const metric = METRIC_KEYS.find(m => normalized === `${label} ${m}`.toLowerCase());
+        if (metric) return { kind: 'metric', formFactor: key, metric };
+    }
+    return null;
+};
+
+const splitRow = (line: string) => line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+
+const isTableLine = (line: string) => line.trim().startsWith('|');
+
+/**
+ * Checks one cell. Returns the value the data holds when the cell disagrees with it,
+ * otherwise null.
+ */
+const checkCell = (column: Column, cell: string, site: AnalysisResult, ranking: SiteRanking): string | null => {
+    switch (column.kind) {
+        case 'metric': {
+            const ff = site.formFactors[column.formFactor];
+            const value = ff ? ff.metrics[column.metric].value : null;
+            const expected = ff ? formatValue(column.metric, value) : 'N/A';
+            const figure = readFigure(cell, column.metric !== 'cls');
+            if (value === null || !figure) return (value === null) === (!figure) ? null : expected;
+            return agrees(figure, value) ? null : expected;
+        }
+        case 'score': {
+            const expected = formatScore(ranking.score);
+            const figure = readFigure(cell, false);
+            if (ranking.score === null || !figure) return (ranking.score === null) === (!figure) ? null : expected;
+            return agrees(figure, ranking.score) ? null : expected;
+        }
+        case 'assessment': {
+            const expected = `${ranking.passes ? 'Pass' : 'Fail'} (${labelOf(ranking.formFactor)})`;
+            return cell.toLowerCase().startsWith(ranking.passes ? 'pass' : 'fail') ? null : expected;
+        }
+        case 'rank':
+            return Number(cell) === ranking.rank ? null : String(ranking.rank);
+        case 'url':
+            return null;
+    }
+};
+
+// Values the data holds for a metric on one device; any of them may be quoted.
+const knownValues = (data: FormFactorAnalysis, metric: MetricKey): number[] => [
+    ...(data.metrics[metric].value === null ? [] : [data.metrics[metric].value]),
+    ...(data.history.series[metric] ?? []).flatMap(point => point.value === null ? [] : [point.value]),
+    ...data.regressions.filter(r => r.metric === metric).flatMap(r => [r.from, r.to]).filter((value): value is number => value !== null),
+    ...(data.metrics[metric].budget ? [data.metrics[metric].budget!.limit] : []),
+    METRIC_THRESHOLDS[metric].good,
+    METRIC_THRESHOLDS[metric].poor,
+];
+
+const DEVICE_WORDS: Record<string, FormFactor> = { mobile: 'PHONE', phone: 'PHONE', desktop: 'DESKTOP', tablet: 'TABLET', 'all devices': 'ALL_FORM_FACTORS' };
+
+const INLINE_METRIC_FIGURE = /\b(?:(mobile|phone|desktop|tablet|all devices)\s+)?(?:p75\s+)?(lcp|cls|inp|fcp|ttfb|rtt)(?:\s+p75)?(?:\s+(?:is|was|of|at))?\s*[:=(]?\s*(\d+(?:,\d{3})*(?:\.\d+)?\s*(?:ms|s)?)(?![\w%-]|\.\d)/gi;
+const INLINE_SCORE_FIGURE = /\bhealth score(?:\s+(?:is|was|of|at))?\s*[:=(]?\s*(\d+(?:\.\d+)?)(?![\w%-]|\.\d)/gi;
+
+// Checks the inline figures of one line, adds its discrepancies and returns how many figures it checked.
+const verifyInline = (line: string, results: AnalysisResult[], discrepancies: FigureDiscrepancy[]): number => {
+    const lower = line.toLowerCase();
+    const named = results.filter(r => lower.includes(hostOf(r.domain)));
+    const sites = named.length > 0 ? named : results;
+    const prefix = sites.length === 1 && results.length > 1 ? `${sites[0].domain} ` : '';
+    let checked = 0;
+
+    for (const [written, device, metricName, figureText] of line.matchAll(INLINE_METRIC_FIGURE)) {
+        const metric = metricName.toLowerCase() as MetricKey;
+        const formFactor = device ? DEVICE_WORDS[device.toLowerCase()] : null;
+        const candidates = sites.flatMap(site => listFormFactors(site).filter(f => !formFactor || f.key === formFactor));
+        const figure = readFigure(figureText, metric !== 'cls');
+        if (candidates.length === 0 || !figure) continue;
+        checked++;
+        if (candidates.some(({ data }) => knownValues(data, metric).some(value => agrees(figure, value)))) continue;
+        discrepancies.push({
+            context: `${prefix}${formFactor ? `${labelOf(formFactor)} ` : ''}${metric.toUpperCase()}`,
+            written: written.trim(),
+            expected: candidates.map(({ label, data }) => `${label} ${formatValue(metric, data.metrics[metric].value)}`).join(', '),
+            corrected: false,
+        });
+    }
+
+    for (const [written, figureText] of line.matchAll(INLINE_SCORE_FIGURE)) {
+        const figure = readFigure(figureText, false);
+        const scores = sites.flatMap(site => listFormFactors(site).map(({ label, data }) => ({ label, score: data.assessment.score })));
+        if (!figure || scores.every(({ score }) => score === null)) continue;
+        checked++;
+        if (scores.some(({ score }) => score !== null && agrees(figure, score))) continue;
+        discrepancies.push({
+            context: `${prefix}health score`,
+            written: written.trim(),
+            expected: scores.map(({ label, score }) => `${label} ${formatScore(score)}`).join(', '),
+            corrected: false,
+        });
+    }
+    return checked;
+};
+
+/**
+ * Cross-checks the figures in a generated markdown report against the data of the sites
+ * it covers. Rows and lines that name one of the sites are checked against that site;
+ * lines that name none are checked against all of them.
+ */
+export const verifyFigures = (markdown: string, results: AnalysisResult[]): ReportVerification => {
+    const rankings = rankSites(results);
+    const discrepancies: FigureDiscrepancy[] = [];
+    let checked = 0;
+    let columns: (Column | null)[] | null = null;
+
+    const lines = markdown.split('\n').map(line => {
+        if (!isTableLine(line)) {
+            columns = null;
+            checked += verifyInline(line, results, discrepancies);
+            return line;
+        }
+        const cells = splitRow(line);
+        if (!columns) {
+            columns = cells.map(readHeader);
+            return line;
+        }
+        if (cells.every(cell => /^:?-+:?$/.test(cell))) return line;
+
+        const urlIndex = columns.findIndex(column => column?.kind === 'url');
+        const site = urlIndex >= 0 && cells[urlIndex] ? findSite(cells[urlIndex], results) : null;
+        const ranking = site && rankings.find(r => r.domain === site.domain);
+        if (!site || !ranking) return line;
+
+        let corrected = false;
+        const fixed = cells.map((cell, i) => {
+            const column = columns![i];
+            if (!column || column.kind === 'url') return cell;
+            checked++;
+            const expected = checkCell(column, cell, site, ranking);
+            if (expected === null) return cell;
+            const name = column.kind === 'metric' ? `${labelOf(column.formFactor)} ${column.metric.toUpperCase()}`
+                : column.kind === 'score' ? 'health score' : column.kind === 'assessment' ? 'Core Web Vitals assessment' : 'rank';
+            discrepancies.push({ context: `${site.domain} ${name} (scoreboard)`, written: cell, expected, corrected: true });
+            corrected = true;
+            return expected;
+        });
+        return corrected ? `| ${fixed.join(' | ')} |` : line;
+    });
+
+    return { checked, discrepancies, text: lines.join('\n') };
+};
@@ -0,0 +1,129 @@
+/**
+ * requestScheduler.ts - Shared rate limiter with retry and backoff
+ *
+ * RESPONSIBILITY:
+ * Every outbound CrUX request goes through one scheduler so a batch audit stays
+ * inside the API quota instead of bursting past it and failing. The scheduler:
+ * - hands out request slots in order from a sliding one-minute budget,
+ * - retries failures the caller marks as retryable, with exponential backoff and jitter,
+ * - honours a server-provided retry delay (`Retry-After`) when there is one,
+ * - reports waits and retries to listeners so the Logs panel can show them.
+ */
+
+const WINDOW_MS = 60_000;
+
+export interface SchedulerOptions {
+    requestsPerMinute: number;
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    isRetryable: (error: unknown) => boolean;
+    // Server-requested delay before retrying, or null to use backoff.
+    getRetryAfterMs: (error: unknown) => number | null;
+}
+
+export type SchedulerStatus =
+    | { type: 'throttled'; label: string; waitMs: number; queued: number; requestsPerMinute: number }
+    | { type: 'retrying'; label: string; waitMs: number; attempt: number; maxRetries: number; reason: string };
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Parses a `Retry-After` header (delay in seconds or an HTTP date) into milliseconds.
+ */
+export const parseRetryAfter = (header: string | null): number | null => {
+    if (!header) return null;
+    const seconds = Number(header);
+    if (isFinite(seconds)) return Math.max(seconds, 0) * 1000;
+    const date = Date.parse(header);
+    return isNaN(date) ? null : Math.max(date - Date.now(), 0);
+};
+
+export class RequestScheduler {
+    private options: SchedulerOptions;
+    private starts: number[] = [];
+    private queued = 0;
+    // Slot acquisition is chained so requests leave the queue in the order they arrived.
+    private slotChain: Promise<void> = Promise.resolve();
+    private listeners = new Set<(status: SchedulerStatus) => void>();
+
+    constructor(options: SchedulerOptions) {
+        this.options = options;
+    }
+
+    get requestsPerMinute() {
+        return this.options.requestsPerMinute;
+    }
+
+    setRequestsPerMinute(requestsPerMinute: number) {
+        this.options.requestsPerMinute = Math.max(1, Math.floor(requestsPerMinute));
+    }
+
+    /**
+     * Subscribes to wait and retry notifications. Returns the unsubscribe function.
+     */
+    onStatus(listener: (status: SchedulerStatus) => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Runs `task` once a slot is free, retrying retryable failures. Every attempt,
+     * including retries, counts against the per-minute budget.
+     */
+    async run<T>(label: string, task: () => Promise<T>): Promise<T> {
+        const { maxRetries, isRetryable, getRetryAfterMs } = this.options;
+        for (let attempt = 0; ; attempt++) {
+            await this.acquireSlot(label);
+            try {
+                return await task();
+            } catch (error) {
+                if (attempt >= maxRetries || !isRetryable(error)) throw error;
+                const waitMs = getRetryAfterMs(error) ?? this.backoff(attempt);
+                this.emit({
+                    type: 'retrying',
+                    label,
+                    waitMs,
+                    attempt: attempt + 1,
+                    maxRetries,
+                    reason: error instanceof Error ? error.message : String(error),
+                });
+                await sleep(waitMs);
+            }
+        }
+    }
+
+    /**
+     * Exponential backoff with "equal jitter": half the delay is fixed, half random,
+     * so parallel requests that failed together don't retry in lockstep.
+     */
+    private backoff(attempt: number): number {
+        const { baseDelayMs, maxDelayMs } = this.options;
+        const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+        return Math.round(delay / 2 + Math.random() * (delay / 2));
+    }
+
+    private acquireSlot(label: string): Promise<void> {
+        this.queued++;
+        const slot = this.slotChain.then(async () => {
+            for (;;) {
+                const now = Date.now();
+                this.starts = this.starts.filter(start => now - start < WINDOW_MS);
+                if (this.starts.length < this.options.requestsPerMinute) break;
+
+                const waitMs = this.starts[0] + WINDOW_MS - now;
+                this.emit({ type: 'throttled', label, waitMs, queued: this.queued, requestsPerMinute: this.options.requestsPerMinute });
+                await sleep(waitMs);
+            }
+            this.starts.push(Date.now());
+        });
+        this.slotChain = slot;
+        return slot.finally(() => {
+            this.queued--;
+        });
+    }
+
+    private emit(status: SchedulerStatus) {
+        this.listeners.forEach(listener => listener(status));
+    }
+}
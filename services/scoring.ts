@@ -0,0 +1,87 @@
+/**
+ * scoring.ts - Core Web Vitals assessment, health score and batch ranking
+ *
+ * RESPONSIBILITY:
+ * Turns a form factor's metrics into Google's pass/fail verdict and a single 0-100
+ * health score, and ranks the sites of a batch by that score, so the batch verdict
+ * rests on a computed ranking rather than the model's judgement.
+ *
+ * HEALTH SCORE:
+ * 100 x the weighted mean of the share of Good experiences (the first histogram bin)
+ * of LCP, CLS and INP, with the weights in HEALTH_SCORE_WEIGHTS. Unlike the p75
+ * verdict it reflects the whole distribution: a site where 90% of loads are Good
+ * scores higher than one at 76%, although both pass. Metrics without a histogram are
+ * dropped and the remaining weights rescaled; with none left the score is null.
+ *
+ * RANKING:
+ * Each site is represented by its All Devices record when it was queried (CrUX already
+ * weights it by traffic), otherwise by Mobile, otherwise by its first form factor.
+ * Sites are ordered by score, then by passing the assessment, then by p75 LCP.
+ */
+
+import { AnalysisResult, CoreWebVitalsAssessment, FormFactorAnalysis, MetricKey, SiteRanking } from '../types';
+import { FORM_FACTORS, HEALTH_SCORE_WEIGHTS } from '../constants';
+
+export const CORE_WEB_VITALS: MetricKey[] = ['lcp', 'cls', 'inp'];
+
+const RANKING_PREFERENCE = ['ALL_FORM_FACTORS', 'PHONE'] as const;
+
+/**
+ * A Core Web Vital CrUX has no data for (typically INP on pages with too few
+ * interactions) has no rating and is left out rather than counted as failing.
+ */
+const hasData = (metrics: FormFactorAnalysis['metrics'], metric: MetricKey) => metrics[metric].rating !== null;
+
+const computeHealthScore = (metrics: FormFactorAnalysis['metrics']): number | null => {
+    let weighted = 0;
+    let totalWeight = 0;
+    for (const [metric, weight] of Object.entries(HEALTH_SCORE_WEIGHTS) as [MetricKey, number][]) {
+        const distribution = metrics[metric].distribution;
+        if (!distribution) continue;
+        weighted += weight * distribution.good;
+        totalWeight += weight;
+    }
+    return totalWeight > 0 ? Math.round((weighted / totalWeight) * 1000) / 10 : null;
+};
+
+export const assessCoreWebVitals = (metrics: FormFactorAnalysis['metrics']): CoreWebVitalsAssessment => {
+    const assessed = CORE_WEB_VITALS.filter(metric => hasData(metrics, metric));
+    const failing = assessed.filter(metric => metrics[metric].rating !== 'good');
+    return {
+        passes: assessed.length > 0 && failing.length === 0,
+        failing,
+        score: computeHealthScore(metrics),
+    };
+};
+
+export const formatScore = (score: number | null) => score === null ? 'N/A' : score.toFixed(1);
+
+/**
+ * The form factor a site is ranked by (see RANKING above).
+ */
+export const getRankingFormFactor = (analysis: AnalysisResult): FormFactorAnalysis => {
+    const preferred = RANKING_PREFERENCE.find(key => analysis.formFactors[key]);
+    const key = preferred ?? FORM_FACTORS.find(({ key }) => analysis.formFactors[key])!.key;
+    return analysis.formFactors[key]!;
+};
+
+/**
+ * Ranks audited sites best first. Ties are broken as described above and finally by
+ * domain, so the same batch always yields the same order.
+ */
+export const rankSites = (results: AnalysisResult[]): SiteRanking[] => {
+    const entries = results.map(r => ({ domain: r.domain, data: getRankingFormFactor(r) }));
+    entries.sort((a, b) =>
+        (b.data.assessment.score ?? -1) - (a.data.assessment.score ?? -1) ||
+        Number(b.data.assessment.passes) - Number(a.data.assessment.passes) ||
+        (a.data.metrics.lcp.value ?? Infinity) - (b.data.metrics.lcp.value ?? Infinity) ||
+        a.domain.localeCompare(b.domain)
+    );
+    return entries.map(({ domain, data }, i) => ({
+        rank: i + 1,
+        domain,
+        formFactor: data.formFactor,
+        passes: data.assessment.passes,
+        score: data.assessment.score,
+    }));
+};
@@ -0,0 +1,292 @@
+/**
+ * simulatedReports.ts - Deterministic stand-ins for the LLM tools
+ *
+ * RESPONSIBILITY:
+ * Produces Historian notes, Interpreter reports, batch comparisons, chat answers and planner turns without a
+ * configured LLM provider, built directly from the analysis: detected changes, ratings, the
+ * dominant LCP phase and the navigation hints. The same data always yields the same
+ * text, so simulation mode is useful for demos, onboarding and UI development, and
+ * the output is clearly marked as simulated.
+ */
+
+import { AnalysisResult, AuditFact, AuditFactKind, FailedSite, FormFactor, HistorianReport, HistoryWindow, InterpreterReport, MetricKey, PeriodCadence, SiteRanking, SummarizedAnalysis, TrendFinding } from '../types';
+import { MAX_HISTORY_DEPTH, METRIC_KEYS } from '../constants';
+import { listFormFactors, getHistoryWindow, formatHistoryWindow, getSeriesEndpoints } from './cruxService';
+import { isHistoricalChange } from './regressionDetector';
+import { formatScore } from './scoring';
+import { SIMULATED_NOTICE, formatRecommendationTarget } from './structuredReports';
+import { evaluateRecommendationRules, findSharedRules } from './recommendationRules';
+import { renderScoreboard } from './reportVerifier';
+import { LLMMessage, LLMToolCall, LLMToolResponse } from './llmProviders';
+
+const RATING_LABELS = { good: 'Good', 'needs-improvement': 'Needs Improvement', poor: 'Poor' } as const;
+
+const formatValue = (metric: MetricKey, value: number | null) =>
+    value === null ? 'No data' : metric === 'cls' ? value.toFixed(2) : `${Math.round(value)}ms`;
+
+const describeHistoryWindow = (analysis: AnalysisResult): string => {
+    const windows = listFormFactors(analysis)
+        .map(({ data }) => getHistoryWindow(data.history.periods))
+        .filter((w): w is HistoryWindow => w !== null)
+        .sort((a, b) => b.periods - a.periods);
+    return formatHistoryWindow(windows[0] ?? null);
+};
+
+// The device most users see: Mobile when present, otherwise the first with data.
+const primaryFormFactor = (analysis: AnalysisResult) => {
+    const formFactors = listFormFactors(analysis);
+    return formFactors.find(f => f.key === 'PHONE') ?? formFactors[0];
+};
+
+/**
+ * Stand-in for the Historian: restates the detected changes per device, notes LCP
+ * improvements, which the detector does not report, and the projected threshold crossings.
+ */
+export const simulateHistorianNotes = (analysis: AnalysisResult): HistorianReport => {
+    const historyWindow = describeHistoryWindow(analysis);
+    const findings: TrendFinding[] = [];
+    const sentences = listFormFactors(analysis).map(({ key, label, data }) => {
+        const device: TrendFinding[] = data.regressions
+            .filter(isHistoricalChange)
+            .map(r => ({ kind: 'regression', formFactor: key, metric: r.metric, description: r.summary }));
+        const endpoints = getSeriesEndpoints(data.history.series.lcp);
+        if (endpoints && endpoints[1].value! < endpoints[0].value! * 0.9) {
+            device.push({
+                kind: 'improvement',
+                formFactor: key,
+                metric: 'lcp',
+                description: `LCP improved from ${formatValue('lcp', endpoints[0].value!)} to ${formatValue('lcp', endpoints[1].value!)} between the periods ending ${endpoints[0].period.end} and ${endpoints[1].period.end}`,
+            });
+        }
+        for (const metric of METRIC_KEYS) {
+            const summary = data.forecasts[metric]?.summary;
+            if (summary) device.push({ kind: 'forecast', formFactor: key, metric, description: summary });
+        }
+        if (device.length === 0) {
+            device.push({ kind: 'stability', formFactor: key, metric: null, description: 'stable within its noise' });
+        }
+        findings.push(...device);
+        return `${label}: ${device.map(f => f.kind === 'forecast' ? `projection: ${f.description}` : f.description).join('; ')}.`;
+    });
+    return { summary: `Simulated Historian notes for ${historyWindow}. ${sentences.join(' ')}`, findings };
+};
+
+// Internal budgets per device, reported next to (not instead of) the Google ratings.
+const describeBudgets = (analysis: SummarizedAnalysis): string[] =>
+    listFormFactors(analysis).flatMap(({ label, data }) => {
+        const budgeted = METRIC_KEYS.filter(key => data.metrics[key].budget);
+        if (budgeted.length === 0) return [];
+        const checked = budgeted.filter(key => data.metrics[key].budget!.pass !== null);
+        const unchecked = budgeted.filter(key => data.metrics[key].budget!.pass === null);
+        const breaches = data.regressions.filter(r => r.kind === 'budget');
+        const status = breaches.length > 0
+            ? `${label} is over budget: ${breaches.map(r => r.summary).join('; ')}.`
+            : checked.length > 0 ? `${label} is within budget on ${checked.map(key => key.toUpperCase()).join(', ')}.` : null;
+        const noData = unchecked.length > 0 ? `${label} has no data to check the ${unchecked.map(key => key.toUpperCase()).join(', ')} budget.` : null;
+        return [status, noData].filter((line): line is string => line !== null);
+    });
+
+/**
+ * Stand-in for the Interpreter: assessment and budget status, device gap, trend notes and the
+ * top three matches of the recommendation rules, which the model's prompt is grounded on.
+ */
+export const simulateInterpreterReport = (domain: string, analysis: SummarizedAnalysis, historian: HistorianReport): InterpreterReport => {
+    const formFactors = listFormFactors(analysis);
+    const share = analysis.trafficShare;
+    const shareOf = (key: FormFactor) => {
+        if (!share || key === 'ALL_FORM_FACTORS') return '';
+        const value = key === 'PHONE' ? share.phone : key === 'DESKTOP' ? share.desktop : share.tablet;
+        return ` (${Math.round(value * 100)}% of traffic)`;
+    };
+
+    const passing = formFactors.filter(f => f.data.assessment.passes).map(f => f.label);
+    const summary = passing.length === formFactors.length
+        ? `${domain} passes the Core Web Vitals assessment on every device with data.`
+        : passing.length === 0
+            ? `${domain} fails the Core Web Vitals assessment on every device with data.`
+            : `${domain} passes the Core Web Vitals assessment on ${passing.join(' and ')} only.`;
+    const scores = `Health scores: ${formFactors.map(({ key, label, data }) => `${label} ${formatScore(data.assessment.score)}${shareOf(key)}`).join(', ')}.`;
+
+    const phone = analysis.formFactors.PHONE;
+    const desktop = analysis.formFactors.DESKTOP;
+    // TTFB and RTT split the gap only where both devices have data for them.
+    const split = phone && desktop
+        ? (['ttfb', 'rtt'] as const)
+            .filter(metric => phone.metrics[metric].value !== null && desktop.metrics[metric].value !== null)
+            .map(metric => `${metric.toUpperCase()} ${formatValue(metric, phone.metrics[metric].value)} vs ${formatValue(metric, desktop.metrics[metric].value)}`)
+        : [];
+    const deviceGap = phone && desktop && phone.metrics.lcp.value !== null && desktop.metrics.lcp.value !== null
+        ? `Mobile LCP is ${formatValue('lcp', phone.metrics.lcp.value)} against ${formatValue('lcp', desktop.metrics.lcp.value)} on desktop. ` +
+          (split.length > 0
+              ? `Of that, ${split.join(' and ')} is server and network time; the rest of the gap is front-end rendering time.`
+              : 'CrUX has no TTFB or RTT data for both devices, so the gap cannot be split into server, network and rendering time.')
+        : 'Mobile and desktop LCP data are not both available, so no device gap is computed.';
+
+    return {
+        executiveSummary: [summary, scores, ...describeBudgets(analysis)].join(' '),
+        deviceGap,
+        trendAnalysis: historian.summary,
+        recommendations: evaluateRecommendationRules(analysis),
+        simulated: true,
+        truncated: false,
+    };
+};
+
+/**
+ * Stand-in for the batch comparison: the same scoreboard the model's prose is placed under,
+ * followed by a verdict read off the ranking, the first fix the recommendation rules give
+ * the last site and the rules the sites share.
+ */
+export const simulateBatchComparison = (results: AnalysisResult[], rankings: SiteRanking[], failedSites: FailedSite[] = []): string => {
+    // Fastest is by the primary device's LCP; the winner and "needs attention" come from the ranking.
+    const fastest = results
+        .map(r => ({ r, primary: primaryFormFactor(r)!.data }))
+        .sort((a, b) => (a.primary.metrics.lcp.value ?? Infinity) - (b.primary.metrics.lcp.value ?? Infinity))[0];
+    const best = rankings[0];
+    const worst = rankings[rankings.length - 1];
+    const failingOf = (domain: string) => {
+        const primary = primaryFormFactor(results.find(r => r.domain === domain)!)!;
+        const failing = primary.data.assessment.failing;
+        return failing.length > 0 ? `${failing.map(m => m.toUpperCase()).join(', ')} not Good on ${primary.label}` : `all Core Web Vitals Good on ${primary.label}`;
+    };
+    const [firstFix] = evaluateRecommendationRules(results.find(r => r.domain === worst.domain)!, 1);
+    const shared = findSharedRules(results);
+
+    const lines = [
+        renderScoreboard(results, rankings, failedSites),
+        '',
+        SIMULATED_NOTICE,
+        '',
+        `- **Fastest Site:** ${fastest.r.domain} (LCP ${formatValue('lcp', fastest.primary.metrics.lcp.value)}).`,
+        ...(rankings.length > 1 ? [
+            `- **Needs Attention:** ${worst.domain} (health score ${formatScore(worst.score)}; ${failingOf(worst.domain)}). ` +
+            `First fix (${firstFix.priority} priority, ${formatRecommendationTarget(firstFix)}): ${firstFix.title}`,
+        ] : []),
+        ...(shared.length > 0
+            ? [`- **Pattern Recognition:** ${shared.slice(0, 3).map(rule => `${rule.domains.length} of ${results.length} sites match \`${rule.ruleId}\` (${rule.domains.join(', ')})`).join('; ')}.`]
+            : []),
+        `- **Verdict:** ${best.domain} is the performance winner with a health score of ${formatScore(best.score)} and ${best.passes ? 'a passing' : 'a failing'} Core Web Vitals assessment.`,
+        ...failedSites.map(site => `- **Missing Data:** ${site.domain}: ${site.error.message}`),
+    ];
+    return lines.join('\n');
+};
+
+const DEVICE_PATTERNS: [FormFactor, RegExp][] = [
+    ['PHONE', /\b(mobile|phones?)\b/i],
+    ['DESKTOP', /\bdesktops?\b/i],
+    ['TABLET', /\btablets?\b/i],
+    ['ALL_FORM_FACTORS', /\ball devices\b/i],
+];
+
+/**
+ * Stand-in for the chat: picks the facts that match the devices and metrics named in
+ * the question (changes and forecasts for "when" questions, the recommendations and
+ * budgets for "what to fix" questions, current figures otherwise) and lists them with their citations. It does not reason about them.
+ */
+export const simulateChatAnswer = (question: string, facts: AuditFact[]): string => {
+    const devices = DEVICE_PATTERNS.filter(([, pattern]) => pattern.test(question)).map(([key]) => key);
+    const metrics = METRIC_KEYS.filter(metric => new RegExp(`\\b${metric}\\b`, 'i').test(question));
+    const aboutTime = /\b(when|week|period|jump|change|regress\w*|trend|history)\b/i.test(question);
+
+    const relevant = facts.filter(fact =>
+        (devices.length === 0 || fact.formFactor === null || devices.includes(fact.formFactor)) &&
+        (metrics.length === 0 || (fact.metric !== null && metrics.includes(fact.metric)))
+    );
+    const aboutFixes = /\b(fix|first|priorit\w*|improve|recommend\w*)\b/i.test(question);
+    const preferred: AuditFactKind[] = aboutTime ? ['change', 'forecast']
+        : aboutFixes ? ['interpreter', 'budget']
+        : ['current', 'distribution', 'budget', 'lcp-breakdown'];
+    let picked = relevant.filter(fact => preferred.includes(fact.kind));
+    if (picked.length === 0) picked = relevant.filter(fact => fact.kind === 'current');
+    if (devices.length === 0 && metrics.length === 0) picked = picked.filter(fact => fact.kind !== 'current' || fact.metric === 'lcp');
+
+    if (picked.length === 0) {
+        return `Simulated answer: no figures in this audit match the question${aboutTime ? ', and no change was detected for it' : ''}. ` +
+            `Name a device (mobile, desktop, tablet) or a metric (${METRIC_KEYS.map(m => m.toUpperCase()).join(', ')}) to see the matching figures.`;
+    }
+    return [
+        'Simulated answer: these are the figures in the audit that match the question.',
+        ...picked.slice(0, 8).map(fact => `- ${fact.label}: ${fact.value} [${fact.id}]`),
+    ].join('\n');
+};
+
+const TARGET_PATTERN = /\b(?:https?:\/\/)?(?:[a-z0-9-]+\.)+[a-z]{2,}(?:\/[^\s,;)]*)?/gi;
+
+const WEEKS_PER_MONTH = 52 / 12;
+
+// The time range a goal names, in weeks ("last quarter" -> 13); null when it names none.
+const parseWeeks = (goal: string): number | null => {
+    const count = goal.match(/\b(\d+)\s*(week|month)s?\b/i);
+    return count ? Number(count[1]) * (count[2].toLowerCase() === 'month' ? WEEKS_PER_MONTH : 1)
+        : /\bquarter\b/i.test(goal) ? 13
+        : /\bmonth\b/i.test(goal) ? WEEKS_PER_MONTH
+        : /\b(half[- ]year|six months)\b/i.test(goal) ? 26
+        : /\byear\b/i.test(goal) ? 52
+        : null;
+};
+
+// A range in weeks as collection periods of the source's cadence: a quarter is 13 weekly or 3 monthly periods.
+const toPeriods = (weeks: number, cadence: PeriodCadence): number =>
+    Math.min(Math.max(Math.round(cadence === 'monthly' ? weeks / WEEKS_PER_MONTH : weeks), 1), MAX_HISTORY_DEPTH);
+
+/**
+ * The calls the stand-in planner makes for a goal: for every site named in it, fetch
+ * the record, the requested time range (if any) and the regressions for the devices
+ * and metrics named, then compare the sites or, for a single site, write its report.
+ * The time range is counted in the cadence the site's record was reported with.
+ */
+const simulatePlan = (goal: string, cadenceOf: (target: string) => PeriodCadence): LLMToolCall[] => {
+    const targets = [...new Set((goal.match(TARGET_PATTERN) ?? [])
+        .map(match => match.replace(/[.,]+$/, ''))
+        .map(match => /^https?:\/\//i.test(match) ? match : `https://${match}`))];
+    const formFactors = DEVICE_PATTERNS.filter(([, pattern]) => pattern.test(goal)).map(([key]) => key);
+    const metrics = METRIC_KEYS.filter(metric => new RegExp(`\\b${metric}\\b`, 'i').test(goal));
+    const weeks = parseWeeks(goal);
+    const scope = {
+        ...(formFactors.length > 0 ? { formFactors } : {}),
+        ...(metrics.length > 0 ? { metrics } : {}),
+    };
+
+    const calls: Omit<LLMToolCall, 'id'>[] = targets.flatMap(target => [
+        { name: 'fetch_crux_data', args: { target, ...(formFactors.length > 0 ? { formFactors } : {}) } },
+        ...(weeks !== null ? [{ name: 'fetch_crux_history', args: { target, periods: toPeriods(weeks, cadenceOf(target)), ...scope } }] : []),
+        { name: 'detect_regressions', args: { target, ...scope } },
+    ]);
+    if (targets.length > 1) calls.push({ name: 'compare_sites', args: { targets } });
+    if (targets.length === 1) calls.push({ name: 'synthesize_report', args: { target: targets[0] } });
+    return calls.map((call, i) => ({ ...call, id: `call-${i + 1}` }));
+};
+
+/**
+ * Stand-in for the planner model: makes the calls of `simulatePlan` one per turn, then
+ * answers by listing what each call returned. It does not interpret the results; it
+ * only drops the remaining calls for a site that could not be fetched.
+ */
+export const simulatePlannerTurn = (goal: string, messages: LLMMessage[], stepsLeft: number): LLMToolResponse => {
+    const results = messages.flatMap(message => message.role === 'tool' ? message.results : []);
+    const unavailable = new Set(results.filter(r => r.call.name === 'fetch_crux_data' && r.response.error).map(r => r.call.args.target));
+    const cadences = new Map(results
+        .filter(r => r.call.name === 'fetch_crux_data' && r.response.cadence)
+        .map(r => [r.call.args.target, r.response.cadence as PeriodCadence]));
+    const plan = simulatePlan(goal, target => cadences.get(target) ?? 'weekly').filter(call => call.name === 'fetch_crux_data' || !unavailable.has(call.args.target));
+    if (stepsLeft > 0 && results.length < plan.length) {
+        return { text: '', toolCalls: [plan[results.length]] };
+    }
+    if (plan.length === 0) {
+        return {
+            text: `${SIMULATED_NOTICE}\n\nThe goal names no site to audit. Simulated planning only follows sites written as origins or URLs, e.g. "compare mobile INP of www.example.com and www.example.org over the last quarter".`,
+            toolCalls: [],
+        };
+    }
+    return {
+        text: [
+            SIMULATED_NOTICE,
+            '',
+            '## Steps',
+            ...results.map(({ call, response }, i) =>
+                `${i + 1}. \`${call.name}\`: ${String(response.summary ?? response.error ?? 'no result')}`),
+            ...(results.length < plan.length ? ['', `${plan.length - results.length} planned step${plan.length - results.length === 1 ? ' was' : 's were'} not run.`] : []),
+        ].join('\n'),
+        toolCalls: [],
+    };
+};
@@ -0,0 +1,290 @@
+/**
+ * simulationFixtures.ts - Fixture library for simulation mode
+ *
+ * RESPONSIBILITY:
+ * Provides realistic CrUX record and history responses for a handful of fictional
+ * origins, so the whole pipeline (Query -> Historian -> Interpreter, charts and
+ * batch comparison) runs with no keys for demos, onboarding and UI work.
+ *
+ * The responses use the exact CrUX API shapes and are generated from short profiles
+ * rather than stored as large JSON blobs:
+ * - Weekly values follow the profile's trend plus seeded noise, and each collection
+ *   period averages its four weeks, so a step ramps in over a few periods as in real CrUX.
+ * - Histogram densities are derived from each p75 with a log-normal model, so the
+ *   Good / Needs Improvement / Poor shares always agree with the p75.
+ * Everything is seeded from the origin and form factor, so the same fixture always
+ * produces the same data.
+ */
+
+import { CrUXCollectionPeriod, CrUXHistoryResponse, CrUXRecordQuery, CrUXResponse, FormFactor, LcpSubpartKey, MetricKey, NavigationTypeFractions, TrafficShare } from '../types';
+import { CRUX_METRIC_NAMES, LCP_SUBPARTS, MAX_HISTORY_DEPTH, METRIC_KEYS, METRIC_THRESHOLDS, NAVIGATION_TYPES } from '../constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Last day of the newest simulated collection period (a Saturday, like real CrUX periods).
+const LATEST_PERIOD_END = Date.UTC(2025, 9, 18);
+// Weeks averaged into one rolling 28-day collection period.
+const WEEKS_PER_PERIOD = 4;
+
+interface FixtureProfile {
+    origin: string;
+    label: string;
+    description: string;
+    // Form factors CrUX has data for; any other form factor answers 404.
+    formFactors: FormFactor[];
+    // Mobile p75 at the start of the window.
+    base: Record<MetricKey, number>;
+    // Mobile p75 as a multiple of `base` at position t (0 = oldest week, 1 = latest).
+    shape: Partial<Record<MetricKey, (t: number) => number>>;
+    // Relative week-to-week noise, before the 28-day averaging.
+    noise: number;
+    // Period indexes (0 = oldest of MAX_HISTORY_DEPTH) where CrUX has no data.
+    gaps: number[];
+    // Share of p75 LCP spent in each phase; sums to 1.
+    lcpPhases: Record<LcpSubpartKey, number>;
+    // Share of LCP elements that are images.
+    imageShare: number;
+    // Navigation mix in the latest period, and how the oldest period differed from it.
+    navigation: NavigationTypeFractions;
+    navigationShift?: Partial<NavigationTypeFractions>;
+    trafficShare: TrafficShare;
+}
+
+const step = (at: number, to: number) => (t: number) => (t < at ? 1 : to);
+const drift = (to: number) => (t: number) => 1 + (to - 1) * t;
+// Flat until `from`, then a steady drift reaching `to` in the latest period.
+const rise = (from: number, to: number) => (t: number) => (t < from ? 1 : 1 + ((to - 1) * (t - from)) / (1 - from));
+
+// Other devices relative to mobile, per metric.
+const DEVICE_SCALE: Record<FormFactor, Record<MetricKey, number>> = {
+    PHONE: { lcp: 1, cls: 1, inp: 1, fcp: 1, ttfb: 1, rtt: 1 },
+    DESKTOP: { lcp: 0.55, cls: 0.7, inp: 0.35, fcp: 0.55, ttfb: 0.7, rtt: 0.4 },
+    TABLET: { lcp: 0.8, cls: 0.9, inp: 0.6, fcp: 0.8, ttfb: 0.85, rtt: 0.8 },
+    ALL_FORM_FACTORS: { lcp: 0.85, cls: 0.9, inp: 0.8, fcp: 0.85, ttfb: 0.9, rtt: 0.8 },
+};
+
+// Spread (log-normal sigma) of each metric's distribution, used to derive histograms.
+const METRIC_SPREAD: Record<MetricKey, number> = { lcp: 0.55, cls: 1, inp: 0.8, fcp: 0.5, ttfb: 0.7, rtt: 0.7 };
+
+const ALL_DEVICES: FormFactor[] = ['PHONE', 'DESKTOP', 'TABLET', 'ALL_FORM_FACTORS'];
+
+const TYPICAL_NAVIGATION: NavigationTypeFractions = {
+    navigate: 0.72, navigate_cache: 0.06, reload: 0.04, restore: 0.01, back_forward: 0.04, back_forward_cache: 0.12, prerender: 0.01,
+};
+
+const FIXTURES: FixtureProfile[] = [
+    {
+        origin: 'https://improving.example',
+        label: 'Improving',
+        description: 'LCP steps down after an image CDN rollout; INP drifts down steadily.',
+        formFactors: ALL_DEVICES,
+        base: { lcp: 3600, cls: 0.12, inp: 310, fcp: 2600, ttfb: 1100, rtt: 160 },
+        shape: { lcp: step(0.55, 0.68), fcp: step(0.55, 0.85), inp: drift(0.72) },
+        noise: 0.03,
+        gaps: [],
+        lcpPhases: { ttfb: 0.3, loadDelay: 0.15, loadDuration: 0.35, renderDelay: 0.2 },
+        imageShare: 0.82,
+        navigation: TYPICAL_NAVIGATION,
+        trafficShare: { phone: 0.68, desktop: 0.29, tablet: 0.03 },
+    },
+    {
+        origin: 'https://regressing.example',
+        label: 'Regressing',
+        description: 'A backend change steps TTFB, FCP and LCP up; CLS drifts up, INP creeps towards Needs Improvement and the bfcache hit rate falls.',
+        formFactors: ALL_DEVICES,
+        base: { lcp: 2300, cls: 0.06, inp: 170, fcp: 1600, ttfb: 650, rtt: 120 },
+        shape: { ttfb: step(0.7, 1.6), lcp: step(0.7, 1.35), fcp: step(0.7, 1.3), cls: drift(1.6), inp: rise(0.7, 1.16) },
+        noise: 0.025,
+        gaps: [],
+        lcpPhases: { ttfb: 0.45, loadDelay: 0.2, loadDuration: 0.15, renderDelay: 0.2 },
+        imageShare: 0.6,
+        navigation: { navigate: 0.7, navigate_cache: 0.05, reload: 0.05, restore: 0.01, back_forward: 0.11, back_forward_cache: 0.07, prerender: 0.01 },
+        navigationShift: { back_forward: -0.07, back_forward_cache: 0.07 },
+        trafficShare: { phone: 0.55, desktop: 0.42, tablet: 0.03 },
+    },
+    {
+        origin: 'https://volatile.example',
+        label: 'Volatile',
+        description: 'Noisy metrics around the thresholds with gaps in the history; no tablet data.',
+        formFactors: ['PHONE', 'DESKTOP', 'ALL_FORM_FACTORS'],
+        base: { lcp: 2500, cls: 0.1, inp: 210, fcp: 1800, ttfb: 800, rtt: 150 },
+        shape: {},
+        noise: 0.12,
+        gaps: [12, 13, 27],
+        lcpPhases: { ttfb: 0.25, loadDelay: 0.35, loadDuration: 0.15, renderDelay: 0.25 },
+        imageShare: 0.7,
+        navigation: { navigate: 0.66, navigate_cache: 0.04, reload: 0.12, restore: 0.01, back_forward: 0.05, back_forward_cache: 0.11, prerender: 0.01 },
+        trafficShare: { phone: 0.74, desktop: 0.25, tablet: 0.01 },
+    },
+    {
+        origin: 'https://stable.example',
+        label: 'Stable',
+        description: 'Fast and flat: every Core Web Vital is Good for the whole window.',
+        formFactors: ALL_DEVICES,
+        base: { lcp: 1700, cls: 0.03, inp: 120, fcp: 1100, ttfb: 380, rtt: 90 },
+        shape: {},
+        noise: 0.02,
+        gaps: [],
+        lcpPhases: { ttfb: 0.25, loadDelay: 0.1, loadDuration: 0.2, renderDelay: 0.45 },
+        imageShare: 0.35,
+        navigation: { navigate: 0.6, navigate_cache: 0.08, reload: 0.03, restore: 0.01, back_forward: 0.01, back_forward_cache: 0.15, prerender: 0.12 },
+        trafficShare: { phone: 0.61, desktop: 0.36, tablet: 0.03 },
+    },
+    {
+        origin: 'https://no-data.example',
+        label: 'No Data',
+        description: 'Too little traffic for CrUX: every request answers 404.',
+        formFactors: [],
+        base: { lcp: 0, cls: 0, inp: 0, fcp: 0, ttfb: 0, rtt: 0 },
+        shape: {},
+        noise: 0,
+        gaps: [],
+        lcpPhases: { ttfb: 0.25, loadDelay: 0.25, loadDuration: 0.25, renderDelay: 0.25 },
+        imageShare: 0,
+        navigation: TYPICAL_NAVIGATION,
+        trafficShare: { phone: 0, desktop: 0, tablet: 0 },
+    },
+];
+
+// Public listing for the UI: the origins that can be audited in simulation mode.
+export const SIMULATION_FIXTURES = FIXTURES.map(({ origin, label, description }) => ({ origin, label, description }));
+
+// --- Deterministic randomness ---
+
+const hashSeed = (text: string) => {
+    let h = 2166136261;
+    for (let i = 0; i < text.length; i++) h = Math.imul(h ^ text.charCodeAt(i), 16777619);
+    return h >>> 0;
+};
+
+// mulberry32: small, fast, seedable PRNG.
+const seededRandom = (seed: number) => () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const gaussian = (random: () => number) =>
+    Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26).
+const normalCdf = (z: number) => {
+    const x = Math.abs(z) / Math.SQRT2;
+    const t = 1 / (1 + 0.3275911 * x);
+    const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+    return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+// --- Response builders ---
+
+const round = (metric: MetricKey, value: number) => (metric === 'cls' ? Math.round(value * 100) / 100 : Math.round(value));
+
+/**
+ * Good / Needs Improvement / Poor shares of a log-normal distribution with this p75.
+ */
+const toDensities = (metric: MetricKey, p75: number): [number, number, number] => {
+    const { good, poor } = METRIC_THRESHOLDS[metric];
+    const sigma = METRIC_SPREAD[metric];
+    const mu = Math.log(Math.max(p75, 1e-4)) - 0.6745 * sigma;
+    const cdf = (x: number) => normalCdf((Math.log(x) - mu) / sigma);
+    const goodShare = cdf(good);
+    const poorShare = 1 - cdf(poor);
+    const r = (v: number) => Math.round(v * 10000) / 10000;
+    return [r(goodShare), r(1 - goodShare - poorShare), r(poorShare)];
+};
+
+const histogramBounds = (metric: MetricKey) => {
+    const { good, poor } = METRIC_THRESHOLDS[metric];
+    return [{ start: 0, end: good }, { start: good, end: poor }, { start: poor }];
+};
+
+const toCrUXDate = (ms: number) => {
+    const d = new Date(ms);
+    return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+};
+
+const COLLECTION_PERIODS: CrUXCollectionPeriod[] = Array.from({ length: MAX_HISTORY_DEPTH }, (_, i) => {
+    const end = LATEST_PERIOD_END - (MAX_HISTORY_DEPTH - 1 - i) * 7 * DAY_MS;
+    return { firstDate: toCrUXDate(end - 27 * DAY_MS), lastDate: toCrUXDate(end) };
+});
+
+/**
+ * p75 per collection period for one metric: weekly values (trend x device scale x noise)
+ * averaged over each period's four weeks. Gaps become null.
+ */
+const buildSeries = (profile: FixtureProfile, formFactor: FormFactor, metric: MetricKey): (number | null)[] => {
+    const random = seededRandom(hashSeed(`${profile.origin}|${formFactor}|${metric}`));
+    const weeks = MAX_HISTORY_DEPTH + WEEKS_PER_PERIOD - 1;
+    const shape = profile.shape[metric] ?? (() => 1);
+    const weekly = Array.from({ length: weeks }, (_, w) =>
+        profile.base[metric] * DEVICE_SCALE[formFactor][metric] * shape(w / (weeks - 1)) * (1 + profile.noise * gaussian(random))
+    );
+    return COLLECTION_PERIODS.map((_, i) => {
+        if (profile.gaps.includes(i)) return null;
+        const window = weekly.slice(i, i + WEEKS_PER_PERIOD);
+        return round(metric, window.reduce((sum, v) => sum + v, 0) / window.length);
+    });
+};
+
+const navigationAt = (profile: FixtureProfile, t: number): NavigationTypeFractions => {
+    const result = {} as NavigationTypeFractions;
+    for (const { key } of NAVIGATION_TYPES) {
+        const shift = profile.navigationShift?.[key] ?? 0;
+        result[key] = Math.round((profile.navigation[key] + shift * (1 - t)) * 10000) / 10000;
+    }
+    return result;
+};
+
+const buildFixture = (profile: FixtureProfile, formFactor: FormFactor): { record: CrUXResponse; history: CrUXHistoryResponse } => {
+    const key = { origin: profile.origin, ...(formFactor === 'ALL_FORM_FACTORS' ? {} : { formFactor }) };
+    const series = Object.fromEntries(METRIC_KEYS.map(metric => [metric, buildSeries(profile, formFactor, metric)])) as Record<MetricKey, (number | null)[]>;
+    const latest = MAX_HISTORY_DEPTH - 1;
+
+    const historyMetrics: Record<string, unknown> = {};
+    const recordMetrics: Record<string, unknown> = {};
+    for (const metric of METRIC_KEYS) {
+        const values = series[metric];
+        const densities = values.map(v => (v === null ? null : toDensities(metric, v)));
+        historyMetrics[CRUX_METRIC_NAMES[metric]] = {
+            histogramTimeseries: histogramBounds(metric).map((bound, b) => ({ ...bound, densities: densities.map(d => (d ? d[b] : null)) })),
+            percentilesTimeseries: { p75s: values },
+        };
+        const current = densities[latest]!;
+        recordMetrics[CRUX_METRIC_NAMES[metric]] = {
+            histogram: histogramBounds(metric).map((bound, b) => ({ ...bound, density: current[b] })),
+            percentiles: { p75: values[latest] },
+        };
+    }
+
+    const lcp = series.lcp[latest]!;
+    for (const { key: phase, cruxName } of LCP_SUBPARTS) {
+        recordMetrics[cruxName] = { percentiles: { p75: Math.round(lcp * profile.lcpPhases[phase]) } };
+    }
+    recordMetrics.largest_contentful_paint_resource_type = { fractions: { image: profile.imageShare, text: Math.round((1 - profile.imageShare) * 10000) / 10000 } };
+
+    const navigationHistory = COLLECTION_PERIODS.map((_, i) => (profile.gaps.includes(i) ? null : navigationAt(profile, i / latest)));
+    historyMetrics.navigation_types = {
+        fractionTimeseries: Object.fromEntries(NAVIGATION_TYPES.map(({ key: type }) => [
+            type,
+            { fractions: navigationHistory.map(mix => (mix ? mix[type] : null)) },
+        ])),
+    };
+    recordMetrics.navigation_types = { fractions: navigationAt(profile, 1) };
+    if (formFactor === 'ALL_FORM_FACTORS') recordMetrics.form_factors = { fractions: { ...profile.trafficShare } };
+
+    return {
+        record: { record: { key, metrics: recordMetrics, collectionPeriod: COLLECTION_PERIODS[latest] } },
+        history: { record: { key, metrics: historyMetrics, collectionPeriods: COLLECTION_PERIODS } },
+    };
+};
+
+/**
+ * Record and full-depth history for a simulated origin and form factor, or null
+ * when the fixture has no data for it (unknown origin, page URL or missing device).
+ */
+export const getSimulationFixture = (query: CrUXRecordQuery) => {
+    if (query.scope !== 'origin') return null;
+    const profile = FIXTURES.find(f => f.origin === query.target.replace(/\/+$/, ''));
+    if (!profile || !profile.formFactors.includes(query.formFactor)) return null;
+    return buildFixture(profile, query.formFactor);
+};
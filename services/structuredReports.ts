@@ -0,0 +1,220 @@
+/**
+ * structuredReports.ts - Typed Historian and Interpreter output
+ *
+ * RESPONSIBILITY:
+ * Reads the JSON the LLM tools return under their response schemas into
+ * `HistorianReport` and `InterpreterReport`, and derives the markdown view from an
+ * `InterpreterReport`. Parsing is defensive: the schema constrains the model, but
+ * values outside the known metrics, devices or priorities are dropped rather than
+ * passed on to the UI.
+ *
+ * PARTIAL JSON:
+ * While a report streams in, and when a stream breaks off, the JSON is incomplete.
+ * `parsePartialJson` cuts the text back to the last member that can be read (keeping
+ * a string value that is still being written) and closes the open brackets, so the
+ * report can be shown as it grows.
+ */
+
+import { FormFactor, HistorianReport, InterpreterReport, MetricKey, Recommendation, RecommendationPriority, TrendFinding, TrendFindingKind } from '../types';
+import { FORM_FACTORS, METRIC_KEYS } from '../constants';
+import { RECOMMENDATION_RULE_IDS } from './recommendationRules';
+
+export const RECOMMENDATION_PRIORITIES: RecommendationPriority[] = ['high', 'medium', 'low'];
+export const TREND_FINDING_KINDS: TrendFindingKind[] = ['regression', 'improvement', 'forecast', 'distribution', 'stability'];
+export const FORM_FACTOR_KEYS: FormFactor[] = FORM_FACTORS.map(f => f.key);
+
+export const SIMULATED_NOTICE = '> Simulated output: generated deterministically from the data because no LLM provider is configured.';
+export const TRUNCATED_NOTICE = '> Incomplete: the response stream was cut off, so this shows only the part that arrived.';
+
+const PRIORITY_LABELS: Record<RecommendationPriority, string> = { high: 'High', medium: 'Medium', low: 'Low' };
+
+const text = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+const oneOf = <T extends string>(allowed: T[], value: unknown): T | null => {
+    const normalized = text(value).toLowerCase();
+    return allowed.find(option => option.toLowerCase() === normalized) ?? null;
+};
+
+// Models sometimes wrap JSON in a ```json fence even in JSON mode.
+const stripFence = (raw: string) => raw.trim().replace(/^```(?:json)?\s*|\s*```$/g, '');
+
+const parseJson = (raw: string): any => JSON.parse(stripFence(raw));
+
+interface OpenContainer {
+    type: '{' | '[';
+    expect: 'key' | 'colon' | 'value' | 'comma';
+    // Where the member being written starts: just after the bracket, or at its leading comma.
+    memberStart: number;
+}
+
+/**
+ * Reads JSON that may be cut off anywhere. Returns null when nothing readable has
+ * arrived yet (or the text is not JSON at all).
+ */
+export const parsePartialJson = (raw: string): any => {
+    const source = stripFence(raw);
+    try {
+        return JSON.parse(source);
+    } catch {
+        // Incomplete; complete it below.
+    }
+
+    const stack: OpenContainer[] = [];
+    let inString = false;
+    let stringIsKey = false;
+    let escaped = false;
+    for (let i = 0; i < source.length; i++) {
+        const ch = source[i];
+        const top = stack[stack.length - 1];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (ch === '\\') escaped = true;
+            else if (ch === '"') {
+                inString = false;
+                if (top) top.expect = stringIsKey ? 'colon' : 'comma';
+            }
+            continue;
+        }
+        if (/\s/.test(ch)) continue;
+        if (ch === '"') {
+            inString = true;
+            stringIsKey = top?.type === '{' && top.expect === 'key';
+        } else if (ch === '{' || ch === '[') {
+            stack.push({ type: ch, expect: ch === '{' ? 'key' : 'value', memberStart: i + 1 });
+        } else if (ch === '}' || ch === ']') {
+            stack.pop();
+            const parent = stack[stack.length - 1];
+            if (parent) parent.expect = 'comma';
+        } else if (!top) {
+            return null;
+        } else if (ch === ':') {
+            top.expect = 'value';
+        } else if (ch === ',') {
+            top.expect = top.type === '{' ? 'key' : 'value';
+            top.memberStart = i;
+        } else {
+            // A number or literal; whether it is complete is checked below.
+            top.expect = 'comma';
+        }
+    }
+
+    const top = stack[stack.length - 1];
+    if (!top) return null;
+    let body: string;
+    if (inString) {
+        // A value still being written is kept; a key without its value is not.
+        const value = escaped ? source.slice(0, -1) : source.replace(/\\u[0-9a-fA-F]{0,3}$/, '');
+        body = stringIsKey ? source.slice(0, top.memberStart) : `${value}"`;
+    } else {
+        const scalar = source.trimEnd().match(/[^\s,:[\]{}"]+$/)?.[0];
+        const danglingScalar = scalar !== undefined && !isCompleteScalar(scalar);
+        body = top.expect === 'comma' && !danglingScalar ? source : source.slice(0, top.memberStart);
+    }
+
+    const closers = stack.map(container => container.type === '{' ? '}' : ']').reverse().join('');
+    try {
+        return JSON.parse(body + closers);
+    } catch {
+        return null;
+    }
+};
+
+const isCompleteScalar = (token: string) => {
+    try {
+        JSON.parse(token);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+export const parseHistorianReport = (raw: string): HistorianReport => {
+    const data = parseJson(raw);
+    const findings = (Array.isArray(data?.findings) ? data.findings : []).flatMap((item: any): TrendFinding[] => {
+        const kind = oneOf(TREND_FINDING_KINDS, item?.kind);
+        const formFactor = oneOf(FORM_FACTOR_KEYS, item?.formFactor);
+        const description = text(item?.description);
+        if (!kind || !formFactor || !description) return [];
+        return [{ kind, formFactor, metric: oneOf(METRIC_KEYS, item?.metric), description }];
+    });
+    return { summary: text(data?.summary), findings };
+};
+
+const readInterpreterReport = (data: any): InterpreterReport => {
+    const recommendations = (Array.isArray(data?.recommendations) ? data.recommendations : []).flatMap((item: any): Recommendation[] => {
+        const metric = oneOf(METRIC_KEYS, item?.metric);
+        const formFactor = oneOf(FORM_FACTOR_KEYS, item?.formFactor);
+        const title = text(item?.title);
+        if (!metric || !formFactor || !title) return [];
+        return [{
+            title,
+            metric,
+            formFactor,
+            priority: oneOf(RECOMMENDATION_PRIORITIES, item?.priority) ?? 'medium',
+            expectedImpact: text(item?.expectedImpact),
+            rationale: text(item?.rationale),
+            ruleId: oneOf(RECOMMENDATION_RULE_IDS, item?.ruleId),
+        }];
+    });
+    return {
+        executiveSummary: text(data?.executiveSummary),
+        deviceGap: text(data?.deviceGap),
+        trendAnalysis: text(data?.trendAnalysis),
+        recommendations,
+        simulated: false,
+        truncated: false,
+    };
+};
+
+export const parseInterpreterReport = (raw: string): InterpreterReport => readInterpreterReport(parseJson(raw));
+
+/**
+ * Reads whatever part of an Interpreter report has arrived; recommendations still
+ * missing their title, metric or device are left out until they are complete.
+ */
+export const parsePartialInterpreterReport = (raw: string): InterpreterReport => readInterpreterReport(parsePartialJson(raw));
+
+/**
+ * A report that only carries a message, used when a tool call fails so the workflow
+ * can still complete and show what went wrong.
+ */
+export const errorInterpreterReport = (message: string): InterpreterReport => ({
+    executiveSummary: message,
+    deviceGap: '',
+    trendAnalysis: '',
+    recommendations: [],
+    simulated: false,
+    truncated: false,
+});
+
+export const getFormFactorLabel = (formFactor: FormFactor) => FORM_FACTORS.find(f => f.key === formFactor)?.label ?? formFactor;
+
+export const formatRecommendationTarget = (recommendation: Recommendation) =>
+    `${getFormFactorLabel(recommendation.formFactor)} ${recommendation.metric.toUpperCase()}`;
+
+/**
+ * The markdown view of a report, for copying and for anything that expects text.
+ */
+export const toInterpreterMarkdown = (report: InterpreterReport): string => {
+    const sections = [
+        ['Executive Summary', report.executiveSummary],
+        ['Device Gap', report.deviceGap],
+        ['Trend Analysis', report.trendAnalysis],
+    ].filter(([, body]) => body);
+
+    const lines = [
+        ...(report.simulated ? [SIMULATED_NOTICE, ''] : []),
+        ...(report.truncated ? [TRUNCATED_NOTICE, ''] : []),
+        ...sections.flatMap(([title, body]) => [`## ${title}`, body, '']),
+    ];
+    if (report.recommendations.length > 0) {
+        lines.push('## Recommendations');
+        report.recommendations.forEach((r, i) => {
+            lines.push(`${i + 1}. **${r.title}** (${PRIORITY_LABELS[r.priority]} priority, ${formatRecommendationTarget(r)})`);
+            if (r.expectedImpact) lines.push(`   - Expected impact: ${r.expectedImpact}`);
+            if (r.rationale) lines.push(`   - Rationale: ${r.rationale}`);
+            if (r.ruleId) lines.push(`   - Rule: \`${r.ruleId}\``);
+        });
+    }
+    return lines.join('\n').trim();
+};
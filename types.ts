@@ -10,6 +10,18 @@ export interface MetricValue {
   };
 }
 
+// Metrics that only publish a p75 (e.g. LCP subparts) and have no histogram.
+export interface PercentileMetricValue {
+  percentiles: {
+    p75: number | string;
+  };
+}
+
+// Categorical metrics (e.g. LCP resource type) published as fractions that sum to 1.
+export interface FractionMetricValue {
+  fractions: Record<string, number>;
+}
+
 export interface CrUXDate {
   year: number;
   month: number;
@@ -21,17 +33,41 @@ export interface CrUXCollectionPeriod {
   lastDate: CrUXDate;
 }
 
+/**
+ * 'origin' audits aggregate every page on an origin; 'url' audits a single page
+ * (e.g. a checkout or PDP template) via the CrUX `url` record key.
+ */
+export type AuditScope = 'origin' | 'url';
+
+/**
+ * CrUX device classes. ALL_FORM_FACTORS is this app's name for the combined record,
+ * which is queried by omitting `formFactor` from the request key.
+ */
+export type FormFactor = 'PHONE' | 'DESKTOP' | 'TABLET' | 'ALL_FORM_FACTORS';
+
+export interface CrUXRecordKey {
+  origin?: string;
+  url?: string;
+  formFactor?: string;
+}
+
 export interface CrUXResponse {
   record: {
-    key: {
-      origin: string;
-      formFactor: string;
-    };
+    key: CrUXRecordKey;
     metrics: {
       largest_contentful_paint?: MetricValue;
       cumulative_layout_shift?: MetricValue;
       interaction_to_next_paint?: MetricValue;
+      first_contentful_paint?: MetricValue;
       experimental_time_to_first_byte?: MetricValue;
+      round_trip_time?: MetricValue;
+      largest_contentful_paint_image_time_to_first_byte?: PercentileMetricValue;
+      largest_contentful_paint_image_resource_load_delay?: PercentileMetricValue;
+      largest_contentful_paint_image_resource_load_duration?: PercentileMetricValue;
+      largest_contentful_paint_image_element_render_delay?: PercentileMetricValue;
+      largest_contentful_paint_resource_type?: FractionMetricValue;
+      form_factors?: FractionMetricValue; // Only present on the combined (no formFactor) record
+      navigation_types?: FractionMetricValue;
     };
     collectionPeriod?: CrUXCollectionPeriod;
   };
@@ -48,46 +84,334 @@ export interface CrUXHistoryMetric {
   };
 }
 
+// History shape for fraction metrics: one array per category, aligned with collectionPeriods.
+export interface CrUXHistoryFractionMetric {
+  fractionTimeseries: Record<string, {
+    fractions: (number | string | null)[];
+  }>;
+}
+
 export interface CrUXHistoryResponse {
   record: {
-    key: {
-      origin: string;
-      formFactor: string;
-    };
+    key: CrUXRecordKey;
     metrics: {
       largest_contentful_paint?: CrUXHistoryMetric;
       cumulative_layout_shift?: CrUXHistoryMetric;
       interaction_to_next_paint?: CrUXHistoryMetric;
+      first_contentful_paint?: CrUXHistoryMetric;
+      experimental_time_to_first_byte?: CrUXHistoryMetric;
+      round_trip_time?: CrUXHistoryMetric;
+      navigation_types?: CrUXHistoryFractionMetric;
     };
     collectionPeriods?: CrUXCollectionPeriod[];
   };
 }
 
+// A CrUX collection period as ISO dates (YYYY-MM-DD), inclusive.
+export interface PeriodRange {
+  start: string;
+  end: string;
+}
+
+/**
+ * One value per collection period. `value` is null when CrUX had no data for that
+ * period, so a series always has exactly one point per period and never drifts
+ * out of alignment with the calendar.
+ */
+export interface TimeSeriesPoint<T = number> {
+  period: PeriodRange;
+  value: T | null;
+}
+
+export type TimeSeries<T = number> = TimeSeriesPoint<T>[];
+
+/**
+ * Internal short names for every CrUX metric the pipeline understands.
+ * LCP, CLS and INP are the Core Web Vitals; FCP, TTFB and RTT are diagnostics.
+ */
+export type MetricKey = 'lcp' | 'cls' | 'inp' | 'fcp' | 'ttfb' | 'rtt';
+
+/**
+ * Share of experiences (0-1) falling in each rating bucket, taken from the CrUX
+ * histogram. The three bins line up with the metric's official thresholds.
+ */
+export interface RatingDistribution {
+  good: number;
+  needsImprovement: number;
+  poor: number;
+}
+
+export type MetricRating = 'good' | 'needs-improvement' | 'poor';
+
+/**
+ * One metric of the current record. A metric CrUX has no data for (common for RTT and
+ * TTFB on low-traffic pages) has a null value and rating, and a null distribution.
+ */
 export interface MetricAnalysis {
-    value: number; 
-    rating: 'good' | 'needs-improvement' | 'poor';
+    value: number | null;
+    rating: MetricRating | null;
+    distribution: RatingDistribution | null;
+    // The internal budget that applies to this metric, if any (see services/budgets.ts).
+    budget: BudgetCheck | null;
+}
+
+/**
+ * An internal performance budget: p75 limits set by a product team on top of
+ * Google's thresholds, e.g. LCP 2000ms on mobile for checkout pages.
+ * `pattern` is an origin or URL with optional `*` wildcards
+ * ("https://shop.example.com/checkout*"); a null form factor applies to every device.
+ */
+export interface PerformanceBudget {
+  id: string;
+  pattern: string;
+  formFactor: FormFactor | null;
+  limits: Partial<Record<MetricKey, number>>;
+}
+
+export interface BudgetCheck {
+  limit: number;
+  // Null when CrUX has no data for the metric, so the budget cannot be checked.
+  pass: boolean | null;
+  // Pattern of the budget the limit came from.
+  pattern: string;
+}
+
+/**
+ * The four sequential phases of an image LCP:
+ * TTFB -> resource load delay -> resource load duration -> element render delay.
+ */
+export type LcpSubpartKey = 'ttfb' | 'loadDelay' | 'loadDuration' | 'renderDelay';
+
+export interface LcpBreakdown {
+  // p75 of each phase in ms. Each p75 is computed independently, so they do not
+  // sum exactly to the LCP p75.
+  subparts: Record<LcpSubpartKey, number | null>;
+  dominant: LcpSubpartKey | null;
+  // Share of page loads whose LCP element is an image vs. a text node.
+  resourceType: { image: number; text: number } | null;
+}
+
+/**
+ * How page loads were initiated, as published by the CrUX `navigation_types` metric.
+ * back_forward_cache loads are served from the bfcache; back_forward loads missed it.
+ */
+export type NavigationType = 'navigate' | 'navigate_cache' | 'reload' | 'restore' | 'back_forward' | 'back_forward_cache' | 'prerender';
+
+export type NavigationTypeFractions = Record<NavigationType, number>;
+
+export interface NavigationAnalysis {
+  current: NavigationTypeFractions;
+  trend: TimeSeries<NavigationTypeFractions>;
+}
+
+export type RegressionKind = 'step' | 'drift' | 'poor' | 'budget';
+
+/**
+ * A deterministic finding from the regression detector.
+ * For a step, `start` is the first period whose window includes the new level and
+ * `end` the first period fully at it; for a drift they bound the fitted run.
+ * A 'poor' entry describes the current value only, so its period fields are null.
+ * A 'budget' entry is a breach of an internal budget: `from` holds the limit and
+ * `relativeChange` how far the current value is over it.
+ */
+export interface Regression {
+  metric: MetricKey;
+  kind: RegressionKind;
+  start: PeriodRange | null;
+  end: PeriodRange | null;
+  from: number | null;
+  to: number;
+  // e.g. 0.18 for +18%; null when there is no earlier level or it was 0.
+  relativeChange: number | null;
+  // Shift divided by the period-to-period noise; null when the series had no noise.
+  signalToNoise: number | null;
+  summary: string;
+}
+
+/**
+ * The Core Web Vitals assessment of one form factor: it passes only when LCP, CLS and
+ * INP are all Good at p75. A metric without data is left out, as in Google's own
+ * assessment. `score` is the composite health score (0-100, see services/scoring.ts).
+ */
+export interface CoreWebVitalsAssessment {
+  passes: boolean;
+  // Core Web Vitals whose p75 is not Good.
+  failing: MetricKey[];
+  score: number | null;
+}
+
+// A site's place in a batch, ranked by the health score of one representative form factor.
+export interface SiteRanking {
+  rank: number;
+  domain: string;
+  formFactor: FormFactor;
+  passes: boolean;
+  score: number | null;
+}
+
+// A projected collection period: the trend's p75 and its ~90% band (see services/forecast.ts).
+export interface ForecastPoint {
+  period: PeriodRange;
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+/**
+ * How far each collection period advances. CrUX API history is weekly (rolling 28-day
+ * windows); BigQuery exports hold one calendar month per period.
+ */
+export type PeriodCadence = 'weekly' | 'monthly';
+
+// When the projected trend enters the next rating.
+export interface ThresholdCrossing {
+  threshold: number;
+  rating: MetricRating;
+  // Collection periods after the last one of the history.
+  periods: number;
+  period: PeriodRange;
+}
+
+export interface MetricForecast {
+  cadence: PeriodCadence;
+  slopePerPeriod: number;
+  // One point per projected period, following the last period of the history.
+  points: ForecastPoint[];
+  crossing: ThresholdCrossing | null;
+  // e.g. "INP is projected to become Poor in about 6 weeks (...)"; null without a crossing.
+  summary: string | null;
 }
 
 export interface FormFactorAnalysis {
+  formFactor: FormFactor;
   metrics: {
     lcp: MetricAnalysis;
     cls: MetricAnalysis;
     inp: MetricAnalysis;
+    fcp: MetricAnalysis;
+    ttfb: MetricAnalysis;
+    rtt: MetricAnalysis;
   };
   history: {
-    lcpTrend: number[];
-    clsTrend: number[];
-    inpTrend: number[];
-    dates?: string[];
+    // Every collection period CrUX returned, oldest first. Empty when history is unavailable.
+    periods: PeriodRange[];
+    cadence: PeriodCadence;
+    series: Record<MetricKey, TimeSeries>;
+    distributions: Partial<Record<MetricKey, TimeSeries<RatingDistribution>>>;
   };
-  regressions: string[];
+  // Projection of each p75 series; metrics with too little recent history are missing.
+  forecasts: Partial<Record<MetricKey, MetricForecast>>;
+  lcpBreakdown: LcpBreakdown | null;
+  navigationTypes: NavigationAnalysis | null;
+  regressions: Regression[];
+  assessment: CoreWebVitalsAssessment;
+  // Why history is missing, when the record was fetched but the history request failed.
+  historyError: CrUXErrorInfo | null;
   collectionPeriod: string;
+  // The key the data was actually recorded under. A 'url' audit with no page-level
+  // data falls back to 'origin' for that form factor.
+  scope: AuditScope;
+}
+
+// Share of page loads (0-1) per device class, from the `form_factors` metric.
+export interface TrafficShare {
+  phone: number;
+  desktop: number;
+  tablet: number;
 }
 
 export interface AnalysisResult {
   domain: string;
-  phone: FormFactorAnalysis;
-  desktop: FormFactorAnalysis;
+  scope: AuditScope; // The scope that was requested
+  origin: string;
+  // Only form factors that were requested AND have CrUX data are present.
+  formFactors: Partial<Record<FormFactor, FormFactorAnalysis>>;
+  trafficShare: TrafficShare | null;
+}
+
+/**
+ * The lean copy of a form factor the Interpreter Agent receives. The Historian has already
+ * read the trends, so the history keeps only its periods (to describe the window), the
+ * navigation trend only its first and last points, and the forecasts are left out.
+ */
+export type SummarizedFormFactor = Omit<FormFactorAnalysis, 'history' | 'forecasts' | 'historyError'> & {
+  history: Pick<FormFactorAnalysis['history'], 'periods'>;
+};
+
+export interface SummarizedAnalysis extends Omit<AnalysisResult, 'formFactors'> {
+  formFactors: Partial<Record<FormFactor, SummarizedFormFactor>>;
+}
+
+/**
+ * Options accepted by the Query Agent's data-fetch tool.
+ */
+export interface CrUXQueryOptions {
+  formFactors?: FormFactor[];
+  historyDepth?: number; // Number of collection periods, weekly or monthly by source (1 - MAX_HISTORY_DEPTH)
+  budgets?: PerformanceBudget[];
+}
+
+/**
+ * Where the Query Agent gets CrUX data from:
+ * - 'direct':      the CrUX API with an API key
+ * - 'apps-script': the Google Apps Script proxy (GET with `endpoint=fetch|history`)
+ * - 'http-proxy':  any proxy that mirrors the CrUX REST API and adds the key itself
+ * - 'offline':     saved CrUX API JSON or BigQuery export rows imported into the browser
+ * - 'simulation':  built-in fixtures for fictional origins; needs no key at all
+ */
+export type DataSourceKind = 'direct' | 'apps-script' | 'http-proxy' | 'offline' | 'simulation';
+
+// Identifies one CrUX record: the target in its audit scope, for one form factor.
+export interface CrUXRecordQuery {
+  target: string;
+  scope: AuditScope;
+  formFactor: FormFactor;
+}
+
+/**
+ * A source of CrUX API responses. Every source returns the CrUX API's own response
+ * shapes and throws the CrUXError subclasses, so the rest of the pipeline never
+ * knows where the data came from.
+ */
+export interface CrUXDataSource {
+  readonly kind: DataSourceKind;
+  // Short description for logs, e.g. "CrUX API" or "Offline import (3 records)".
+  readonly label: string;
+  fetchRecord(query: CrUXRecordQuery): Promise<CrUXResponse>;
+  fetchHistory(query: CrUXRecordQuery, historyDepth: number): Promise<CrUXHistoryResponse>;
+}
+
+// Records loaded by the offline importer, keyed by `${scope}|${target}|${formFactor}`.
+export interface OfflineDataset {
+  files: string[];
+  records: Record<string, { current: CrUXResponse | null; history: CrUXHistoryResponse | null }>;
+}
+
+/**
+ * Which model the Historian, Interpreter and batch comparison tools call:
+ * - 'gemini':            the Gemini API (key from GEMINI_API_KEY or the config panel)
+ * - 'openai-compatible': any server implementing POST /chat/completions, e.g. a local
+ *                        llama.cpp or Ollama server, so audit data never leaves the network
+ */
+export type LLMProviderKind = 'gemini' | 'openai-compatible';
+
+export interface LLMConfig {
+  provider: LLMProviderKind;
+  model: string;
+  // null keeps each tool's own temperature.
+  temperature: number | null;
+  // Base URL of the OpenAI-compatible server, e.g. http://localhost:11434/v1.
+  baseUrl: string;
+  // Gemini key when none is set in the environment; optional bearer token for local servers.
+  apiKey: string;
+}
+
+// The span actually covered by a history response, derived from its collectionPeriods.
+export interface HistoryWindow {
+  periods: number;
+  cadence: PeriodCadence;
+  start: string;
+  end: string;
 }
 
 // Updated to match Multi-Agent Architecture
@@ -96,15 +420,199 @@ export enum AgentState {
   QUERY = 'QUERY',         // "CrUX Query Agent"
   HISTORIAN = 'HISTORIAN', // "CrUX Historian Agent"
   INTERPRETER = 'INTERPRETER', // "CrUX Interpretation Agent"
+  PLANNER = 'PLANNER',     // "Planner Agent": tool calls chosen by the model from a goal
   COMPLETE = 'COMPLETE',
   ERROR = 'ERROR'
 }
 
+/**
+ * A batch entry that could not be audited. The batch carries on without it;
+ * `stage` records which agent was running when it failed.
+ */
+export interface FailedSite {
+  domain: string;
+  stage: AgentState;
+  error: CrUXErrorInfo;
+}
+
+export type CrUXErrorCode = 'NOT_FOUND' | 'INVALID_KEY' | 'QUOTA_EXCEEDED' | 'PROXY_MISCONFIGURED' | 'NETWORK' | 'UNKNOWN';
+
+/**
+ * Serializable description of a failed CrUX request (see `CrUXError` in cruxService).
+ * `body` is the API's error object, or the proxy's response, when there was one.
+ */
+export interface CrUXErrorInfo {
+  code: CrUXErrorCode;
+  message: string;
+  status: number | null;
+  body: unknown;
+  guidance: string;
+}
+
 export interface LogEntry {
   timestamp: string;
-  source: 'Assistant' | 'Query Agent' | 'Historian' | 'Interpreter';
+  source: 'Assistant' | 'Query Agent' | 'Historian' | 'Interpreter' | 'Chat Agent' | 'Planner';
   message: string;
   type: 'info' | 'success' | 'error' | 'warning';
+  // What the user can do about it, shown under the message (set for CrUX errors).
+  guidance?: string;
+  // Progress line of a running stream, replaced in place by the next update.
+  live?: boolean;
+}
+
+export type TrendFindingKind = 'regression' | 'improvement' | 'forecast' | 'distribution' | 'stability';
+
+export interface TrendFinding {
+  kind: TrendFindingKind;
+  formFactor: FormFactor;
+  // null for findings about a device as a whole (e.g. "stable across all metrics").
+  metric: MetricKey | null;
+  description: string;
+}
+
+/**
+ * The Historian's structured output: a short narrative for the Interpreter plus
+ * one typed finding per change, projection or notable stability.
+ */
+export interface HistorianReport {
+  summary: string;
+  findings: TrendFinding[];
+}
+
+export type RecommendationPriority = 'high' | 'medium' | 'low';
+
+export interface Recommendation {
+  // The fix itself, in one sentence.
+  title: string;
+  metric: MetricKey;
+  formFactor: FormFactor;
+  priority: RecommendationPriority;
+  expectedImpact: string;
+  rationale: string;
+  // The rule in services/recommendationRules.ts the fix follows; null when it follows none.
+  ruleId: string | null;
+}
+
+/**
+ * The Interpreter's structured output. The UI renders it as sections and
+ * recommendation cards; markdown is derived from it (see services/structuredReports.ts).
+ */
+export interface InterpreterReport {
+  executiveSummary: string;
+  deviceGap: string;
+  trendAnalysis: string;
+  recommendations: Recommendation[];
+  // Set when the report was produced by the deterministic stand-in instead of a model.
+  simulated: boolean;
+  // Set when the response stream broke off and the report holds only what arrived.
+  truncated: boolean;
+}
+
+// A figure in generated text that disagrees with the data (see services/reportVerifier.ts).
+export interface FigureDiscrepancy {
+  // What the figure describes, e.g. "https://a.example Mobile LCP".
+  context: string;
+  written: string;
+  expected: string;
+  // Set when the figure was a table cell and has been replaced by the value from the data.
+  corrected: boolean;
+}
+
+// The result of cross-checking a generated report's figures against the AnalysisResults.
+export interface ReportVerification {
+  // Number of figures compared with the data.
+  checked: number;
+  discrepancies: FigureDiscrepancy[];
+  // The checked text, with every corrected table cell replaced.
+  text: string;
+}
+
+/**
+ * The batch comparison: the scoreboard rendered from the data, then the model's analysis.
+ * `failed` is set when the analysis could not be generated; the scoreboard is still shown.
+ */
+export interface BatchComparison {
+  markdown: string;
+  failed: boolean;
+}
+
+// Progress of a streamed report, reported after every chunk.
+export interface StreamProgress {
+  // Everything received so far, rendered as markdown.
+  markdown: string;
+  characters: number;
+  // Output tokens so far as counted by the provider; null until it reports a count.
+  tokens: number | null;
+  // Chunks received so far, shown instead of tokens when the provider sends no count.
+  chunks: number;
+}
+
+/**
+ * One figure from a completed audit that the follow-up chat may cite, e.g.
+ * "[F12] Mobile INP p75, period ending 2025-07-26: 215ms". Ids are assigned in
+ * order each time the facts are built (see services/auditFacts.ts).
+ */
+export type AuditFactKind = 'current' | 'distribution' | 'history' | 'change' | 'budget' | 'forecast' | 'assessment' | 'lcp-breakdown' | 'navigation' | 'traffic' | 'historian' | 'interpreter';
+
+export interface AuditFact {
+  id: string;
+  kind: AuditFactKind;
+  formFactor: FormFactor | null;
+  metric: MetricKey | null;
+  label: string;
+  value: string;
+}
+
+// What the chat knows about one audited site.
+export interface AuditContext {
+  analysis: AnalysisResult;
+  historian: HistorianReport | null;
+  report: InterpreterReport | null;
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  // The facts an answer cites, in order of first mention; empty for questions.
+  citations: AuditFact[];
+  // Set when the answer came from the deterministic stand-in instead of a model.
+  simulated: boolean;
+}
+
+// The tools the Planner Agent can call (see agents/plannerTools.ts).
+export type PlannerToolName = 'fetch_crux_data' | 'fetch_crux_history' | 'detect_regressions' | 'synthesize_report' | 'compare_sites';
+
+/**
+ * One tool call of a planner run, as shown in the Logs and the AgentGraph.
+ * `tool` is whatever name the model used, which may not be a known tool.
+ */
+export interface PlannerStep {
+  index: number;
+  tool: string;
+  args: Record<string, unknown>;
+  status: 'running' | 'done' | 'failed';
+  // One line describing the outcome, filled in when the step finishes.
+  summary: string;
+}
+
+/**
+ * Everything a planner run produced. The per-site arrays are parallel to `analyses`;
+ * a site the planner never reported on has null there.
+ */
+export interface PlannerResult {
+  goal: string;
+  // The planner's final answer (markdown).
+  answer: string;
+  analyses: AnalysisResult[];
+  historians: (HistorianReport | null)[];
+  reports: (InterpreterReport | null)[];
+  // The batch comparison, when the planner ran one.
+  comparison: string | null;
+  failedSites: FailedSite[];
+  steps: PlannerStep[];
+  // Set when the run hit MAX_PLANNER_STEPS before the model finished.
+  stoppedAtLimit: boolean;
+  simulated: boolean;
 }
 
 export interface AgentMemory {
@@ -113,14 +621,13 @@ export interface AgentMemory {
     lastRawResults: AnalysisResult | null;
   };
   historian: {
-    lastTrend: string | null;
-    lastHistoryData: {
-      phone: number[];
-      desktop: number[];
-    } | null;
+    lastTrend: HistorianReport | null;
+    lastHistoryData: Partial<Record<FormFactor, number[]>> | null;
   };
   interpreter: {
     lastAnalysis: AnalysisResult | null;
+    lastReport: InterpreterReport | null;
+    // Markdown shown for the run: derived from `lastReport`, or the batch comparison.
     lastRecommendations: string;
   };
 }
\ No newline at end of file